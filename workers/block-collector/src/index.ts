@@ -33,6 +33,7 @@ import {
   generateQualityReport,
 } from './quality-scorer';
 import { handleChatRequest } from './chat';
+import { getBlockCode } from './storage';
 import {
   upsertBlockEmbedding,
   upsertBlockEmbeddingsBatch,
@@ -500,6 +501,8 @@ async function handleBlocksSearch(request: Request, env: Env): Promise<Response>
   const tier = url.searchParams.get('tier');
   const minQuality = url.searchParams.get('minQuality');
   const limit = parseInt(url.searchParams.get('limit') || '10');
+  // Attach the block's JS/CSS from R2 (used by the block generator for reference blocks)
+  const includeCode = url.searchParams.get('includeCode') === 'true';
 
   if (!query) {
     return errorResponse('Query parameter q is required', 400, env);
@@ -517,10 +520,12 @@ async function handleBlocksSearch(request: Request, env: Env): Promise<Response>
       results.map(async (r) => {
         const block = await getBlockById(env.DB, r.id);
         if (!block) return null;
+        const files = includeCode ? await getBlockCode(env.BUCKET, block.site_id, block.id) : null;
         return {
           ...block,
           similarityScore: r.score,
           description: generateBlockDescription(block),
+          ...(files && { js: files.js || null, css: files.css || null }),
         };
       })
     );
@@ -244,6 +244,21 @@ export async function getBlock(
   };
 }
 
+/**
+ * Only a block's JS and CSS, for callers that don't need the HTML, screenshot or metadata
+ */
+export async function getBlockCode(
+  bucket: R2Bucket,
+  siteId: string,
+  blockId: string
+): Promise<{ js?: string; css?: string }> {
+  const [js, css] = await Promise.all([
+    downloadText(bucket, paths.blocks.js(siteId, blockId)),
+    downloadText(bucket, paths.blocks.css(siteId, blockId)),
+  ]);
+  return { js: js || undefined, css: css || undefined };
+}
+
 export async function deleteBlock(
   bucket: R2Bucket,
   siteId: string,
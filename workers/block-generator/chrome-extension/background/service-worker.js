@@ -207,6 +207,9 @@ async function handleGenerateBlockFromSidebar(url, elementData, sessionId, sende
           xpath: elementData?.xpath,
           backgroundImages: elementData?.backgroundImages || [],
           refinements: 0, // No refinements, just 1 generation per option
+          sessionId,
+          option: optionNum,
+          github: buildGitHubConfig(config),
         }).then(result => ({ optionNum, result }))
          .catch(err => ({ optionNum, error: err.message }))
       );
@@ -252,6 +255,7 @@ async function handleGenerateBlockFromSidebar(url, elementData, sessionId, sende
             },
             option: optionNum,
             iteration: iterationNum,
+            reusedBlock: !!result.reusedBlock,
           });
 
           const variant = previewResult.variant || {};
@@ -264,6 +268,7 @@ async function handleGenerateBlockFromSidebar(url, elementData, sessionId, sende
             js: iter.js,
             previewUrl: variant.previewUrl,
             branch: variant.branch,
+            description: result.description,
           };
           allVariants.push(variantData);
 
@@ -638,13 +643,16 @@ async function handleElementSelected(tabId, data) {
 /**
  * Handle block acceptance (merge)
  */
-async function handleAcceptBlock(sessionId, blockName, branch, option = 1, iteration = 1) {
+async function handleAcceptBlock({
+  sessionId, blockName, option = 1, iteration = 1, description,
+}) {
   try {
     const config = await StateManager.getConfig();
 
     await ApiClient.finalizeBlock({
       sessionId,
       blockName,
+      description,
       winner: { option, iteration },
       github: buildGitHubConfig(config),
       da: {
@@ -822,6 +830,7 @@ async function handleComposePage(url, sections, pageTitle, acceptedBlocks) {
       daPath: result.daPath,
       branch: result.branch,
       blocksGenerated: result.blocksGenerated,
+      redirects: result.redirects?.rows || [],
     };
   } catch (error) {
     console.error('Page composition failed:', error);
@@ -833,7 +842,7 @@ async function handleComposePage(url, sections, pageTitle, acceptedBlocks) {
 /**
  * Handle page finalization (merge to main)
  */
-async function handleFinalizePage(branch) {
+async function handleFinalizePage(branch, redirects) {
   console.log('handleFinalizePage called with branch:', branch);
 
   try {
@@ -842,6 +851,11 @@ async function handleFinalizePage(branch) {
     const result = await ApiClient.finalizePage({
       branch,
       github: buildGitHubConfig(config),
+      redirects,
+      da: {
+        org: config.daOrg,
+        site: config.daSite,
+      },
     });
 
     console.log('finalizePage result:', result);
@@ -1067,7 +1081,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       }
 
       case 'ACCEPT_BLOCK': {
-        return handleAcceptBlock(message.sessionId, message.blockName, message.branch, message.option, message.iteration);
+        return handleAcceptBlock(message);
       }
 
       case 'REJECT_BLOCK': {
@@ -1099,7 +1113,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       }
 
       case 'FINALIZE_PAGE': {
-        return handleFinalizePage(message.branch);
+        return handleFinalizePage(message.branch, message.redirects);
       }
 
       case 'REJECT_PAGE': {
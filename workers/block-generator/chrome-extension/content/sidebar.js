@@ -1156,6 +1156,7 @@
         branch: variant?.branch,
         option: variant?.option,
         iteration: variant?.iteration,
+        description: variant?.description,
       });
 
       if (response.success) {
@@ -1541,6 +1542,7 @@
 
       state.previewData = response;
       state.pageImport.branch = response.branch;
+      state.pageImport.redirects = response.redirects;
 
       showView(VIEWS.PREVIEW);
       sidebar.querySelector('#aem-preview-name').textContent = 'Imported Page';
@@ -1576,6 +1578,7 @@
       const response = await sendMessage({
         type: 'FINALIZE_PAGE',
         branch: state.pageImport.branch,
+        redirects: state.pageImport.redirects,
       });
 
       if (response.success) {
@@ -2232,6 +2235,7 @@
         branch: variant?.branch,
         option: variant?.option,
         iteration: variant?.iteration,
+        description: variant?.description,
       });
 
       if (response.success) {
@@ -21,8 +21,11 @@ const ApiClient = {
    *
    * POST /block-generate-full
    * Returns { success, iterations: [{ iteration, blockName, html, css, js }, ...] }
+   * When sessionId is given, iterations are recorded in the session store under that option
    */
-  async generateBlock({ url, screenshot, xpath, html, backgroundImages, refinements = 2 }) {
+  async generateBlock({
+    url, screenshot, xpath, html, backgroundImages, refinements = 2, sessionId, option, github,
+  }) {
     const workerUrl = await this.getWorkerUrl();
 
     // Detailed debug logging
@@ -40,6 +43,14 @@ const ApiClient = {
     const formData = new FormData();
     formData.append('url', url);
     formData.append('refinements', String(refinements));
+    if (sessionId) {
+      formData.append('sessionId', sessionId);
+      formData.append('option', String(option || 1));
+    }
+    // Target repo: lets the worker reuse one of its existing blocks instead of generating a new one
+    if (github) {
+      formData.append('github', JSON.stringify({ ...github, useServerToken: true }));
+    }
 
     if (screenshot && screenshot.size > 0) {
       formData.append('screenshot', screenshot, 'element.png');
@@ -111,6 +122,7 @@ const ApiClient = {
     da,
     option = 1,
     iteration = 1,
+    reusedBlock = false,
   }) {
     const workerUrl = await this.getWorkerUrl();
 
@@ -129,6 +141,7 @@ const ApiClient = {
         js,
         github: { ...github, useServerToken: true },
         da,
+        reusedBlock,
       }),
     });
 
@@ -145,7 +158,9 @@ const ApiClient = {
    *
    * POST /block-finalize
    */
-  async finalizeBlock({ sessionId, blockName, winner, github, da }) {
+  async finalizeBlock({
+    sessionId, blockName, winner, github, da, description,
+  }) {
     const workerUrl = await this.getWorkerUrl();
 
     const response = await fetch(`${workerUrl}/block-finalize`, {
@@ -159,6 +174,7 @@ const ApiClient = {
         winner,
         github: { ...github, useServerToken: true },
         da,
+        description,
       }),
     });
 
@@ -265,8 +281,9 @@ const ApiClient = {
    * Analyze page sections
    *
    * POST /analyze
+   * Optional detector selects the detection strategy (e.g. 'hybrid', 'visual' or 'ensemble')
    */
-  async analyzePage({ url }) {
+  async analyzePage({ url, detector, detectors }) {
     const workerUrl = await this.getWorkerUrl();
     console.log('ApiClient.analyzePage - workerUrl:', workerUrl, 'url:', url);
 
@@ -275,7 +292,7 @@ const ApiClient = {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ url }),
+      body: JSON.stringify({ url, detector, detectors }),
     });
 
     console.log('ApiClient.analyzePage - response status:', response.status);
@@ -334,7 +351,7 @@ const ApiClient = {
    *
    * POST /compose-page
    */
-  async composePage({ url, sections, pageTitle, sessionId, acceptedBlocks, github, da }) {
+  async composePage({ url, sections, pageTitle, sessionId, acceptedBlocks, github, da, mode, blockLibrary }) {
     const workerUrl = await this.getWorkerUrl();
     console.log('ApiClient.composePage - workerUrl:', workerUrl);
 
@@ -351,6 +368,8 @@ const ApiClient = {
         acceptedBlocks,
         github,
         da,
+        mode,
+        blockLibrary,
       }),
     });
 
@@ -370,7 +389,9 @@ const ApiClient = {
    *
    * POST /page-finalize
    */
-  async finalizePage({ branch, github }) {
+  async finalizePage({
+    branch, github, redirects, da,
+  }) {
     const workerUrl = await this.getWorkerUrl();
     console.log('ApiClient.finalizePage - branch:', branch);
 
@@ -382,6 +403,8 @@ const ApiClient = {
       body: JSON.stringify({
         branch,
         github,
+        redirects,
+        da,
       }),
     });
 
@@ -396,6 +419,97 @@ const ApiClient = {
     return response.json();
   },
 
+  /**
+   * Start a long-running operation as an asynchronous job
+   * type: 'block-generate-full' | 'compose-page' | 'design-system-import'
+   * body: FormData (block-generate-full) or a plain object sent as JSON
+   *
+   * POST /jobs/:type
+   * Returns { success, jobId, statusUrl, eventsUrl }
+   */
+  async startJob(type, body) {
+    const workerUrl = await this.getWorkerUrl();
+    const isForm = body instanceof FormData;
+
+    const response = await fetch(`${workerUrl}/jobs/${type}`, {
+      method: 'POST',
+      headers: isForm ? undefined : { 'Content-Type': 'application/json' },
+      body: isForm ? body : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get job status (includes the result once the job has finished)
+   *
+   * GET /jobs/:id
+   */
+  async getJob(jobId) {
+    const workerUrl = await this.getWorkerUrl();
+    const response = await fetch(`${workerUrl}/jobs/${jobId}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `HTTP ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.job;
+  },
+
+  /**
+   * Stream job progress until the job finishes
+   * Calls onProgress({ stage, message, data }) for each event
+   * and resolves with the final job record
+   *
+   * GET /jobs/:id/events (Server-Sent Events, read with fetch:
+   * service workers have no EventSource)
+   */
+  async watchJob(jobId, onProgress) {
+    const workerUrl = await this.getWorkerUrl();
+    const response = await fetch(`${workerUrl}/jobs/${jobId}/events`);
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to stream job events: HTTP ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const readEvents = async () => {
+      const { done, value } = await reader.read();
+      // Stream ended without a done event (e.g. connection dropped) - fall back to status
+      if (done) return this.getJob(jobId);
+      buffer += decoder.decode(value, { stream: true });
+
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop();
+
+      for (const message of messages) {
+        const eventLine = message.split('\n').find((line) => line.startsWith('event: '));
+        const dataLine = message.split('\n').find((line) => line.startsWith('data: '));
+        if (dataLine) {
+          const data = JSON.parse(dataLine.substring(6));
+          if (eventLine === 'event: done') {
+            reader.cancel();
+            return data;
+          }
+          if (onProgress) onProgress(data);
+        }
+      }
+      return readEvents();
+    };
+
+    return readEvents();
+  },
+
   /**
    * Reject page import (delete branch)
    */
@@ -0,0 +1,2 @@
+-- Migration 0002: visual similarity score of each rendered iteration
+ALTER TABLE session_iterations ADD COLUMN similarity_score INTEGER;  -- visual similarity (0-100) of the rendered block to the original
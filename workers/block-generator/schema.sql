@@ -0,0 +1,55 @@
+-- Block Generator Session Store Schema
+-- Current schema, for reference. Databases are created and upgraded from migrations/:
+--   npm run db:migrate (wrangler d1 migrations apply block-generator-sessions)
+-- Schema changes go in a new migrations/NNNN_*.sql file and are mirrored here.
+
+-- ============================================
+-- GENERATION SESSIONS
+-- ============================================
+
+-- One row per generation session (the sessionId used in variant branch names)
+CREATE TABLE IF NOT EXISTS generation_sessions (
+  id TEXT PRIMARY KEY,
+  source_url TEXT NOT NULL,
+  block_name TEXT,
+  selection TEXT,  -- JSON: { xpath, html }
+  options TEXT,  -- JSON: generation options (refinements, ...)
+  screenshot_key TEXT,  -- R2 key of the original screenshot
+  status TEXT DEFAULT 'active',  -- active, finalized
+  winner_option INTEGER,
+  winner_iteration INTEGER,
+  forked_from TEXT,  -- {sessionId}-{option}-{iteration} this session was forked from
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_source_url ON generation_sessions(source_url);
+CREATE INDEX IF NOT EXISTS idx_sessions_created ON generation_sessions(created_at);
+
+-- ============================================
+-- ITERATIONS
+-- ============================================
+
+-- Every BlockVariant produced in a session (generated, refined, rolled back or forked)
+CREATE TABLE IF NOT EXISTS session_iterations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL REFERENCES generation_sessions(id) ON DELETE CASCADE,
+  option INTEGER NOT NULL,
+  iteration INTEGER NOT NULL,
+  parent_iteration INTEGER,  -- iteration this one was derived from (same option)
+  block_name TEXT NOT NULL,
+  html TEXT NOT NULL,
+  css TEXT NOT NULL,
+  js TEXT NOT NULL,
+  refine_prompt TEXT,
+  source TEXT NOT NULL,  -- generate, refine, rollback, fork
+  branch TEXT,
+  da_path TEXT,
+  preview_url TEXT,
+  screenshot_key TEXT,  -- R2 key of the rendered block screenshot
+  similarity_score INTEGER,  -- visual similarity (0-100) of the rendered block to the original
+  created_at TEXT DEFAULT (datetime('now')),
+  UNIQUE(session_id, option, iteration)
+);
+
+CREATE INDEX IF NOT EXISTS idx_iterations_session ON session_iterations(session_id);
@@ -1,5 +1,6 @@
 import { Browser } from '@cloudflare/puppeteer';
 import { AnthropicConfig, NamedBlock } from './design-analyzer';
+import { callClaude, imageBlock, LLMError, textBlock } from './llm-provider';
 
 /**
  * Candidate element found in the DOM
@@ -353,97 +354,16 @@ async function askClaudeToSelectBlocks(
 ): Promise<number[]> {
   const prompt = buildSelectionPrompt(candidates);
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(prompt)], maxTokens: 1024 },
+    { label: 'annotated-detector' }
+  );
 
   // Parse the JSON array of indices
-  const match = textContent.text.match(/\[[\d,\s]*\]/);
+  const match = response.match(/\[[\d,\s]*\]/);
   if (!match) {
-    console.error('Could not parse selection response:', textContent.text);
+    console.error('Could not parse selection response:', response);
     return [];
   }
 
@@ -488,54 +408,15 @@ Priority: high (main content), medium (supporting), low (minor)
 
 Return ONLY the JSON array.`;
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 2048,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2048,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
+  let response: string;
+  try {
+    response = await callClaude(
+      config,
+      { content: prompt, maxTokens: 2048 },
+      { label: 'annotated-detector' }
+    );
+  } catch (error) {
+    if (!(error instanceof LLMError) || error.code !== 'LLM_EMPTY_RESPONSE') throw error;
     // Fallback to basic naming
     return candidates.map((c, i) => ({
       selector: c.selector,
@@ -547,11 +428,11 @@ Return ONLY the JSON array.`;
   }
 
   try {
-    const match = textContent.text.match(/\[[\s\S]*\]/);
+    const match = response.match(/\[[\s\S]*\]/);
     if (!match) throw new Error('No JSON array found');
     return JSON.parse(match[0]) as NamedBlock[];
   } catch {
-    console.error('Failed to parse naming response:', textContent.text);
+    console.error('Failed to parse naming response:', response);
     return candidates.map((c, i) => ({
       selector: c.selector,
       name: 'Content Block',
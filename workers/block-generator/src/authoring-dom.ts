@@ -0,0 +1,82 @@
+import { parseHTML } from 'linkedom';
+
+/**
+ * Nodes of EDS authoring HTML (DA pages, block tables) as parsed by linkedom
+ */
+export type DomNode = ReturnType<typeof parseHTML>['document']['body']['childNodes'][number];
+export type DomElement = NonNullable<ReturnType<typeof parseHTML>['document']['body']['firstElementChild']>;
+
+export function isElement(node: DomNode): node is DomElement {
+  return node.nodeType === 1;
+}
+
+export function tagOf(element: DomElement): string {
+  return element.tagName.toLowerCase();
+}
+
+export function childElements(element: DomElement): DomElement[] {
+  return Array.from(element.children) as DomElement[];
+}
+
+/**
+ * Whether an element holds anything but the given inline tags (so it is read as
+ * blocks of content rather than a single run of text)
+ */
+export function hasBlockChildren(element: DomElement, inlineTags: Set<string>): boolean {
+  return childElements(element).some(child => !inlineTags.has(tagOf(child)));
+}
+
+/**
+ * "columns dark wide" -> "Columns (dark, wide)", the way block names are written in documents
+ */
+export function blockTitle(className: string): string {
+  const [name, ...variants] = className.trim().split(/\s+/);
+  const title = name.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  return variants.length > 0 ? `${title} (${variants.join(', ')})` : title;
+}
+
+/**
+ * Whether an element is an EDS block: div format (`<div class="name">` of row divs)
+ * or the table format DA pastes (first row a single header cell with the name)
+ */
+export function isBlock(element: DomElement): boolean {
+  const tag = tagOf(element);
+  if (tag === 'table') return true;
+  return tag === 'div' && Boolean(element.getAttribute('class')) && childElements(element).every(row => tagOf(row) === 'div');
+}
+
+/**
+ * Block name and rows of cells, from div-format blocks or DA block tables,
+ * with each cell mapped through `cell`
+ */
+export function blockRows<T>(block: DomElement, cell: (element: DomElement) => T): { title: string; rows: T[][] } {
+  if (tagOf(block) === 'table') {
+    const [header, ...rows] = (Array.from(block.querySelectorAll('tr')) as DomElement[]).filter(row => row.closest('table') === block);
+    const title = header ? (header.textContent || '').replace(/\s+/g, ' ').trim() : '';
+    return {
+      // Table headings are already in document form ("Columns (dark)"); class-like names get title-cased
+      title: /^[a-z0-9-]+(\s+[a-z0-9-]+)*$/.test(title) ? blockTitle(title) : title,
+      rows: rows.map(row => childElements(row).filter(element => ['td', 'th'].includes(tagOf(element))).map(cell)),
+    };
+  }
+  return {
+    title: blockTitle(block.getAttribute('class') || ''),
+    rows: childElements(block).map(row => childElements(row).map(cell)),
+  };
+}
+
+/**
+ * Div-format blocks with the given name. Matched by class list rather than a
+ * `div.{name}` selector, which is invalid for names like "2-up".
+ */
+export function blocksNamed(root: { querySelectorAll(selector: string): ArrayLike<unknown> }, blockName: string): DomElement[] {
+  return (Array.from(root.querySelectorAll('div[class]')) as DomElement[])
+    .filter(element => element.classList.contains(blockName));
+}
+
+/**
+ * Parse a DA page or a fragment of one; only what is inside its <body> is kept
+ */
+export function parsePage(html: string): ReturnType<typeof parseHTML>['document'] {
+  return parseHTML(`<!DOCTYPE html><html><body>${html.replace(/^[\s\S]*?<body[^>]*>|<\/body>[\s\S]*$/gi, '')}</body></html>`).document;
+}
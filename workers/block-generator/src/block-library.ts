@@ -0,0 +1,331 @@
+import { AnthropicConfig } from './design-analyzer';
+import { callClaude, imageBlock, textBlock } from './llm-provider';
+import { GitHubConfig, ReusedBlockInfo } from './types';
+
+type GitHubFetch = (url: string, options?: RequestInit) => Promise<Response>;
+
+/** Blocks that are page chrome or plumbing, never a match for a content section */
+const NON_CONTENT_BLOCKS = new Set(['header', 'footer', 'fragment', 'metadata', 'section-metadata']);
+
+/** Upper bound on blocks scanned per repo (two blob fetches per uncached block) */
+const MAX_SCANNED_BLOCKS = 40;
+
+/**
+ * Authoring table shape a block's decorate() expects, inferred from its code
+ */
+export interface BlockTableShape {
+  /** One content row, or a list of repeating rows (cards, accordion items...) */
+  rows: 'single' | 'repeating';
+  /** Cells per row, or 'variable' when decorate iterates over the cells */
+  columns: number | 'variable';
+  images: boolean;
+  links: boolean;
+  /** Variant classes the block styles or checks (e.g. "horizontal" for `.cards.horizontal`) */
+  variants: string[];
+}
+
+/**
+ * A block that already exists in the target repository
+ */
+export interface RepoBlock {
+  name: string;
+  js: string;
+  css: string;
+  shape: BlockTableShape;
+  /** Leading comment of the JS, if the block documents itself */
+  description?: string;
+}
+
+/**
+ * An existing block that fits the selected section, with the DA authoring content for it
+ */
+export interface ExistingBlockMatch extends ReusedBlockInfo {
+  /** Block table (div format) filled with the section's content */
+  authoringHtml: string;
+}
+
+/**
+ * Branch a repo's blocks are read from and variant branches are created from
+ */
+export function baseBranchOf(github: Pick<GitHubConfig, 'branch'>): string {
+  return github.branch || 'main';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * How the model is asked to write a block table, shared by every prompt that returns authoring HTML
+ */
+export const BLOCK_TABLE_FORMAT = `<div class="{block-name}[ {variant}]">
+  <div><div>row 1 cell 1</div><div>row 1 cell 2</div></div>
+  <div><div>row 2 cell 1</div><div>row 2 cell 2</div></div>
+</div>
+Images are <picture><img src="{absolute url}" alt="..."></picture>, links are <a href="...">, and headings/paragraphs keep their semantic tags.`;
+
+/**
+ * The JSON object of a block-table response, or null when there is none or it does not parse
+ */
+export function parseBlockTableResponse<T extends { authoringHtml?: string | null }>(response: string): T | null {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether authoring HTML is a block table for the named block (class="{name}" or "{name} {variant}")
+ */
+export function isBlockTableFor(html: string, blockName: string): boolean {
+  return new RegExp(`class=["']${escapeRegExp(blockName)}(?:["'\\s])`).test(html);
+}
+
+/**
+ * Set the block table's variant class, dropping any other variant the model wrote
+ */
+export function withBlockVariant(html: string, blockName: string, variant: string | undefined): string {
+  return html.replace(
+    new RegExp(`class=(["'])${escapeRegExp(blockName)}(?:\\s[^"']*)?\\1`),
+    (_match, quote: string) => `class=${quote}${blockName}${variant ? ` ${variant}` : ''}${quote}`
+  );
+}
+
+/**
+ * Infer the authoring table shape from a block's JS and CSS
+ */
+export function inferTableShape(name: string, js: string, css: string): BlockTableShape {
+  const iteratesRows = /\[\.\.\.\s*block\.children\]|block\.children\)\.forEach|Array\.from\(\s*block\.children\s*\)|block\.querySelectorAll\(\s*['"]:scope\s*>\s*div['"]\s*\)/.test(js);
+  const iteratesCells = /\[\.\.\.\s*\w+\.children\]\.forEach|\[\.\.\.\s*\w+\.children\]\.map|firstElementChild\.children\.length|children\.length/.test(js);
+
+  let maxCellIndex = -1;
+  for (const match of js.matchAll(/children\[(\d+)\]|:nth-child\((\d+)\)/g)) {
+    const index = match[1] !== undefined ? Number(match[1]) : Number(match[2]) - 1;
+    if (index > maxCellIndex) maxCellIndex = index;
+  }
+
+  const variants = new Set<string>();
+  for (const match of css.matchAll(new RegExp(`\\.${escapeRegExp(name)}\\.([a-z][\\w-]*)`, 'g'))) {
+    variants.add(match[1]);
+  }
+  for (const match of js.matchAll(/classList\.contains\(\s*['"]([\w-]+)['"]\s*\)/g)) {
+    if (match[1] !== name) variants.add(match[1]);
+  }
+
+  return {
+    rows: iteratesRows ? 'repeating' : 'single',
+    columns: iteratesCells ? 'variable' : Math.max(1, maxCellIndex + 1),
+    images: /picture|<img|querySelector(All)?\(\s*['"][^'"]*img|createOptimizedPicture/.test(js) || /\bimg\b|picture/.test(css),
+    links: /querySelector(All)?\(\s*['"][^'"]*\ba\b|\.button|href/.test(js),
+    variants: [...variants].sort(),
+  };
+}
+
+function describeShape(shape: BlockTableShape): string {
+  const columns = shape.columns === 'variable' ? 'a variable number of' : String(shape.columns);
+  return [
+    `${shape.rows === 'repeating' ? 'repeating rows' : 'a single row'} of ${columns} cell(s)`,
+    shape.images ? 'uses images' : 'no images',
+    shape.links ? 'uses links' : null,
+    shape.variants.length > 0 ? `variants: ${shape.variants.join(', ')}` : null,
+  ].filter(Boolean).join('; ');
+}
+
+/**
+ * Raw file contents from a branch, or null when the file does not exist
+ */
+async function getRawFile(githubFetch: GitHubFetch, owner: string, repo: string, branch: string, path: string): Promise<string | null> {
+  const response = await githubFetch(
+    `https://api.github.com/repos/${owner}/${repo}/contents/${path}?ref=${encodeURIComponent(branch)}`,
+    { headers: { 'Accept': 'application/vnd.github.raw' } }
+  );
+  if (!response.ok) return null;
+  return response.text();
+}
+
+/**
+ * Blob contents by git SHA, shared by every request this isolate serves. A SHA always
+ * names the same content, so entries never go stale; parallel generations of the same
+ * repo (the extension requests several options at once) share in-flight fetches.
+ */
+const blobCache = new Map<string, Promise<string>>();
+const MAX_CACHED_BLOBS = 500;
+
+function getBlob(githubFetch: GitHubFetch, owner: string, repo: string, sha: string): Promise<string> {
+  const key = `${owner}/${repo}/${sha}`;
+  let blob = blobCache.get(key);
+  if (!blob) {
+    blob = githubFetch(
+      `https://api.github.com/repos/${owner}/${repo}/git/blobs/${sha}`,
+      { headers: { 'Accept': 'application/vnd.github.raw' } }
+    ).then(response => {
+      if (!response.ok) throw new Error(`Failed to read blob ${sha} in ${owner}/${repo}: ${response.status}`);
+      return response.text();
+    });
+    blob.catch(() => blobCache.delete(key));
+    if (blobCache.size >= MAX_CACHED_BLOBS) {
+      blobCache.delete(blobCache.keys().next().value as string);
+    }
+    blobCache.set(key, blob);
+  }
+  return blob;
+}
+
+/**
+ * A block's JS and CSS on a branch, or null when the block has no JS there
+ */
+export async function getRepoBlockFiles(
+  githubFetch: GitHubFetch,
+  owner: string,
+  repo: string,
+  name: string,
+  branch: string
+): Promise<{ js: string; css: string } | null> {
+  const [js, css] = await Promise.all([
+    getRawFile(githubFetch, owner, repo, branch, `blocks/${name}/${name}.js`),
+    getRawFile(githubFetch, owner, repo, branch, `blocks/${name}/${name}.css`),
+  ]);
+  return js === null ? null : { js, css: css || '' };
+}
+
+/**
+ * Scan the repo's blocks/ folder and infer each block's authoring table shape.
+ * Returns an empty list when the repo has no blocks/ folder.
+ *
+ * Lists the branch with one git tree call; file contents are fetched by blob SHA
+ * and cached, so repeat scans of an unchanged repo cost a single request.
+ */
+export async function listRepoBlocks(
+  githubFetch: GitHubFetch,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<RepoBlock[]> {
+  const response = await githubFetch(
+    `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`
+  );
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to list blocks in ${owner}/${repo}: ${response.status}`);
+  }
+
+  const tree = await response.json() as { tree: Array<{ path: string; type: string; sha: string }> };
+  const blobs = new Map(tree.tree.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry.sha]));
+  const names = tree.tree
+    .filter(entry => entry.type === 'tree' && /^blocks\/[^/]+$/.test(entry.path))
+    .map(entry => entry.path.substring('blocks/'.length))
+    .filter(name => !NON_CONTENT_BLOCKS.has(name) && blobs.has(`blocks/${name}/${name}.js`))
+    .slice(0, MAX_SCANNED_BLOCKS);
+
+  return Promise.all(names.map(async (name): Promise<RepoBlock> => {
+    const cssSha = blobs.get(`blocks/${name}/${name}.css`);
+    const [js, css] = await Promise.all([
+      getBlob(githubFetch, owner, repo, blobs.get(`blocks/${name}/${name}.js`)!),
+      cssSha ? getBlob(githubFetch, owner, repo, cssSha) : Promise.resolve(''),
+    ]);
+
+    const leadingComment = js.match(/^\s*\/\*\*?([\s\S]*?)\*\//);
+    return {
+      name,
+      js,
+      css,
+      shape: inferTableShape(name, js, css),
+      description: leadingComment ? leadingComment[1].replace(/^\s*\*\s?/gm, '').trim().substring(0, 300) : undefined,
+    };
+  }));
+}
+
+/**
+ * Ask Claude whether the selected section fits one of the repo's existing blocks and,
+ * if so, to write the DA authoring content for it. Returns null when nothing fits
+ * with at least `minConfidence`.
+ */
+export async function matchExistingBlock(params: {
+  screenshotBase64: string;
+  screenshotMediaType: 'image/png' | 'image/jpeg';
+  html: string;
+  url: string;
+  blocks: RepoBlock[];
+  imageUrls: string[];
+  config: AnthropicConfig;
+  minConfidence?: number;
+}): Promise<ExistingBlockMatch | null> {
+  const { blocks, minConfidence = 70 } = params;
+  if (blocks.length === 0) return null;
+
+  const inventory = blocks.map(block => `### ${block.name}
+Table shape: ${describeShape(block.shape)}${block.description ? `\nDescription: ${block.description}` : ''}
+decorate() excerpt:
+\`\`\`javascript
+${block.js.substring(0, 1200)}
+\`\`\``).join('\n\n');
+
+  const prompt = `You are an AEM Edge Delivery Services expert. The screenshot shows a section selected on ${params.url}.
+Before creating a new block, decide whether one of the site's EXISTING blocks can render this section.
+
+## Existing blocks
+${inventory}
+
+## Section HTML
+\`\`\`html
+${params.html.substring(0, 8000)}
+\`\`\`
+${params.imageUrls.length > 0 ? `\n## Image URLs in the section\n${params.imageUrls.slice(0, 30).join('\n')}\n` : ''}
+## Rules
+- Only pick a block whose table shape and purpose fit the section's content (e.g. a grid of image+text items fits "cards"; side-by-side content fits "columns"; a large banner with heading and CTA fits "hero")
+- Pick a variant only if it is listed for that block
+- Small styling differences are fine; a different structure (e.g. tabs vs. cards) is not a fit
+- If nothing fits, return "match": null
+
+If a block fits, write its DA authoring content as a block table in div format, using the section's real text, links and image URLs:
+${BLOCK_TABLE_FORMAT}
+
+Return ONLY a JSON object:
+{
+  "match": "<block name>" | null,
+  "variant": "<variant>" | null,
+  "confidence": <0-100>,
+  "reason": "<why it fits or why nothing fits>",
+  "authoringHtml": "<block table>" | null
+}`;
+
+  const response = await callClaude(
+    params.config,
+    { content: [imageBlock(params.screenshotBase64, params.screenshotMediaType), textBlock(prompt)] },
+    { label: 'block-library' }
+  );
+  const result = parseBlockTableResponse<{
+    match: string | null;
+    variant?: string | null;
+    confidence?: number;
+    reason?: string;
+    authoringHtml?: string | null;
+  }>(response);
+  if (!result) {
+    console.warn('Could not parse existing block match response');
+    return null;
+  }
+
+  const block = blocks.find(b => b.name === result.match);
+  if (!block || !result.authoringHtml || (result.confidence ?? 0) < minConfidence) {
+    console.log(`No existing block fits (${result.match || 'none'}, confidence ${result.confidence ?? 'n/a'}): ${result.reason || ''}`);
+    return null;
+  }
+
+  if (!isBlockTableFor(result.authoringHtml, block.name)) {
+    console.warn(`Authoring content for ${block.name} is not a ${block.name} block table, ignoring match`);
+    return null;
+  }
+
+  const variant = result.variant && block.shape.variants.includes(result.variant) ? result.variant : undefined;
+  return {
+    blockName: block.name,
+    variant,
+    confidence: result.confidence ?? minConfidence,
+    reason: result.reason || '',
+    authoringHtml: result.authoringHtml.trim(),
+  };
+}
@@ -1,5 +1,9 @@
 import { Browser } from '@cloudflare/puppeteer';
 import { AnthropicConfig } from './design-analyzer';
+import { createStandaloneSiteSource, EdsSiteSource, renderEdsPreview, withBlockFiles } from './eds-simulator';
+import { callClaude, ClaudeContentBlock, imageBlock, textBlock } from './llm-provider';
+import { SimilarityScore, tryComputeVisualSimilarity } from './visual-similarity';
+import { RenderDiagnostics, RuntimeReport } from './types';
 
 /**
  * Block code structure
@@ -19,6 +23,16 @@ export interface RefinementResult {
   refinementApplied: boolean;
   refinementNotes?: string;
   generatedScreenshot?: string; // Base64 of the rendered block screenshot
+  similarity?: SimilarityScore; // Visual similarity of the refined render to the original
+  runtime?: RuntimeReport; // Runtime errors of the refined block and any automatic fix
+}
+
+/**
+ * Running total of Claude tokens spent, for budgeted refinement
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
 /**
@@ -76,6 +90,18 @@ async function compressImageForClaude(
   }
 }
 
+/**
+ * Whether the block's JS failed at runtime. Failed resource loads alone don't count:
+ * they are usually hotlink-protected images rather than broken code.
+ */
+export function hasRuntimeErrors(diagnostics: RenderDiagnostics): boolean {
+  return runtimeErrorCount(diagnostics) > 0;
+}
+
+function runtimeErrorCount(diagnostics: RenderDiagnostics): number {
+  return diagnostics.pageErrors.length + diagnostics.consoleErrors.length;
+}
+
 /**
  * Render a block (HTML/CSS/JS) in Puppeteer and capture a screenshot
  */
@@ -84,70 +110,29 @@ export async function renderBlockToScreenshot(
   block: BlockCode,
   viewport: { width: number; height: number } = { width: 1440, height: 900 }
 ): Promise<string> {
-  const page = await browser.newPage();
-
-  try {
-    await page.setViewport(viewport);
-
-    // Create an HTML page that renders the block
-    const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
-    ${block.css}
-  </style>
-</head>
-<body>
-  ${block.html}
-  <script type="module">
-    ${block.js}
-    // Auto-run decorate if it exists
-    if (typeof decorate === 'function') {
-      const block = document.querySelector('[class]');
-      if (block) decorate(block);
-    }
-  </script>
-</body>
-</html>`;
-
-    await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
-
-    // Wait for all images to load
-    await page.evaluate(async () => {
-      const images = Array.from(document.querySelectorAll('img'));
-      await Promise.all(images.map(img => {
-        if (img.complete) return Promise.resolve();
-        return new Promise((resolve) => {
-          img.onload = resolve;
-          img.onerror = resolve; // Don't fail on broken images
-          // Timeout after 5 seconds
-          setTimeout(resolve, 5000);
-        });
-      }));
-    });
-
-    // Wait a bit for any animations/transitions to settle
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Take screenshot
-    const screenshot = await page.screenshot({
-      type: 'png',
-      fullPage: false,
-      clip: { x: 0, y: 0, width: viewport.width, height: viewport.height }
-    });
-
-    // Convert to base64
-    const base64 = Buffer.from(screenshot).toString('base64');
-    return base64;
+  const { screenshot } = await renderBlockWithDiagnostics(browser, block, viewport);
+  return screenshot;
+}
 
-  } finally {
-    await page.close();
-  }
+/**
+ * Render a block through the EDS simulator and capture a screenshot, recording page errors,
+ * console errors and failed resource loads along the way. Without a site source the block
+ * is rendered on the standalone EDS runtime.
+ */
+export async function renderBlockWithDiagnostics(
+  browser: Browser,
+  block: BlockCode,
+  viewport: { width: number; height: number } = { width: 1440, height: 900 },
+  source: EdsSiteSource = createStandaloneSiteSource()
+): Promise<{ screenshot: string; diagnostics: RenderDiagnostics }> {
+  const blockName = block.blockName || block.html.match(/class=["']([\w-]+)/)?.[1] || 'block';
+  const preview = await renderEdsPreview(
+    browser,
+    withBlockFiles(source, { blockName, css: block.css, js: block.js }),
+    block.html,
+    { viewport, fullPage: false }
+  );
+  return { screenshot: preview.screenshot, diagnostics: preview.diagnostics };
 }
 
 /**
@@ -226,17 +211,9 @@ function restoreOriginalUrls(refinedHtml: string, originalHtml: string): string
 }
 
 /**
- * Analyze visual differences and suggest refinements using Claude Vision
+ * Refinement rules and current code shared by single- and multi-breakpoint refinement
  */
-export async function analyzeAndRefine(
-  originalScreenshotBase64: string,
-  generatedScreenshotBase64: string,
-  currentBlock: BlockCode,
-  config: AnthropicConfig,
-  userPrompt?: string,
-  originalMediaType: 'image/png' | 'image/jpeg' = 'image/png',
-  generatedMediaType: 'image/png' | 'image/jpeg' = 'image/png'
-): Promise<BlockCode> {
+function buildRefinementInstructions(currentBlock: BlockCode, userPrompt?: string): string {
   let focusInstructions = `Focus on:
 - Colors (backgrounds, text, borders)
 - Spacing (padding, margins, gaps)
@@ -256,13 +233,7 @@ Also consider:
 - Dimensions (widths, heights)`;
   }
 
-  const prompt = `You are an expert CSS developer. I'm showing you two images:
-1. The ORIGINAL design (target) - this is what we want to match
-2. The GENERATED block (current attempt) - this is what we've created so far
-
-Compare these two images visually and identify the differences.
-
-The current block code is:
+  return `The current block code is:
 
 HTML:
 \`\`\`html
@@ -320,16 +291,12 @@ Return ONLY a JSON object with the refined code:
 }
 
 Make targeted changes to fix the visual differences you observe. DO NOT CHANGE ANY URLs.`;
+}
 
-  const response = await callClaudeWithImages(
-    [originalScreenshotBase64, generatedScreenshotBase64],
-    ['Original design (target)', 'Generated block (current)'],
-    [originalMediaType, generatedMediaType],
-    prompt,
-    config
-  );
-
-  // Parse response
+/**
+ * Parse Claude's refined code, restoring any URLs it changed
+ */
+function parseRefinementResponse(response: string, currentBlock: BlockCode): BlockCode {
   const jsonMatch = response.match(/\{[\s\S]*\}/);
   if (!jsonMatch) {
     throw new Error('Failed to parse refinement response from Claude');
@@ -354,91 +321,198 @@ Make targeted changes to fix the visual differences you observe. DO NOT CHANGE A
 }
 
 /**
- * Helper to call Claude API with multiple images
+ * Analyze visual differences and suggest refinements using Claude Vision
  */
-async function callClaudeWithImages(
-  imagesBase64: string[],
-  imageLabels: string[],
-  imageMediaTypes: Array<'image/png' | 'image/jpeg'>,
-  prompt: string,
+export async function analyzeAndRefine(
+  originalScreenshotBase64: string,
+  generatedScreenshotBase64: string,
+  currentBlock: BlockCode,
   config: AnthropicConfig,
-  maxTokens: number = 8192
-): Promise<string> {
-  // Build content array with all images
-  const content: Array<{ type: string; source?: any; text?: string }> = [];
+  userPrompt?: string,
+  originalMediaType: 'image/png' | 'image/jpeg' = 'image/png',
+  generatedMediaType: 'image/png' | 'image/jpeg' = 'image/png',
+  usage?: TokenUsage
+): Promise<BlockCode> {
+  const prompt = `You are an expert CSS developer. I'm showing you two images:
+1. The ORIGINAL design (target) - this is what we want to match
+2. The GENERATED block (current attempt) - this is what we've created so far
 
-  for (let i = 0; i < imagesBase64.length; i++) {
-    content.push({
-      type: 'text',
-      text: `Image ${i + 1}: ${imageLabels[i]}`
-    });
-    content.push({
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: imageMediaTypes[i] || 'image/png',
-        data: imagesBase64[i]
-      }
-    });
+Compare these two images visually and identify the differences.
+
+${buildRefinementInstructions(currentBlock, userPrompt)}`;
+
+  const response = await callClaude(
+    config,
+    {
+      content: labeledImageContent(
+        [originalScreenshotBase64, generatedScreenshotBase64],
+        ['Original design (target)', 'Generated block (current)'],
+        [originalMediaType, generatedMediaType],
+        prompt
+      ),
+    },
+    { label: 'block-refiner', usage }
+  );
+
+  return parseRefinementResponse(response, currentBlock);
+}
+
+/**
+ * Result of rendering a block and, if its JS failed, asking Claude to fix it
+ */
+export interface RuntimeHealResult {
+  /** The fixed block when a fix removed the runtime errors, otherwise the input block */
+  block: BlockCode;
+  screenshot: string;
+  /** Diagnostics of the returned block */
+  diagnostics: RenderDiagnostics;
+  /** Diagnostics of the input block, when a fix was attempted */
+  initialDiagnostics?: RenderDiagnostics;
+  healed: boolean;
+  attempts: number;
+}
+
+function formatDiagnostics(diagnostics: RenderDiagnostics): string {
+  const sections: string[] = [];
+  if (diagnostics.pageErrors.length > 0) {
+    sections.push(`Uncaught exceptions:\n${diagnostics.pageErrors.map(e => `- ${e}`).join('\n')}`);
+  }
+  if (diagnostics.consoleErrors.length > 0) {
+    sections.push(`Console errors:\n${diagnostics.consoleErrors.map(e => `- ${e}`).join('\n')}`);
   }
+  if (diagnostics.failedRequests.length > 0) {
+    sections.push(`Failed resource loads:\n${diagnostics.failedRequests.map(r => `- ${r.url} (${r.reason})`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
 
-  content.push({
-    type: 'text',
-    text: prompt
-  });
+/**
+ * Ask Claude to fix the JS/HTML of a block that threw errors while rendering
+ */
+async function fixRuntimeErrors(
+  block: BlockCode,
+  diagnostics: RenderDiagnostics,
+  config: AnthropicConfig,
+  usage?: TokenUsage
+): Promise<BlockCode> {
+  const prompt = `You are an expert AEM Edge Delivery Services developer. This block was rendered in a browser by
+running its decorate(block) function on the block HTML, and it failed at runtime:
+
+${formatDiagnostics(diagnostics)}
+
+HTML:
+\`\`\`html
+${block.html}
+\`\`\`
+
+CSS:
+\`\`\`css
+${block.css}
+\`\`\`
+
+JavaScript:
+\`\`\`javascript
+${block.js}
+\`\`\`
+
+Fix the code so decorate runs without errors. Rules:
+- Keep export default function decorate(block) and keep the visual result the same
+- Guard against missing elements (querySelector returning null, fewer rows/cells than expected)
+- Do not change any src="..." or href="..." URLs
+- The block is rendered standalone: do not rely on other blocks, globals or modules other than ../../scripts/aem.js
+
+Return ONLY a JSON object:
+{
+  "html": "HTML (unchanged unless the fix needs it)",
+  "css": "CSS (unchanged unless the fix needs it)",
+  "js": "fixed JavaScript",
+  "notes": "what caused the error and how it was fixed"
+}`;
+
+  const response = await callClaude(config, { content: prompt }, { label: 'block-refiner', usage });
+  return parseRefinementResponse(response, block);
+}
+
+/**
+ * Render a block and, when its JS throws or logs errors, feed the errors back to Claude
+ * for a fix. A fix is kept only if it leaves fewer runtime errors than the block had.
+ */
+export async function renderAndHealBlock(
+  browser: Browser,
+  block: BlockCode,
+  config: AnthropicConfig,
+  viewport: { width: number; height: number } = { width: 1440, height: 900 },
+  options: { maxAttempts?: number; usage?: TokenUsage } = {}
+): Promise<RuntimeHealResult> {
+  const maxAttempts = options.maxAttempts ?? 1;
+  const initial = await renderBlockWithDiagnostics(browser, block, viewport);
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
+  if (!hasRuntimeErrors(initial.diagnostics)) {
+    return { block, screenshot: initial.screenshot, diagnostics: initial.diagnostics, healed: false, attempts: 0 };
   }
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
+  console.log(`  Block has runtime errors: ${[...initial.diagnostics.pageErrors, ...initial.diagnostics.consoleErrors].join(' | ').substring(0, 300)}`);
+
+  let best = { block, ...initial };
+  let attempts = 0;
+  while (attempts < maxAttempts && hasRuntimeErrors(best.diagnostics)) {
+    attempts++;
+    console.log(`  Runtime fix attempt ${attempts}/${maxAttempts}...`);
+    try {
+      const fixedBlock = await fixRuntimeErrors(best.block, best.diagnostics, config, options.usage);
+      const rendered = await renderBlockWithDiagnostics(browser, fixedBlock, viewport);
+      if (runtimeErrorCount(rendered.diagnostics) < runtimeErrorCount(best.diagnostics)) {
+        best = { block: fixedBlock, ...rendered };
+      }
+    } catch (fixError) {
+      console.warn('  Runtime fix failed:', fixError);
+      break;
+    }
   }
 
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
+  const healed = best.block !== block;
+  console.log(healed
+    ? `  Runtime errors ${hasRuntimeErrors(best.diagnostics) ? 'reduced' : 'fixed'} after ${attempts} attempt(s)`
+    : '  Runtime errors not fixed');
+
+  return {
+    block: best.block,
+    screenshot: best.screenshot,
+    diagnostics: best.diagnostics,
+    initialDiagnostics: initial.diagnostics,
+    healed,
+    attempts,
   };
+}
 
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+/**
+ * Runtime report of a heal result, for API responses
+ */
+export function toRuntimeReport(result: RuntimeHealResult): RuntimeReport {
+  return {
+    diagnostics: result.diagnostics,
+    initialDiagnostics: result.initialDiagnostics,
+    healed: result.healed,
+    attempts: result.attempts,
+  };
+}
 
-  return textContent.text;
+/**
+ * Content blocks for labeled images followed by the prompt
+ */
+function labeledImageContent(
+  imagesBase64: string[],
+  imageLabels: string[],
+  imageMediaTypes: Array<'image/png' | 'image/jpeg'>,
+  prompt: string
+): ClaudeContentBlock[] {
+  const content: ClaudeContentBlock[] = [];
+  for (let i = 0; i < imagesBase64.length; i++) {
+    content.push(textBlock(`Image ${i + 1}: ${imageLabels[i]}`));
+    content.push(imageBlock(imagesBase64[i], imageMediaTypes[i] || 'image/png'));
+  }
+  content.push(textBlock(prompt));
+  return content;
 }
 
 /**
@@ -477,14 +551,307 @@ export async function refineBlock(
     compressedGenerated.mediaType
   );
 
-  // Step 4: Re-render refined block for preview
+  // Step 4: Re-render refined block for preview, fixing runtime errors if its JS fails
   console.log('Re-rendering refined block...');
-  const refinedScreenshot = await renderBlockToScreenshot(browser, refinedBlock, viewport);
+  const rendered = await renderAndHealBlock(browser, refinedBlock, config, viewport);
+  const similarity = await tryComputeVisualSimilarity(browser, originalScreenshotBase64, rendered.screenshot);
+  if (similarity) {
+    console.log(`  Visual similarity: ${similarity.score} (SSIM ${similarity.ssim}, pixel match ${similarity.pixelMatch})`);
+  }
 
   return {
-    block: refinedBlock,
+    block: rendered.block,
     refinementApplied: true,
     refinementNotes: 'Refined using Claude Vision analysis',
-    generatedScreenshot: refinedScreenshot
+    generatedScreenshot: rendered.screenshot,
+    similarity,
+    runtime: toRuntimeReport(rendered)
+  };
+}
+
+/**
+ * Original element screenshot at one breakpoint
+ */
+export interface BreakpointTarget {
+  name: string;
+  width: number;
+  height: number;
+  screenshot: string; // base64
+}
+
+/**
+ * Rendered block at one breakpoint, compared with the original
+ */
+export interface BreakpointComparison {
+  name: string;
+  width: number;
+  generatedScreenshot: string;
+  similarity?: SimilarityScore;
+}
+
+export interface ResponsiveRefinementResult extends RefinementResult {
+  breakpoints: BreakpointComparison[];
+}
+
+/**
+ * Render a block at every breakpoint and score each render against its original
+ */
+export async function compareBreakpoints(
+  browser: Browser,
+  targets: BreakpointTarget[],
+  block: BlockCode
+): Promise<BreakpointComparison[]> {
+  const comparisons: BreakpointComparison[] = [];
+  for (const target of targets) {
+    const generatedScreenshot = await renderBlockToScreenshot(browser, block, { width: target.width, height: target.height });
+    const similarity = await tryComputeVisualSimilarity(browser, target.screenshot, generatedScreenshot);
+    comparisons.push({ name: target.name, width: target.width, generatedScreenshot, similarity });
+  }
+  return comparisons;
+}
+
+/**
+ * Refinement pipeline comparing each breakpoint separately:
+ * renders the block at every breakpoint width, sends Claude one original/generated
+ * pair per breakpoint and asks for a single mobile-first fix covering all of them.
+ */
+export async function refineBlockResponsive(
+  browser: Browser,
+  targets: BreakpointTarget[],
+  currentBlock: BlockCode,
+  config: AnthropicConfig,
+  userPrompt?: string
+): Promise<ResponsiveRefinementResult> {
+  console.log(`Rendering generated block at ${targets.length} breakpoints...`);
+  const before = await compareBreakpoints(browser, targets, currentBlock);
+
+  const images: string[] = [];
+  const labels: string[] = [];
+  const mediaTypes: Array<'image/png' | 'image/jpeg'> = [];
+  for (let i = 0; i < targets.length; i++) {
+    const original = await compressImageForClaude(browser, targets[i].screenshot);
+    const generated = await compressImageForClaude(browser, before[i].generatedScreenshot);
+    const label = `${targets[i].name.toUpperCase()} (${targets[i].width}px)`;
+    images.push(original.data, generated.data);
+    labels.push(`${label} - ORIGINAL design (target)`, `${label} - GENERATED block (current)`);
+    mediaTypes.push(original.mediaType, generated.mediaType);
+  }
+
+  const scores = before
+    .map(b => `- ${b.name} (${b.width}px): similarity ${b.similarity ? b.similarity.score : 'n/a'}/100`)
+    .join('\n');
+
+  const prompt = `You are an expert CSS developer. I'm showing you the same component at ${targets.length} viewport widths.
+For each width there is a pair of images: the ORIGINAL design (target) followed by the GENERATED block (current attempt).
+
+Compare each pair SEPARATELY and identify the differences at that width. Current visual similarity per breakpoint:
+${scores}
+
+Fix all breakpoints with ONE mobile-first stylesheet:
+- Base styles (no media query) must match the narrowest breakpoint
+- Use EDS breakpoints only: @media (width >= 600px) and @media (width >= 900px)
+- Fix the breakpoint with the lowest similarity first, without regressing the others
+
+${buildRefinementInstructions(currentBlock, userPrompt)}`;
+
+  const response = await callClaude(
+    config,
+    { content: labeledImageContent(images, labels, mediaTypes, prompt) },
+    { label: 'block-refiner' }
+  );
+
+  // Fix runtime errors at the widest breakpoint before comparing every breakpoint
+  const widestTarget = targets.reduce((a, b) => (b.width > a.width ? b : a), targets[0]);
+  const rendered = await renderAndHealBlock(
+    browser,
+    parseRefinementResponse(response, currentBlock),
+    config,
+    { width: widestTarget.width, height: widestTarget.height }
+  );
+  const refinedBlock = rendered.block;
+
+  console.log('Re-rendering refined block at each breakpoint...');
+  const breakpoints = await compareBreakpoints(browser, targets, refinedBlock);
+  for (const b of breakpoints) {
+    console.log(`  ${b.name} (${b.width}px): similarity ${b.similarity?.score ?? 'n/a'}`);
+  }
+
+  // Headline screenshot/similarity come from the widest breakpoint, like single-viewport refinement
+  const widest = breakpoints.reduce((a, b) => (b.width > a.width ? b : a), breakpoints[0]);
+
+  return {
+    block: refinedBlock,
+    refinementApplied: true,
+    refinementNotes: `Refined across ${breakpoints.length} breakpoints using Claude Vision analysis`,
+    generatedScreenshot: widest?.generatedScreenshot,
+    similarity: widest?.similarity,
+    runtime: toRuntimeReport(rendered),
+    breakpoints,
+  };
+}
+
+/**
+ * Stopping rules for automatic refinement
+ */
+export interface AutoRefineOptions {
+  /** Stop once the visual similarity score (0-100) reaches this value (default 90) */
+  targetScore?: number;
+  /** Maximum number of refinement passes (default 5) */
+  maxIterations?: number;
+  /**
+   * Claude token budget (input + output). A pass is not started when the previous pass's
+   * spend would take the total past it, but a pass costlier than the one before it can
+   * still overshoot the budget by the difference.
+   */
+  maxTokens?: number;
+  /** Minimum score gain for a pass to count as an improvement (default 1) */
+  minImprovement?: number;
+  /** Stop after this many passes in a row without improvement (default 2) */
+  patience?: number;
+  userPrompt?: string;
+  viewport?: { width: number; height: number };
+}
+
+export type AutoRefineStopReason = 'threshold' | 'stalled' | 'max-iterations' | 'token-budget';
+
+/**
+ * One pass of the auto-refine loop (iteration 0 is the starting block)
+ */
+export interface AutoRefineIteration {
+  iteration: number;
+  /** Similarity score, null when scoring failed */
+  score: number | null;
+  similarity?: SimilarityScore;
+  /** Tokens spent on this pass */
+  tokens: number;
+  improved: boolean;
+}
+
+export interface AutoRefineResult {
+  /** Best iteration (see isBetterPass), which is not necessarily the last one */
+  best: {
+    iteration: number;
+    block: BlockCode;
+    similarity?: SimilarityScore;
+    screenshot: string;
+    runtime?: RuntimeReport;
+  };
+  iterations: AutoRefineIteration[];
+  stopReason: AutoRefineStopReason;
+  usage: TokenUsage;
+}
+
+/**
+ * Whether a pass beats the best so far: by similarity score when both were scored,
+ * otherwise by runtime errors. When neither tells them apart the scored pass wins,
+ * or the later one if neither was scored, since each pass targets the visual gap.
+ */
+function isBetterPass(
+  pass: { score: number | null; errors: number },
+  best: { score: number | null; errors: number },
+  minImprovement: number
+): boolean {
+  if (pass.score !== null && best.score !== null) return pass.score >= best.score + minImprovement;
+  if (pass.errors !== best.errors) return pass.errors < best.errors;
+  return pass.score !== null || best.score === null;
+}
+
+/**
+ * Refine repeatedly until the block looks close enough to the original,
+ * improvement stalls, or the iteration/token budget runs out.
+ *
+ * Each pass refines the best block so far, so a pass that makes things worse
+ * is discarded instead of being built upon. A pass whose similarity could not be
+ * scored does not count towards stalling: the loop keeps going within its budget.
+ */
+export async function autoRefineBlock(
+  browser: Browser,
+  originalScreenshotBase64: string,
+  initialBlock: BlockCode,
+  config: AnthropicConfig,
+  options: AutoRefineOptions = {}
+): Promise<AutoRefineResult> {
+  const targetScore = options.targetScore ?? 90;
+  const maxIterations = options.maxIterations ?? 5;
+  const minImprovement = options.minImprovement ?? 1;
+  const patience = options.patience ?? 2;
+  const viewport = options.viewport || { width: 1440, height: 900 };
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const spent = () => usage.inputTokens + usage.outputTokens;
+
+  const compressedOriginal = await compressImageForClaude(browser, originalScreenshotBase64);
+
+  const initial = await renderAndHealBlock(browser, initialBlock, config, viewport, { usage });
+  const initialSimilarity = await tryComputeVisualSimilarity(browser, originalScreenshotBase64, initial.screenshot);
+
+  let best: AutoRefineResult['best'] = {
+    iteration: 0,
+    block: initial.block,
+    similarity: initialSimilarity,
+    screenshot: initial.screenshot,
+    runtime: toRuntimeReport(initial),
   };
+  let bestSignal = { score: initialSimilarity?.score ?? null, errors: runtimeErrorCount(initial.diagnostics) };
+  const iterations: AutoRefineIteration[] = [{
+    iteration: 0,
+    score: initialSimilarity?.score ?? null,
+    similarity: initialSimilarity,
+    tokens: 0,
+    improved: false,
+  }];
+
+  let stopReason: AutoRefineStopReason = 'max-iterations';
+  let passesWithoutImprovement = 0;
+
+  for (let i = 1; i <= maxIterations; i++) {
+    if (bestSignal.score !== null && bestSignal.score >= targetScore) {
+      stopReason = 'threshold';
+      break;
+    }
+    const projected = spent() + iterations[iterations.length - 1].tokens;
+    if (options.maxTokens && (spent() >= options.maxTokens || projected > options.maxTokens)) {
+      stopReason = 'token-budget';
+      break;
+    }
+
+    console.log(`Auto-refine pass ${i}/${maxIterations} (best score ${bestSignal.score ?? 'n/a'}, ${spent()} tokens spent)...`);
+    const tokensBefore = spent();
+    const compressedGenerated = await compressImageForClaude(browser, best.screenshot);
+
+    const refinedBlock = await analyzeAndRefine(
+      compressedOriginal.data,
+      compressedGenerated.data,
+      best.block,
+      config,
+      options.userPrompt,
+      compressedOriginal.mediaType,
+      compressedGenerated.mediaType,
+      usage
+    );
+
+    const rendered = await renderAndHealBlock(browser, refinedBlock, config, viewport, { usage });
+    const similarity = await tryComputeVisualSimilarity(browser, originalScreenshotBase64, rendered.screenshot);
+    const signal = { score: similarity?.score ?? null, errors: runtimeErrorCount(rendered.diagnostics) };
+    const improved = isBetterPass(signal, bestSignal, minImprovement);
+
+    iterations.push({ iteration: i, score: signal.score, similarity, tokens: spent() - tokensBefore, improved });
+    console.log(`  Pass ${i}: score ${signal.score ?? 'n/a'}${improved ? ' (improved)' : ''}`);
+
+    if (improved) {
+      best = { iteration: i, block: rendered.block, similarity, screenshot: rendered.screenshot, runtime: toRuntimeReport(rendered) };
+      bestSignal = signal;
+      passesWithoutImprovement = 0;
+    } else if (signal.score !== null && ++passesWithoutImprovement >= patience) {
+      stopReason = 'stalled';
+      break;
+    }
+  }
+
+  if (stopReason === 'max-iterations' && (best.similarity?.score ?? 0) >= targetScore) {
+    stopReason = 'threshold';
+  }
+
+  console.log(`Auto-refine stopped (${stopReason}): best iteration ${best.iteration}, score ${best.similarity?.score ?? 'n/a'}`);
+
+  return { best, iterations, stopReason, usage };
 }
@@ -0,0 +1,249 @@
+import { parse, Node, Program } from 'acorn';
+import { simple } from 'acorn-walk';
+import { AnthropicConfig } from './design-analyzer';
+import { callClaude } from './llm-provider';
+
+/**
+ * The only module generated blocks may import from
+ */
+export const ALLOWED_BLOCK_IMPORT = '../../scripts/aem.js';
+
+export type JsViolationRule =
+  | 'syntax-error'
+  | 'missing-decorate'
+  | 'decorate-signature'
+  | 'forbidden-eval'
+  | 'forbidden-document-write'
+  | 'forbidden-import';
+
+/**
+ * A broken EDS block rule, with the source line when known
+ */
+export interface JsViolation {
+  rule: JsViolationRule;
+  message: string;
+  line?: number;
+}
+
+export interface JsValidationResult {
+  valid: boolean;
+  violations: JsViolation[];
+}
+
+/**
+ * Outcome of validation plus LLM repair
+ */
+export interface JsValidationReport {
+  /** JS to push: the repaired code when a repair fixed the violations, otherwise the input */
+  js: string;
+  valid: boolean;
+  /** Whether the JS was rewritten by the repair step */
+  repaired: boolean;
+  repairAttempts: number;
+  /** Violations found in the generated JS before any repair */
+  initialViolations: JsViolation[];
+  /** Violations left after the last repair attempt (empty when valid) */
+  violations: JsViolation[];
+}
+
+function lineOf(node: Node): number | undefined {
+  return node.loc?.start.line;
+}
+
+/**
+ * Check the default export is `[async] function decorate(block)`
+ */
+function checkDecorateExport(program: Program, violations: JsViolation[]): void {
+  const defaultExport = program.body.find(node => node.type === 'ExportDefaultDeclaration');
+  if (!defaultExport || defaultExport.type !== 'ExportDefaultDeclaration') {
+    violations.push({
+      rule: 'missing-decorate',
+      message: 'Block must have a default export: export default function decorate(block) { ... }',
+    });
+    return;
+  }
+
+  const declaration = defaultExport.declaration;
+  if (declaration.type !== 'FunctionDeclaration') {
+    violations.push({
+      rule: 'missing-decorate',
+      message: `Default export must be a function declaration named decorate, found ${declaration.type}`,
+      line: lineOf(defaultExport),
+    });
+    return;
+  }
+
+  if (declaration.id?.name !== 'decorate') {
+    violations.push({
+      rule: 'decorate-signature',
+      message: `Default export must be named decorate, found ${declaration.id?.name || 'an anonymous function'}`,
+      line: lineOf(declaration),
+    });
+  }
+
+  if (declaration.params.length !== 1 || declaration.params[0].type !== 'Identifier') {
+    violations.push({
+      rule: 'decorate-signature',
+      message: `decorate must take exactly one parameter (block), found ${declaration.params.length}`,
+      line: lineOf(declaration),
+    });
+  }
+}
+
+/**
+ * Statically check generated block JS against the EDS block rules:
+ * - parses as an ES module
+ * - default export is `function decorate(block)`
+ * - no eval / new Function / document.write
+ * - imports only from ../../scripts/aem.js (no dynamic imports or re-exports)
+ */
+export function validateBlockJs(js: string): JsValidationResult {
+  let program: Program;
+  try {
+    program = parse(js, { ecmaVersion: 'latest', sourceType: 'module', locations: true });
+  } catch (error) {
+    const loc = (error as { loc?: { line: number } }).loc;
+    return {
+      valid: false,
+      violations: [{
+        rule: 'syntax-error',
+        message: `JavaScript does not parse: ${error instanceof Error ? error.message : String(error)}`,
+        line: loc?.line,
+      }],
+    };
+  }
+
+  const violations: JsViolation[] = [];
+  checkDecorateExport(program, violations);
+
+  const checkSource = (node: Node, source: string | null | undefined | boolean | number | bigint | RegExp) => {
+    if (source !== ALLOWED_BLOCK_IMPORT) {
+      violations.push({
+        rule: 'forbidden-import',
+        message: `Import from "${String(source)}" is not allowed; blocks may only import from ${ALLOWED_BLOCK_IMPORT}`,
+        line: lineOf(node),
+      });
+    }
+  };
+
+  simple(program, {
+    ImportDeclaration(node) {
+      checkSource(node, node.source.value);
+    },
+    ExportNamedDeclaration(node) {
+      if (node.source) checkSource(node, node.source.value);
+    },
+    ExportAllDeclaration(node) {
+      checkSource(node, node.source.value);
+    },
+    ImportExpression(node) {
+      violations.push({
+        rule: 'forbidden-import',
+        message: 'Dynamic import() is not allowed in blocks',
+        line: lineOf(node),
+      });
+    },
+    CallExpression(node) {
+      const callee = node.callee;
+      const isEval = (callee.type === 'Identifier' && (callee.name === 'eval' || callee.name === 'Function'))
+        || (callee.type === 'MemberExpression' && callee.property.type === 'Identifier' && callee.property.name === 'eval');
+      if (isEval) {
+        violations.push({ rule: 'forbidden-eval', message: 'eval() / Function() is not allowed', line: lineOf(node) });
+      }
+
+      if (
+        callee.type === 'MemberExpression'
+        && callee.object.type === 'Identifier' && callee.object.name === 'document'
+        && callee.property.type === 'Identifier' && (callee.property.name === 'write' || callee.property.name === 'writeln')
+      ) {
+        violations.push({
+          rule: 'forbidden-document-write',
+          message: `document.${callee.property.name}() is not allowed; build DOM nodes instead`,
+          line: lineOf(node),
+        });
+      }
+    },
+    NewExpression(node) {
+      if (node.callee.type === 'Identifier' && node.callee.name === 'Function') {
+        violations.push({ rule: 'forbidden-eval', message: 'new Function() is not allowed', line: lineOf(node) });
+      }
+    },
+  });
+
+  return { valid: violations.length === 0, violations };
+}
+
+/**
+ * Ask Claude to fix only the listed violations
+ */
+async function repairBlockJs(
+  js: string,
+  violations: JsViolation[],
+  context: { blockName: string; html?: string },
+  config: AnthropicConfig
+): Promise<string> {
+  const prompt = `The JavaScript for the AEM Edge Delivery Services block "${context.blockName}" breaks these rules:
+
+${violations.map(v => `- [${v.rule}]${v.line ? ` line ${v.line}:` : ''} ${v.message}`).join('\n')}
+
+EDS block JS rules:
+- Must be a valid ES module
+- Must have exactly one default export: export default function decorate(block) { ... } (may be async)
+- No eval(), Function() or new Function(); no document.write()
+- May only import from '${ALLOWED_BLOCK_IMPORT}' (e.g. import { createOptimizedPicture } from '${ALLOWED_BLOCK_IMPORT}'); no dynamic import()
+
+Fix ONLY these violations. Keep all other behavior, class names and DOM handling exactly as they are.
+${context.html ? `\nThe block markup the JS decorates:\n\`\`\`html\n${context.html.substring(0, 4000)}\n\`\`\`\n` : ''}
+Current JavaScript:
+\`\`\`javascript
+${js}
+\`\`\`
+
+Return ONLY the corrected JavaScript in a single \`\`\`javascript code block.`;
+
+  const response = await callClaude(config, { content: prompt }, { label: 'block-validator' });
+  const codeMatch = response.match(/```(?:javascript|js)?\s*\n([\s\S]*?)```/);
+  return (codeMatch ? codeMatch[1] : response).trim() + '\n';
+}
+
+/**
+ * Validate generated block JS and, when rules are broken, ask Claude for a targeted
+ * repair (up to maxAttempts times). Without an Anthropic config no repair is attempted.
+ */
+export async function validateAndRepairBlockJs(
+  js: string,
+  context: { blockName: string; html?: string },
+  config?: AnthropicConfig,
+  maxAttempts: number = 2
+): Promise<JsValidationReport> {
+  const initial = validateBlockJs(js);
+  if (initial.valid) {
+    return { js, valid: true, repaired: false, repairAttempts: 0, initialViolations: [], violations: [] };
+  }
+
+  console.log(`Block JS has ${initial.violations.length} violation(s): ${initial.violations.map(v => v.rule).join(', ')}`);
+
+  let current = initial;
+  let attempts = 0;
+  let candidate = js;
+  while (!current.valid && config && attempts < maxAttempts) {
+    attempts++;
+    console.log(`  Repair attempt ${attempts}/${maxAttempts}...`);
+    try {
+      candidate = await repairBlockJs(candidate, current.violations, context, config);
+      current = validateBlockJs(candidate);
+    } catch (error) {
+      console.warn('  Block JS repair failed:', error);
+      break;
+    }
+  }
+
+  return {
+    js: current.valid ? candidate : js,
+    valid: current.valid,
+    repaired: current.valid,
+    repairAttempts: attempts,
+    initialViolations: initial.violations,
+    violations: current.violations,
+  };
+}
@@ -0,0 +1,223 @@
+import {
+  BLOCK_TABLE_FORMAT,
+  isBlockTableFor,
+  parseBlockTableResponse,
+  withBlockVariant,
+} from './block-library';
+import { AnthropicConfig } from './design-analyzer';
+import { callClaude } from './llm-provider';
+
+/**
+ * A block of the target site's fixed block library and the authoring table it expects
+ */
+export interface BlockContentModel {
+  /** Block name as authored (first cell of the block table), e.g. "cards" */
+  name: string;
+  /** What the block is for, used to decide which sections fit it */
+  description: string;
+  /** One content row, or one row per repeated item */
+  rows: 'single' | 'repeating';
+  /** What goes in each cell of a row, in order */
+  cells: string[];
+  /** Variants the block supports (authored as "cards (horizontal)" / class="cards horizontal") */
+  variants?: string[];
+}
+
+/**
+ * Content models of the AEM Block Collection, used when a request does not configure a library
+ */
+export const BLOCK_COLLECTION_LIBRARY: BlockContentModel[] = [
+  {
+    name: 'hero',
+    description: 'Large banner at the top of a page: background or side image with a main heading, optional text and call to action',
+    rows: 'single',
+    cells: ['picture, h1 heading, optional paragraph and CTA link'],
+  },
+  {
+    name: 'cards',
+    description: 'Grid of repeated items, each with an image and text (teasers, products, features, articles)',
+    rows: 'repeating',
+    cells: ['picture', 'heading, paragraph(s) and optional link'],
+  },
+  {
+    name: 'columns',
+    description: 'Content placed side by side (text next to an image, two or three text columns)',
+    rows: 'repeating',
+    cells: ['column 1 content', 'column 2 content', '... one cell per column'],
+  },
+  {
+    name: 'accordion',
+    description: 'Expandable question/answer or label/body pairs (FAQs)',
+    rows: 'repeating',
+    cells: ['label (question)', 'body (answer)'],
+  },
+  {
+    name: 'tabs',
+    description: 'Content panels switched by tab labels',
+    rows: 'repeating',
+    cells: ['tab label', 'tab panel content'],
+  },
+  {
+    name: 'carousel',
+    description: 'Slides shown one at a time with navigation',
+    rows: 'repeating',
+    cells: ['picture', 'slide heading, text and CTA'],
+  },
+  {
+    name: 'quote',
+    description: 'A highlighted quotation or testimonial',
+    rows: 'single',
+    cells: ['quotation text', 'attribution (optional, as a second row)'],
+  },
+  {
+    name: 'embed',
+    description: 'Embedded third-party content (YouTube, Vimeo, Twitter, maps) referenced by URL',
+    rows: 'single',
+    cells: ['link to the embedded URL, optional placeholder picture before it'],
+  },
+  {
+    name: 'video',
+    description: 'A video file or player with an optional poster image',
+    rows: 'single',
+    cells: ['optional poster picture and link to the video URL'],
+  },
+  {
+    name: 'table',
+    description: 'Tabular data with a header row',
+    rows: 'repeating',
+    cells: ['one cell per table column; the first row holds the column headings'],
+    variants: ['striped', 'bordered', 'no-header'],
+  },
+];
+
+/**
+ * Section content mapped onto a library block
+ */
+export interface MappedSection {
+  blockName: string;
+  variant?: string;
+  confidence: number;
+  reason: string;
+  /** Block table (div format) filled with the section's content */
+  authoringHtml: string;
+}
+
+/**
+ * Section no library block can hold
+ */
+export interface UnmappedSection {
+  unmapped: true;
+  reason: string;
+}
+
+/**
+ * Problems with a client-supplied block library, one message per invalid entry
+ * (empty when every entry is a usable BlockContentModel)
+ */
+export function validateBlockLibrary(library: unknown): string[] {
+  if (!Array.isArray(library)) return ['blockLibrary must be an array'];
+
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const errors: string[] = [];
+  library.forEach((entry: Partial<Record<keyof BlockContentModel, unknown>> | null, index) => {
+    const problems: string[] = [];
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`blockLibrary[${index}] must be an object`);
+      return;
+    }
+    if (typeof entry.name !== 'string' || !entry.name.trim()) problems.push('name');
+    if (typeof entry.description !== 'string') problems.push('description');
+    if (entry.rows !== 'single' && entry.rows !== 'repeating') problems.push('rows ("single" or "repeating")');
+    if (!isStringList(entry.cells) || (entry.cells as string[]).length === 0) problems.push('cells (non-empty string array)');
+    if (entry.variants !== undefined && !isStringList(entry.variants)) problems.push('variants (string array)');
+    if (problems.length > 0) {
+      errors.push(`blockLibrary[${index}] has missing or invalid ${problems.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+function describeLibrary(library: BlockContentModel[]): string {
+  return library.map(block => `### ${block.name}
+${block.description}
+Rows: ${block.rows === 'repeating' ? 'one row per item' : 'a single row'}; cells: ${block.cells.map((cell, i) => `[${i + 1}] ${cell}`).join(' ')}${block.variants?.length ? `\nVariants: ${block.variants.join(', ')}` : ''}`).join('\n\n');
+}
+
+/**
+ * Ask Claude to move a section's content into one of the library's blocks.
+ * No block code is written: the result is DA authoring HTML only, or an
+ * unmapped result when no block can hold the content (confidence below minConfidence).
+ */
+export async function mapSectionToLibrary(params: {
+  sectionName: string;
+  sectionDescription?: string;
+  sectionHtml: string;
+  library: BlockContentModel[];
+  config: AnthropicConfig;
+  minConfidence?: number;
+}): Promise<MappedSection | UnmappedSection> {
+  const { library, minConfidence = 60 } = params;
+
+  const prompt = `You are migrating content to an AEM Edge Delivery Services site whose design system is fixed.
+Move the content of the section below into ONE of the site's existing blocks. Do not invent new blocks.
+
+## Block library
+${describeLibrary(library)}
+
+## Section "${params.sectionName}"${params.sectionDescription ? `\n${params.sectionDescription}` : ''}
+\`\`\`html
+${params.sectionHtml.substring(0, 12000)}
+\`\`\`
+
+## Rules
+- Pick the block whose purpose and content model fit the section; a variant only if it is listed for that block
+- Keep ALL the section's real text, links and image URLs; drop only layout wrappers, scripts and tracking attributes
+- Follow the block's cell order exactly; repeated items become one row each
+- If no block can hold this content without losing its meaning, return "block": null
+
+Write the block as a table in div format:
+${BLOCK_TABLE_FORMAT}
+
+Return ONLY a JSON object:
+{
+  "block": "<block name>" | null,
+  "variant": "<variant>" | null,
+  "confidence": <0-100>,
+  "reason": "<why this block, or why nothing fits>",
+  "authoringHtml": "<block table>" | null
+}`;
+
+  const response = await callClaude(params.config, { content: prompt }, { label: 'content-mapper' });
+  const result = parseBlockTableResponse<{
+    block: string | null;
+    variant?: string | null;
+    confidence?: number;
+    reason?: string;
+    authoringHtml?: string | null;
+  }>(response);
+  if (!result) {
+    return { unmapped: true, reason: 'Could not parse the mapping response' };
+  }
+
+  const block = library.find(b => b.name === result.block);
+  if (!block || !result.authoringHtml) {
+    return { unmapped: true, reason: result.reason || 'No library block fits this section' };
+  }
+  if ((result.confidence ?? 0) < minConfidence) {
+    return { unmapped: true, reason: `Best fit "${block.name}" has low confidence (${result.confidence ?? 'n/a'}): ${result.reason || ''}`.trim() };
+  }
+  if (!isBlockTableFor(result.authoringHtml, block.name)) {
+    return { unmapped: true, reason: `Content for "${block.name}" is not a ${block.name} block table` };
+  }
+
+  // Unlisted variants are dropped from the block's class too, so the page matches the reported result
+  const variant = result.variant && block.variants?.includes(result.variant) ? result.variant : undefined;
+  const authoringHtml = withBlockVariant(result.authoringHtml.trim(), block.name, variant);
+  return {
+    blockName: block.name,
+    variant,
+    confidence: result.confidence ?? minConfidence,
+    reason: result.reason || '',
+    authoringHtml,
+  };
+}
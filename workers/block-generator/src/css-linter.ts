@@ -0,0 +1,356 @@
+import { CssLintFinding, CssLintReport } from './types';
+
+/**
+ * Style rule found while scanning the stylesheet, with source offsets
+ * so fixes can be applied in place without reformatting the CSS
+ */
+export interface ScannedRule {
+  selectorText: string;
+  selectorStart: number;
+  bodyStart: number;
+  bodyEnd: number;
+}
+
+export interface Declaration {
+  property: string;
+  value: string;
+  start: number;
+  /** End offset including the trailing semicolon, if any */
+  end: number;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+/** At-rules whose body is itself a list of rules */
+const GROUPING_AT_RULES = new Set(['media', 'supports', 'container', 'layer', 'scope']);
+
+/** Widths above this (in px) overflow the smallest mobile viewport */
+const MAX_FIXED_WIDTH_PX = 320;
+
+const ROOT_SELECTOR = /^(?:html|body|:root)(?![\w-])/i;
+const ELEMENT_COMPOUND = /^(?:\*|[a-z][a-z0-9-]*)(?:::?[\w-]+(?:\([^)]*\))?)*$/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Skip a comment or string starting at `i`, returning the index after it
+ * (or `i` when there is none)
+ */
+function skipCommentOrString(css: string, i: number): number {
+  if (css[i] === '/' && css[i + 1] === '*') {
+    const end = css.indexOf('*/', i + 2);
+    return end === -1 ? css.length : end + 2;
+  }
+  if (css[i] === '"' || css[i] === "'") {
+    const quote = css[i];
+    let j = i + 1;
+    while (j < css.length && css[j] !== quote) {
+      j += css[j] === '\\' ? 2 : 1;
+    }
+    return j + 1;
+  }
+  return i;
+}
+
+/**
+ * Index of the `}` closing the block opened just before `start`
+ */
+function findBlockEnd(css: string, start: number): number {
+  let depth = 1;
+  let i = start;
+  while (i < css.length) {
+    const skipped = skipCommentOrString(css, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (css[i] === '{') depth++;
+    if (css[i] === '}' && --depth === 0) return i;
+    i++;
+  }
+  return css.length;
+}
+
+/**
+ * Collect the style rules of a stylesheet, descending into @media/@supports/...
+ * and skipping @keyframes, @font-face and other at-rules.
+ */
+export function scanRules(css: string, start: number = 0, end: number = css.length, rules: ScannedRule[] = []): ScannedRule[] {
+  let preludeStart = start;
+  let i = start;
+
+  while (i < end) {
+    const skipped = skipCommentOrString(css, i);
+    if (skipped !== i) {
+      // Comments before a prelude are not part of it
+      if (css.slice(preludeStart, i).trim() === '') preludeStart = skipped;
+      i = skipped;
+      continue;
+    }
+
+    const char = css[i];
+    if (char === ';' || char === '}') {
+      preludeStart = i + 1;
+    } else if (char === '{') {
+      const blockEnd = findBlockEnd(css, i + 1);
+      const prelude = css.slice(preludeStart, i);
+      const trimmed = prelude.trim();
+
+      if (trimmed.startsWith('@')) {
+        const name = trimmed.slice(1).split(/[\s({]/)[0].toLowerCase();
+        if (GROUPING_AT_RULES.has(name)) {
+          scanRules(css, i + 1, blockEnd, rules);
+        }
+      } else if (trimmed) {
+        rules.push({
+          selectorText: trimmed,
+          selectorStart: preludeStart + prelude.indexOf(trimmed),
+          bodyStart: i + 1,
+          bodyEnd: blockEnd,
+        });
+      }
+
+      i = blockEnd + 1;
+      preludeStart = i;
+      continue;
+    }
+    i++;
+  }
+
+  return rules;
+}
+
+/**
+ * Split a selector list on top-level commas (not those inside :is(...), :not(...), ...)
+ */
+export function splitSelectorList(selectorText: string): Array<{ selector: string; offset: number }> {
+  const parts: Array<{ selector: string; offset: number }> = [];
+  let depth = 0;
+  let partStart = 0;
+
+  const push = (endIndex: number) => {
+    const raw = selectorText.slice(partStart, endIndex);
+    const selector = raw.trim();
+    if (selector) parts.push({ selector, offset: partStart + raw.indexOf(selector) });
+  };
+
+  for (let i = 0; i < selectorText.length; i++) {
+    const char = selectorText[i];
+    if (char === '(' || char === '[') depth++;
+    else if (char === ')' || char === ']') depth--;
+    else if (char === ',' && depth === 0) {
+      push(i);
+      partStart = i + 1;
+    }
+  }
+  push(selectorText.length);
+
+  return parts;
+}
+
+export function parseDeclarations(css: string, bodyStart: number, bodyEnd: number): Declaration[] {
+  const declarations: Declaration[] = [];
+  let declStart = bodyStart;
+  let depth = 0;
+  let i = bodyStart;
+
+  const push = (endIndex: number, includeSemicolon: boolean) => {
+    const raw = css.slice(declStart, endIndex);
+    const colon = raw.indexOf(':');
+    if (colon > 0) {
+      const leading = raw.length - raw.trimStart().length;
+      declarations.push({
+        property: raw.slice(0, colon).trim().toLowerCase(),
+        value: raw.slice(colon + 1).trim(),
+        start: declStart + leading,
+        end: includeSemicolon ? endIndex + 1 : endIndex,
+      });
+    }
+  };
+
+  while (i < bodyEnd) {
+    const skipped = skipCommentOrString(css, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    if (css[i] === '(') depth++;
+    if (css[i] === ')') depth--;
+    if (css[i] === ';' && depth === 0) {
+      push(i, true);
+      declStart = i + 1;
+    }
+    i++;
+  }
+  push(bodyEnd, false);
+
+  return declarations;
+}
+
+/**
+ * The block container is the block's own element (`.hero`, `.hero.dark`, `main .hero`)
+ * or its EDS wrapper/section (`.hero-wrapper`, `.section.hero-container`)
+ */
+function isBlockContainerSelector(selector: string, blockName: string): boolean {
+  const compounds = selector.split(/\s*[\s>+~]\s*/).filter(Boolean);
+  const last = compounds[compounds.length - 1] || '';
+  return new RegExp(`^(?:[\\w-]*)(?:\\.[\\w-]+)*\\.${escapeRegExp(blockName)}(?:-wrapper|-container)?(?:\\.[\\w-]+)*$`).test(last);
+}
+
+function isElementOnlySelector(selector: string): boolean {
+  return selector
+    .split(/\s*[\s>+~]\s*/)
+    .filter(Boolean)
+    .every(compound => ELEMENT_COMPOUND.test(compound));
+}
+
+function lineAt(css: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < css.length; i++) {
+    if (css[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Widen a declaration's range to its whole line when nothing else is on it,
+ * so removing it does not leave an empty indented line behind
+ */
+function removalRange(css: string, start: number, end: number): { start: number; end: number } {
+  const lineStart = css.lastIndexOf('\n', start - 1) + 1;
+  const newline = css.indexOf('\n', end);
+  const lineEnd = newline === -1 ? css.length : newline;
+  if (css.slice(lineStart, start).trim() === '' && css.slice(end, lineEnd).trim() === '') {
+    return { start: lineStart, end: newline === -1 ? lineEnd : lineEnd + 1 };
+  }
+  return { start, end };
+}
+
+function applyEdits(css: string, edits: TextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.replacement + result.slice(edit.end), css);
+}
+
+/**
+ * Lint generated block CSS against the EDS block rules:
+ * - every selector is scoped to the block (`.{block-name} ...`)
+ * - no global element selectors (`h2`, `ul li`, `body`)
+ * - no background on the block container (section backgrounds come from section metadata)
+ * - no `!important`
+ * - no fixed pixel widths wider than a mobile viewport
+ *
+ * With `fix` (default), the mechanical cases are rewritten: unscoped selectors are prefixed
+ * with the block class, container backgrounds and `!important` are removed, and fixed
+ * widths become `width: 100%; max-width: {n}px`.
+ */
+export function lintBlockCss(
+  css: string,
+  blockName: string,
+  options: { fix?: boolean } = {}
+): { css: string; report: CssLintReport } {
+  const fix = options.fix !== false;
+  const blockClass = `.${blockName}`;
+  const scopedPattern = new RegExp(`\\.${escapeRegExp(blockName)}(?:-wrapper|-container)?(?![\\w-])`);
+
+  const findings: CssLintFinding[] = [];
+  const edits: TextEdit[] = [];
+
+  for (const rule of scanRules(css)) {
+    const line = lineAt(css, rule.selectorStart);
+    const selectors = splitSelectorList(rule.selectorText);
+
+    for (const { selector, offset } of selectors) {
+      if (scopedPattern.test(selector)) continue;
+
+      const elementOnly = isElementOnlySelector(selector);
+      const targetsRoot = ROOT_SELECTOR.test(selector);
+      const fixable = fix && !targetsRoot;
+
+      findings.push({
+        rule: elementOnly || targetsRoot ? 'global-element-selector' : 'unscoped-selector',
+        severity: 'error',
+        message: targetsRoot
+          ? `"${selector}" styles the whole page; move it to styles.css or remove it`
+          : `"${selector}" is not scoped to ${blockClass} and will leak into other blocks`,
+        selector,
+        line,
+        fixed: fixable,
+      });
+
+      if (fixable) {
+        const start = rule.selectorStart + offset;
+        edits.push({ start, end: start, replacement: `${blockClass} ` });
+      }
+    }
+
+    const isContainer = selectors.some(({ selector }) => isBlockContainerSelector(selector, blockName));
+
+    for (const decl of parseDeclarations(css, rule.bodyStart, rule.bodyEnd)) {
+      if (isContainer && /^background(?:-color|-image)?$/.test(decl.property)) {
+        findings.push({
+          rule: 'block-container-background',
+          severity: 'error',
+          message: `${decl.property} on the block container breaks section styling; section backgrounds come from section metadata`,
+          selector: rule.selectorText,
+          line: lineAt(css, decl.start),
+          fixed: fix,
+        });
+        if (fix) edits.push({ ...removalRange(css, decl.start, decl.end), replacement: '' });
+        continue;
+      }
+
+      const important = /\s*!\s*important\s*$/i.exec(decl.value);
+      if (important) {
+        findings.push({
+          rule: 'important',
+          severity: 'warning',
+          message: `!important on ${decl.property}; block styles should win by specificity`,
+          selector: rule.selectorText,
+          line: lineAt(css, decl.start),
+          fixed: fix,
+        });
+      }
+      const value = important ? decl.value.slice(0, important.index) : decl.value;
+
+      const px = /^(\d+(?:\.\d+)?)px$/i.exec(value);
+      if ((decl.property === 'width' || decl.property === 'min-width') && px && parseFloat(px[1]) > MAX_FIXED_WIDTH_PX) {
+        const fixable = fix && decl.property === 'width';
+        findings.push({
+          rule: 'fixed-width',
+          severity: 'warning',
+          message: `${decl.property}: ${value} overflows mobile viewports; use max-width or a relative unit`,
+          selector: rule.selectorText,
+          line: lineAt(css, decl.start),
+          fixed: fixable,
+        });
+        if (fixable) {
+          const terminator = css.slice(decl.end - 1, decl.end) === ';' ? ';' : '';
+          edits.push({ start: decl.start, end: decl.end, replacement: `width: 100%; max-width: ${value}${terminator}` });
+          continue;
+        }
+      }
+
+      if (important && fix) {
+        const terminator = css.slice(decl.end - 1, decl.end) === ';' ? ';' : '';
+        edits.push({ start: decl.start, end: decl.end, replacement: `${decl.property}: ${value}${terminator}` });
+      }
+    }
+  }
+
+  const fixedCount = findings.filter(f => f.fixed).length;
+  return {
+    css: edits.length > 0 ? applyEdits(css, edits) : css,
+    report: {
+      findings,
+      fixedCount,
+      remainingCount: findings.length - fixedCount,
+    },
+  };
+}
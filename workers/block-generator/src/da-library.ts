@@ -0,0 +1,185 @@
+import { blockTitle, blocksNamed, DomElement, parsePage } from './authoring-dom';
+import { ComponentDescription } from './enhanced-generator';
+import { readSheetRows, withSheetRows } from './link-mapper';
+
+/**
+ * A row of the DA blocks library sheet. DA's library plugin reads `name` and `path`
+ * (the content.da.live URL of the example document); `description` is shown to authors.
+ */
+export interface LibraryBlockRow {
+  name: string;
+  path: string;
+  description: string;
+}
+
+/**
+ * A row of the "library" sheet of the DA site config, one per library plugin tab
+ */
+interface LibraryConfigRow {
+  title: string;
+  path: string;
+  [column: string]: string;
+}
+
+/** Sheet listing the site's blocks, relative to the site root */
+export const BLOCKS_SHEET_PATH = '/docs/library/blocks';
+
+/** Attributes that only matter to the source site or the generator, never to authors */
+const DROPPED_ATTRIBUTE = /^(id|style|class|data-.*|aria-.*|role|tabindex|loading|decoding|width|height|srcset|sizes)$/;
+
+/**
+ * A clean library example for a block: only the block's tables in a single section,
+ * with source-site ids, inline styles, classes and data attributes removed
+ */
+export function cleanLibraryExample(html: string, blockName: string): string {
+  const blocks = blocksNamed(parsePage(html), blockName);
+  if (blocks.length === 0) {
+    throw new Error(`No "${blockName}" block found in the example page`);
+  }
+
+  const examples = blocks
+    .filter(block => !blocks.some(other => other !== block && other.contains(block)))
+    .map(block => {
+      (Array.from(block.querySelectorAll('script, style, noscript')) as DomElement[]).forEach(element => element.remove());
+      (Array.from(block.querySelectorAll('*')) as DomElement[]).forEach(element => {
+        (Array.from(element.attributes) as Array<{ name: string }>)
+          .map(attribute => attribute.name)
+          .filter(name => DROPPED_ATTRIBUTE.test(name))
+          .forEach(name => element.removeAttribute(name));
+      });
+      // Keep the block name and its variants, drop anything the generator or decoration added
+      const classes = (block.getAttribute('class') || '').split(/\s+/).filter((name: string) => name && !/^(block|section)$/.test(name));
+      return `<div class="${classes.join(' ')}">${block.innerHTML}</div>`;
+    });
+
+  return `<body>
+  <header></header>
+  <main>
+    <div>
+${examples.map(example => `      ${example}`).join('\n')}
+    </div>
+  </main>
+  <footer></footer>
+</body>`;
+}
+
+function sentence(text: string): string {
+  const trimmed = text.trim().replace(/\.$/, '');
+  return trimmed ? `${trimmed.charAt(0).toUpperCase()}${trimmed.slice(1)}.` : '';
+}
+
+/**
+ * One or two sentences telling authors what the block is and how to fill it in,
+ * from the generator's component description
+ */
+export function describeForAuthors(blockName: string, description?: ComponentDescription): string {
+  const parts: string[] = [];
+  const layout = description?.structure?.layout;
+  parts.push(sentence(layout || `${blockTitle(blockName)} block`));
+
+  const grid = description?.structure?.gridInfo;
+  const hierarchy = description?.structure?.contentHierarchy || [];
+  if (grid && grid.itemStructure.length > 0) {
+    parts.push(sentence(`One row per item, each with ${grid.itemStructure.join(', ')}`));
+  } else if (hierarchy.length > 0) {
+    parts.push(sentence(`Content: ${hierarchy.join(', ')}`));
+  }
+
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Add a block to the library rows, replacing an existing row with the same name
+ * in place so the authors' ordering is kept
+ */
+export function upsertLibraryBlock(rows: LibraryBlockRow[], row: LibraryBlockRow): LibraryBlockRow[] {
+  const index = rows.findIndex(existing => existing.name.toLowerCase() === row.name.toLowerCase());
+  if (index === -1) return [...rows, row];
+  return rows.map((existing, i) => (i === index ? { ...existing, ...row } : existing));
+}
+
+/**
+ * Make sure the site config's "library" sheet lists the blocks sheet, so the library
+ * plugin shows it. Returns whether the config was changed.
+ */
+async function ensureBlocksLibraryConfig(target: { org: string; site: string; token: string }): Promise<boolean> {
+  const configUrl = `https://admin.da.live/config/${target.org}/${target.site}/`;
+  const sheetUrl = `https://content.da.live/${target.org}/${target.site}${BLOCKS_SHEET_PATH}.json`;
+
+  const current = await fetch(configUrl, { headers: { 'Authorization': `Bearer ${target.token}` } });
+  if (!current.ok && current.status !== 404) {
+    throw new Error(`Failed to read site config: ${current.status}`);
+  }
+  const config = (current.ok ? await current.json() : {}) as Record<string, unknown> & { ':names'?: string[] };
+
+  // The library sheet is set on the fetched config, so its other sheets and keys
+  // (":private" included) are written back as they were. A single-sheet config
+  // becomes the "data" sheet of a multi-sheet.
+  let merged: Record<string, unknown> & { ':names'?: string[] };
+  if (config[':type'] === 'multi-sheet') {
+    merged = { ...config };
+  } else {
+    merged = { ':names': [], ':version': 3, ':type': 'multi-sheet' };
+    if (config[':type'] === 'sheet') {
+      const data = { ...config };
+      delete data[':type'];
+      merged.data = data;
+      merged[':names'] = ['data'];
+    }
+  }
+
+  const libraryRows = readSheetRows<LibraryConfigRow>(merged.library || {});
+  if (libraryRows.some(row => row.path === sheetUrl)) return false;
+  const rows = [...libraryRows, { title: 'Blocks', path: sheetUrl }];
+  merged.library = { ...(merged.library as object), total: rows.length, limit: rows.length, offset: 0, data: rows };
+  const names = merged[':names'] || [];
+  if (!names.includes('library')) merged[':names'] = [...names, 'library'];
+
+  const formData = new FormData();
+  formData.append('config', JSON.stringify(merged));
+
+  const response = await fetch(configUrl, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${target.token}` },
+    body: formData,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to write site config: ${response.status} - ${await response.text()}`);
+  }
+  return true;
+}
+
+/**
+ * Add or update a block in the DA blocks library sheet (created if needed) and register
+ * the sheet in the site's library config
+ */
+export async function registerLibraryBlock(
+  target: { org: string; site: string; token: string },
+  row: LibraryBlockRow
+): Promise<{ sheetPath: string; added: boolean; configUpdated: boolean }> {
+  const sheetUrl = `https://admin.da.live/source/${target.org}/${target.site}${BLOCKS_SHEET_PATH}.json`;
+
+  const current = await fetch(sheetUrl, { headers: { 'Authorization': `Bearer ${target.token}` } });
+  if (!current.ok && current.status !== 404) {
+    throw new Error(`Failed to read blocks library sheet: ${current.status}`);
+  }
+  const json: unknown = current.ok ? await current.json() : {};
+  const existing = readSheetRows<LibraryBlockRow>(json);
+  const rows = upsertLibraryBlock(existing, row);
+
+  // Other sheets of a multi-sheet blocks.json are kept
+  const formData = new FormData();
+  formData.append('data', new Blob([JSON.stringify(withSheetRows(json, rows))], { type: 'application/json' }));
+
+  const response = await fetch(sheetUrl, {
+    method: 'PUT',
+    headers: { 'Authorization': `Bearer ${target.token}` },
+    body: formData,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to write blocks library sheet: ${response.status} - ${await response.text()}`);
+  }
+  const configUpdated = await ensureBlocksLibraryConfig(target);
+
+  return { sheetPath: `${BLOCKS_SHEET_PATH}.json`, added: rows.length > existing.length, configUpdated };
+}
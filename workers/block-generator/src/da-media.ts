@@ -0,0 +1,224 @@
+/**
+ * Target DA site and folder for uploaded media
+ */
+export interface DAMediaTarget {
+  org: string;
+  site: string;
+  /** DA folder the files go in, e.g. "/drafts/imports/x7k2m9/.about-us" */
+  folder: string;
+  token: string;
+}
+
+/**
+ * A file uploaded to the DA site's media
+ */
+export interface DAMediaFile {
+  /** Source path in the site, e.g. "/drafts/imports/x7k2m9/.about-us/team.jpg" */
+  daPath: string;
+  /** URL authored content references the file by */
+  contentUrl: string;
+  contentType: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+};
+
+/**
+ * Folder DA keeps a document's media in: "/a/b/page" -> "/a/b/.page"
+ */
+export function mediaFolderFor(documentPath: string): string {
+  const slash = documentPath.lastIndexOf('/');
+  return `${documentPath.slice(0, slash)}/.${documentPath.slice(slash + 1)}`;
+}
+
+/**
+ * Uploads made so far, keyed by content hash and by source URL, so identical images
+ * (the same file under two URLs, or an og:image the page also shows) upload once.
+ * A cache covers one media folder: pages with their own folders upload their own copies.
+ */
+export interface MediaCache {
+  byHash: Map<string, DAMediaFile>;
+  byUrl: Map<string, DAMediaFile>;
+}
+
+/**
+ * Result of moving a document's images into DA media
+ */
+export interface ImageMigration {
+  /** HTML with every migrated image pointing at its DA media URL */
+  html: string;
+  migrated: Array<{ sourceUrl: string; contentUrl: string }>;
+  /** Images left pointing at the source site */
+  failed: Array<{ sourceUrl: string; error: string }>;
+}
+
+/** Downloads/uploads in flight at once (Workers allow 6 open connections) */
+const MIGRATION_CONCURRENCY = 4;
+
+export function createMediaCache(): MediaCache {
+  return { byHash: new Map(), byUrl: new Map() };
+}
+
+async function sha1Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * File name for downloaded media: "media_" plus the content hash, as EDS names the
+ * media it ingests, so re-imports overwrite the same file instead of adding copies
+ */
+function mediaFileName(sourceUrl: string, contentType: string, hash: string): string {
+  const extension = EXTENSIONS[contentType] || sourceUrl.match(/\.([a-z0-9]{2,4})(?:[?#]|$)/i)?.[1]?.toLowerCase() || 'bin';
+  return `media_${hash}.${extension}`;
+}
+
+/**
+ * Download a file from the source site and upload it to the DA site's media.
+ * With a cache, a URL or content already uploaded is not uploaded again.
+ */
+export async function uploadMediaFromUrl(sourceUrl: string, target: DAMediaTarget, cache?: MediaCache): Promise<DAMediaFile> {
+  const cached = cache?.byUrl.get(sourceUrl);
+  if (cached) return cached;
+
+  const download = await fetch(sourceUrl);
+  if (!download.ok) {
+    throw new Error(`Failed to download ${sourceUrl}: ${download.status}`);
+  }
+
+  const contentType = (download.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+  const bytes = await download.arrayBuffer();
+  const hash = await sha1Hex(bytes);
+
+  const duplicate = cache?.byHash.get(hash);
+  if (duplicate) {
+    cache!.byUrl.set(sourceUrl, duplicate);
+    return duplicate;
+  }
+
+  const daPath = `${target.folder}/${mediaFileName(sourceUrl, contentType, hash)}`;
+
+  const formData = new FormData();
+  formData.append('data', new Blob([bytes], { type: contentType }));
+
+  const upload = await fetch(`https://admin.da.live/source/${target.org}/${target.site}${daPath}`, {
+    method: 'PUT',
+    headers: { 'Authorization': `Bearer ${target.token}` },
+    body: formData,
+  });
+  if (!upload.ok) {
+    throw new Error(`DA media upload failed for ${daPath}: ${upload.status} - ${await upload.text()}`);
+  }
+
+  const file: DAMediaFile = {
+    daPath,
+    contentUrl: `https://content.da.live/${target.org}/${target.site}${daPath}`,
+    contentType,
+  };
+  cache?.byHash.set(hash, file);
+  cache?.byUrl.set(sourceUrl, file);
+  return file;
+}
+
+function decodeAttribute(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+}
+
+/**
+ * Escape a value for a quoted HTML attribute (the inverse of decodeAttribute)
+ */
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+/**
+ * Absolute http(s) URL for an image reference, or null for data URIs, fragments
+ * and references that are already DA media
+ */
+function resolveImageUrl(reference: string, baseUrl?: string): string | null {
+  const trimmed = decodeAttribute(reference.trim());
+  if (!trimmed || trimmed.startsWith('data:') || trimmed.startsWith('#')) return null;
+  try {
+    const url = new URL(trimmed.startsWith('//') ? `https:${trimmed}` : trimmed, baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.hostname === 'content.da.live') return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite every image reference in the HTML (img/source src and srcset, inline
+ * background-image url()), mapping each through `rewrite`
+ */
+function rewriteImageReferences(html: string, rewrite: (reference: string) => string): string {
+  const srcsetRewrite = (srcset: string) => srcset.split(',')
+    .map((candidate) => {
+      const [reference, ...descriptors] = candidate.trim().split(/\s+/);
+      return [rewrite(reference), ...descriptors].join(' ');
+    })
+    .join(', ');
+
+  return html
+    .replace(/<(?:img|source)\b[^>]*>/gi, tag => tag.replace(
+      /(\s(?:data-)?(src|srcset)=)(["'])([^"']*)\3/gi,
+      (_match, prefix, name, quote, value) => `${prefix}${quote}${name.toLowerCase() === 'srcset' ? srcsetRewrite(value) : rewrite(value)}${quote}`
+    ))
+    .replace(/url\((&quot;|["']?)(.*?)\1\)/gi, (_match, quote, value) => `url(${quote}${rewrite(value)}${quote})`);
+}
+
+/**
+ * Images the HTML references, as absolute source URLs
+ */
+export function collectImageUrls(html: string, baseUrl?: string): string[] {
+  const urls = new Set<string>();
+  rewriteImageReferences(html, (reference) => {
+    const resolved = resolveImageUrl(reference, baseUrl);
+    if (resolved) urls.add(resolved);
+    return reference;
+  });
+  return Array.from(urls);
+}
+
+/**
+ * Copy every image a document references into DA media and point the HTML at the
+ * copies, so the imported page no longer hotlinks the source site. Images that
+ * fail to download or upload keep their source URL and are reported in `failed`.
+ */
+export async function migrateImages(
+  html: string,
+  target: DAMediaTarget,
+  options: { baseUrl?: string; cache?: MediaCache } = {}
+): Promise<ImageMigration> {
+  const cache = options.cache || createMediaCache();
+  const sourceUrls = collectImageUrls(html, options.baseUrl);
+  const migrated: ImageMigration['migrated'] = [];
+  const failed: ImageMigration['failed'] = [];
+
+  for (let i = 0; i < sourceUrls.length; i += MIGRATION_CONCURRENCY) {
+    const batch = sourceUrls.slice(i, i + MIGRATION_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map(sourceUrl => uploadMediaFromUrl(sourceUrl, target, cache)));
+    results.forEach((result, j) => {
+      if (result.status === 'fulfilled') {
+        migrated.push({ sourceUrl: batch[j], contentUrl: result.value.contentUrl });
+      } else {
+        failed.push({ sourceUrl: batch[j], error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+      }
+    });
+  }
+
+  const rewritten = rewriteImageReferences(html, (reference) => {
+    const resolved = resolveImageUrl(reference, options.baseUrl);
+    const file = resolved ? cache.byUrl.get(resolved) : undefined;
+    return file ? file.contentUrl : reference;
+  });
+
+  return { html: rewritten, migrated, failed };
+}
@@ -0,0 +1,165 @@
+import { parseHTML } from 'linkedom';
+import { DomElement, DomNode, hasBlockChildren, isElement, tagOf } from './authoring-dom';
+
+/**
+ * Layout facts about a section that only the rendered page knows
+ */
+export interface SectionLayoutHints {
+  /** Headings, paragraphs, list items and images flow in a single column */
+  stacked: boolean;
+  /** The section (or something inside it) has a CSS background image */
+  hasBackgroundImage: boolean;
+}
+
+/** Content that only a block can hold */
+const BLOCK_ONLY_SELECTOR = 'form, input, select, textarea, iframe, video, audio, table, canvas, details, [role="tablist"], [role="tab"], [role="dialog"]';
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const INLINE_TAGS = new Set(['a', 'strong', 'b', 'em', 'i', 'u', 'code', 'sup', 'sub', 'br', 'span', 'small', 'mark', 'abbr', 'time']);
+const KEPT_INLINE_TAGS: Record<string, string> = { strong: 'strong', b: 'strong', em: 'em', i: 'em', code: 'code', sup: 'sup', sub: 'sub', u: 'u' };
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'button']);
+
+/** Max images in a section that is still plain default content */
+const MAX_DEFAULT_CONTENT_IMAGES = 1;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+  return escapeHtml(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize inline content, keeping links and emphasis and dropping presentational wrappers
+ */
+function inlineHtml(node: DomNode): string {
+  if (node.nodeType === 3) {
+    return escapeHtml((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (!isElement(node)) return '';
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '<br>';
+
+  const inner = Array.from(node.childNodes).map(inlineHtml).join('');
+  if (tag === 'a') {
+    const href = node.getAttribute('href');
+    return href ? `<a href="${escapeAttribute(href)}">${inner.trim()}</a>` : inner;
+  }
+  const kept = KEPT_INLINE_TAGS[tag];
+  return kept && inner.trim() ? `<${kept}>${inner}</${kept}>` : inner;
+}
+
+/**
+ * A link authored as a button: EDS decorates a paragraph holding only a link
+ * as a button, `<strong>` for primary and `<em>` for secondary
+ */
+function buttonHtml(link: DomElement): string {
+  const href = link.getAttribute('href') || '';
+  const text = escapeHtml((link.textContent || '').replace(/\s+/g, ' ').trim());
+  const anchor = `<a href="${escapeAttribute(href)}">${text}</a>`;
+  const className = `${link.getAttribute('class') || ''} ${link.getAttribute('role') || ''}`;
+
+  if (/secondary|outline|ghost|tertiary/i.test(className)) return `<p><em>${anchor}</em></p>`;
+  if (/btn|button|cta/i.test(className)) return `<p><strong>${anchor}</strong></p>`;
+  return `<p>${anchor}</p>`;
+}
+
+function pictureHtml(img: DomElement): string {
+  const src = img.getAttribute('src') || '';
+  const alt = img.getAttribute('alt') || '';
+  return `<p><picture><img src="${escapeAttribute(src)}" alt="${escapeAttribute(alt)}"></picture></p>`;
+}
+
+/**
+ * Whether the element holds nothing but one link (possibly wrapped in spans)
+ */
+function soleLink(element: DomElement): DomElement | null {
+  const links = element.querySelectorAll('a[href]');
+  if (links.length !== 1) return null;
+  const linkText = (links[0].textContent || '').trim();
+  return linkText && linkText === (element.textContent || '').trim() ? links[0] as DomElement : null;
+}
+
+function collect(node: DomNode, out: string[]): void {
+  if (node.nodeType === 3) {
+    const text = (node.textContent || '').trim();
+    if (text) out.push(`<p>${escapeHtml(text.replace(/\s+/g, ' '))}</p>`);
+    return;
+  }
+  if (!isElement(node)) return;
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag) || node.getAttribute('aria-hidden') === 'true') return;
+
+  if (HEADING_TAGS.has(tag)) {
+    const inner = Array.from(node.childNodes).map(inlineHtml).join('').trim();
+    if (inner) out.push(`<${tag}>${inner}</${tag}>`);
+    return;
+  }
+
+  if (tag === 'img') {
+    if (node.getAttribute('src')) out.push(pictureHtml(node));
+    return;
+  }
+  if (tag === 'picture') {
+    const img = node.querySelector('img');
+    if (img?.getAttribute('src')) out.push(pictureHtml(img as DomElement));
+    return;
+  }
+
+  if (tag === 'ul' || tag === 'ol') {
+    const items = Array.from(node.children)
+      .filter(child => tagOf(child as DomElement) === 'li')
+      .map(li => Array.from((li as DomElement).childNodes).map(inlineHtml).join('').trim())
+      .filter(Boolean);
+    if (items.length > 0) out.push(`<${tag}>${items.map(item => `<li>${item}</li>`).join('')}</${tag}>`);
+    return;
+  }
+
+  if (tag === 'a') {
+    if (node.getAttribute('href') && (node.textContent || '').trim()) out.push(buttonHtml(node));
+    return;
+  }
+
+  // A paragraph or text-only wrapper: a lone link is a button, anything else a paragraph
+  if (tag === 'p' || tag === 'blockquote' || !hasBlockChildren(node, INLINE_TAGS)) {
+    const link = soleLink(node);
+    if (link) {
+      out.push(buttonHtml(link));
+      return;
+    }
+    const inner = Array.from(node.childNodes).map(inlineHtml).join('').replace(/\s+/g, ' ').trim();
+    if (inner) out.push(`<p>${inner}</p>`);
+    return;
+  }
+
+  for (const child of Array.from(node.childNodes)) {
+    collect(child, out);
+  }
+}
+
+/**
+ * Turn a section that is plain content (headings, paragraphs, lists, buttons and at most
+ * one image in a single column) into EDS default content. Returns null when the section
+ * needs a block: side-by-side layout, a background image, forms, media or tables.
+ */
+export function toDefaultContent(html: string, hints: SectionLayoutHints): string | null {
+  if (!hints.stacked || hints.hasBackgroundImage) return null;
+
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  const root = document.body;
+
+  if (root.querySelector(BLOCK_ONLY_SELECTOR)) return null;
+  if (root.querySelectorAll('img').length > MAX_DEFAULT_CONTENT_IMAGES) return null;
+
+  const out: string[] = [];
+  for (const child of Array.from(root.childNodes)) {
+    collect(child, out);
+  }
+
+  const hasText = out.some(line => !line.startsWith('<p><picture>'));
+  return hasText ? out.join('\n') : null;
+}
@@ -1,4 +1,5 @@
 import { ExtractedBlock } from './content-extractor';
+import { callClaude, imageBlock, textBlock } from './llm-provider';
 
 /**
  * Identified content block from page analysis
@@ -82,69 +83,14 @@ HTML:
 ${simplifiedHtml}
 \`\`\``;
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: prompt, maxTokens: 4096 },
+    { label: 'design-analyzer' }
+  );
 
   try {
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       throw new Error('No JSON found in response');
     }
@@ -156,7 +102,7 @@ ${simplifiedHtml}
       blocks: parsed.blocks || [],
     };
   } catch (parseError) {
-    console.error('Failed to parse page analysis:', textContent.text);
+    console.error('Failed to parse page analysis:', response);
     throw new Error('Failed to parse Claude response');
   }
 }
@@ -236,67 +182,22 @@ export async function nameDetectedBlocks(
 Input blocks:
 ${JSON.stringify(blockSummaries, null, 2)}`;
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 4096,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: prompt, maxTokens: 4096 },
+    { label: 'design-analyzer' }
+  );
 
   try {
     // Extract JSON array from response
-    const jsonMatch = textContent.text.match(/\[[\s\S]*\]/);
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
     if (!jsonMatch) {
       throw new Error('No JSON array found in response');
     }
     const parsed = JSON.parse(jsonMatch[0]) as NamedBlock[];
     return parsed;
   } catch (parseError) {
-    console.error('Failed to parse block naming response:', textContent.text);
+    console.error('Failed to parse block naming response:', response);
 
     // Fall back to basic naming based on content
     return blocks.map((b, i) => ({
@@ -541,6 +442,8 @@ export interface AnthropicConfig {
   bedrockRegion?: string;
   bedrockModel?: string;
   apiKey?: string; // Direct Anthropic API key (fallback)
+  model?: string; // Direct API model (default claude-sonnet-4)
+  fallbackModels?: string[]; // Tried in order when the model is rate limited, overloaded or unavailable
 }
 
 /**
@@ -550,106 +453,22 @@ export async function analyzeDesign(
   screenshotBase64: string,
   config: AnthropicConfig
 ): Promise<DesignTokens> {
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    // Use AWS Bedrock
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: DESIGN_ANALYSIS_PROMPT,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    // Use direct Anthropic API
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: DESIGN_ANALYSIS_PROMPT,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  // Extract the text response
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(DESIGN_ANALYSIS_PROMPT)], maxTokens: 1024 },
+    { label: 'design-analyzer' }
+  );
 
   // Parse the JSON response
   try {
     // Try to extract JSON from the response (in case there's extra text)
-    const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
     if (!jsonMatch) {
       throw new Error('No JSON found in response');
     }
     return JSON.parse(jsonMatch[0]) as DesignTokens;
   } catch (parseError) {
-    console.error('Failed to parse design tokens:', textContent.text);
+    console.error('Failed to parse design tokens:', response);
     // Return empty tokens on parse failure
     return {
       colors: {},
@@ -708,110 +527,29 @@ export async function generateBlockCode(
 ): Promise<GeneratedBlockCode> {
   const prompt = buildCodeGenerationPrompt(extracted);
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 8192,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 8192,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(prompt)], maxTokens: 8192 },
+    { label: 'design-analyzer' }
+  );
 
   // Parse the JSON response
   try {
     // First try to find JSON in a code block
     let jsonStr: string | null = null;
-    const codeBlockMatch = textContent.text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
     if (codeBlockMatch) {
       jsonStr = codeBlockMatch[1].trim();
     } else {
       // Fall back to finding raw JSON object
-      const jsonMatch = textContent.text.match(/\{[\s\S]*"blockName"[\s\S]*"html"[\s\S]*"css"[\s\S]*"js"[\s\S]*\}/);
+      const jsonMatch = response.match(/\{[\s\S]*"blockName"[\s\S]*"html"[\s\S]*"css"[\s\S]*"js"[\s\S]*\}/);
       if (jsonMatch) {
         jsonStr = jsonMatch[0];
       }
     }
 
     if (!jsonStr) {
-      console.error('No valid JSON found. Response excerpt:', textContent.text.substring(0, 1000));
+      console.error('No valid JSON found. Response excerpt:', response.substring(0, 1000));
       throw new Error('No JSON found in response');
     }
 
@@ -825,8 +563,8 @@ export async function generateBlockCode(
 
     return parsed;
   } catch (parseError) {
-    console.error('Failed to parse generated code. Response length:', textContent.text.length);
-    console.error('Response starts with:', textContent.text.substring(0, 200));
+    console.error('Failed to parse generated code. Response length:', response.length);
+    console.error('Response starts with:', response.substring(0, 200));
     throw new Error('Failed to parse Claude response as valid block code');
   }
 }
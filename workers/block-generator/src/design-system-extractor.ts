@@ -15,6 +15,8 @@ import type {
   DownloadedFont,
   Env,
 } from './types';
+import type { AnthropicConfig } from './design-analyzer';
+import { callClaude, imageBlock, textBlock } from './llm-provider';
 
 // =============================================================================
 // Step 1: Browser Extraction (Puppeteer)
@@ -685,7 +687,7 @@ export async function downloadFonts(
  */
 export async function analyzeDesignWithClaude(
   screenshotBase64: string,
-  anthropicConfig: { model: string; apiKey?: string; bedrockToken?: string; region?: string },
+  anthropicConfig: AnthropicConfig,
   env: Env
 ): Promise<Partial<ExtractedDesign>> {
   const prompt = `Analyze this website screenshot and extract the design system. Return ONLY valid JSON matching this exact structure (no markdown, no explanation):
@@ -730,79 +732,11 @@ Instructions:
 6. Estimate layout metrics like max content width and header height`;
 
   try {
-    let response: Response;
-
-    if (anthropicConfig.bedrockToken) {
-      // Use Bedrock
-      const region = anthropicConfig.region || 'us-west-2';
-      response = await fetch(
-        `https://bedrock-runtime.${region}.amazonaws.com/model/${anthropicConfig.model}/invoke`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${anthropicConfig.bedrockToken}`,
-          },
-          body: JSON.stringify({
-            anthropic_version: 'bedrock-2023-05-31',
-            max_tokens: 2000,
-            messages: [{
-              role: 'user',
-              content: [
-                {
-                  type: 'image',
-                  source: {
-                    type: 'base64',
-                    media_type: 'image/png',
-                    data: screenshotBase64,
-                  },
-                },
-                { type: 'text', text: prompt },
-              ],
-            }],
-          }),
-        }
-      );
-    } else if (anthropicConfig.apiKey) {
-      // Use direct Anthropic API
-      response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': anthropicConfig.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: anthropicConfig.model || 'claude-sonnet-4-20250514',
-          max_tokens: 2000,
-          messages: [{
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              { type: 'text', text: prompt },
-            ],
-          }],
-        }),
-      });
-    } else {
-      throw new Error('No Anthropic API key or Bedrock token configured');
-    }
-
-    if (!response.ok) {
-      throw new Error(`Claude API error: ${response.status}`);
-    }
-
-    const data = await response.json() as {
-      content?: Array<{ type: string; text?: string }>;
-    };
-    const text = data.content?.[0]?.text || '';
+    const text = await callClaude(
+      anthropicConfig,
+      { content: [imageBlock(screenshotBase64), textBlock(prompt)], maxTokens: 2000 },
+      { label: 'design-system' }
+    );
 
     // Extract JSON from response (handle potential markdown code blocks)
     let jsonStr = text;
@@ -0,0 +1,222 @@
+import { Browser } from '@cloudflare/puppeteer';
+import { AnthropicConfig } from './design-analyzer';
+import { BoundingBox } from './types';
+import { DetectorName, DetectedSection, getSectionDetector, computeIoU } from './section-detector';
+
+/**
+ * Hand-labeled section on a fixture page
+ */
+export interface LabeledSection {
+  name?: string;
+  type?: string;
+  /** Bounding box in page coordinates at a 1440px wide viewport */
+  boundingBox: BoundingBox;
+}
+
+/**
+ * Saved page with its hand-labeled sections
+ */
+export interface DetectorFixture {
+  id: string;
+  /** URL of the saved page (relative URLs are resolved against the manifest URL) */
+  url: string;
+  sections: LabeledSection[];
+}
+
+/**
+ * Fixture folder manifest (index.json)
+ */
+export interface FixtureManifest {
+  pages: DetectorFixture[];
+}
+
+/**
+ * Scores for one detector on one fixture page
+ */
+export interface FixtureScore {
+  fixtureId: string;
+  predicted: number;
+  labeled: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  meanIoU: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Aggregated scores for one detector over all fixtures
+ */
+export interface DetectorScore {
+  detector: DetectorName;
+  precision: number;
+  recall: number;
+  f1: number;
+  meanIoU: number;
+  avgDurationMs: number;
+  failures: number;
+  fixtures: FixtureScore[];
+}
+
+export interface BenchmarkReport {
+  iouThreshold: number;
+  fixtureCount: number;
+  detectors: DetectorScore[];
+}
+
+/**
+ * Greedily match predicted boxes to labeled boxes by descending IoU.
+ * Each box is used at most once; pairs below the threshold are not matched.
+ */
+export function matchSections(
+  predicted: BoundingBox[],
+  labeled: BoundingBox[],
+  iouThreshold: number
+): Array<{ predicted: number; labeled: number; iou: number }> {
+  const pairs: Array<{ predicted: number; labeled: number; iou: number }> = [];
+  predicted.forEach((p, pi) => {
+    labeled.forEach((l, li) => {
+      const iou = computeIoU(p, l);
+      if (iou >= iouThreshold) {
+        pairs.push({ predicted: pi, labeled: li, iou });
+      }
+    });
+  });
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const usedPredicted = new Set<number>();
+  const usedLabeled = new Set<number>();
+  const matches: typeof pairs = [];
+  for (const pair of pairs) {
+    if (usedPredicted.has(pair.predicted) || usedLabeled.has(pair.labeled)) continue;
+    usedPredicted.add(pair.predicted);
+    usedLabeled.add(pair.labeled);
+    matches.push(pair);
+  }
+  return matches;
+}
+
+/**
+ * Score one detection against a labeled fixture
+ */
+export function scoreFixture(
+  fixture: DetectorFixture,
+  sections: DetectedSection[],
+  iouThreshold: number,
+  durationMs: number
+): FixtureScore {
+  const matches = matchSections(
+    sections.map(s => s.boundingBox),
+    fixture.sections.map(s => s.boundingBox),
+    iouThreshold
+  );
+  const truePositives = matches.length;
+
+  return {
+    fixtureId: fixture.id,
+    predicted: sections.length,
+    labeled: fixture.sections.length,
+    truePositives,
+    precision: sections.length > 0 ? truePositives / sections.length : 0,
+    recall: fixture.sections.length > 0 ? truePositives / fixture.sections.length : 0,
+    meanIoU: truePositives > 0 ? matches.reduce((sum, m) => sum + m.iou, 0) / truePositives : 0,
+    durationMs,
+  };
+}
+
+/**
+ * Aggregate fixture scores (micro-averaged precision/recall)
+ */
+function aggregateScores(detector: DetectorName, fixtures: FixtureScore[]): DetectorScore {
+  const scored = fixtures.filter(f => !f.error);
+  const predicted = scored.reduce((sum, f) => sum + f.predicted, 0);
+  const labeled = scored.reduce((sum, f) => sum + f.labeled, 0);
+  const truePositives = scored.reduce((sum, f) => sum + f.truePositives, 0);
+  const precision = predicted > 0 ? truePositives / predicted : 0;
+  const recall = labeled > 0 ? truePositives / labeled : 0;
+  const iouSum = scored.reduce((sum, f) => sum + f.meanIoU * f.truePositives, 0);
+
+  return {
+    detector,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    meanIoU: truePositives > 0 ? iouSum / truePositives : 0,
+    avgDurationMs: scored.length > 0 ? Math.round(scored.reduce((sum, f) => sum + f.durationMs, 0) / scored.length) : 0,
+    failures: fixtures.length - scored.length,
+    fixtures,
+  };
+}
+
+/**
+ * Load a fixture manifest and resolve page URLs relative to it
+ */
+export async function loadFixtureManifest(manifestUrl: string): Promise<DetectorFixture[]> {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load fixture manifest: ${response.status}`);
+  }
+
+  const manifest = await response.json() as FixtureManifest;
+  if (!Array.isArray(manifest.pages)) {
+    throw new Error('Fixture manifest must contain a "pages" array');
+  }
+
+  return manifest.pages.map(fixture => ({
+    ...fixture,
+    url: new URL(fixture.url, manifestUrl).href,
+  }));
+}
+
+/**
+ * Run each detector against each fixture page and report precision/recall/IoU.
+ * Detectors run sequentially to stay within Browser Rendering session limits.
+ */
+export async function runDetectorBenchmark(
+  browser: Browser,
+  fixtures: DetectorFixture[],
+  detectorNames: DetectorName[],
+  config: AnthropicConfig,
+  iouThreshold: number = 0.5
+): Promise<BenchmarkReport> {
+  const detectors: DetectorScore[] = [];
+
+  for (const name of detectorNames) {
+    const detector = getSectionDetector(name);
+    const fixtureScores: FixtureScore[] = [];
+
+    for (const fixture of fixtures) {
+      console.log(`[benchmark] ${name} on ${fixture.id}...`);
+      const start = Date.now();
+      try {
+        const result = await detector.detect(browser, fixture.url, config);
+        const score = scoreFixture(fixture, result.sections, iouThreshold, result.durationMs);
+        console.log(`[benchmark]   precision=${score.precision.toFixed(2)} recall=${score.recall.toFixed(2)} iou=${score.meanIoU.toFixed(2)}`);
+        fixtureScores.push(score);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[benchmark]   ${name} failed on ${fixture.id}:`, message);
+        fixtureScores.push({
+          fixtureId: fixture.id,
+          predicted: 0,
+          labeled: fixture.sections.length,
+          truePositives: 0,
+          precision: 0,
+          recall: 0,
+          meanIoU: 0,
+          durationMs: Date.now() - start,
+          error: message,
+        });
+      }
+    }
+
+    detectors.push(aggregateScores(name, fixtureScores));
+  }
+
+  return {
+    iouThreshold,
+    fixtureCount: fixtures.length,
+    detectors,
+  };
+}
@@ -0,0 +1,136 @@
+import { BoundingBox } from './types';
+import { DetectorName, DetectedSection, SectionDetectionResult, computeIoU } from './section-detector';
+
+/**
+ * Section produced by merging several detectors' boxes
+ */
+export interface EnsembleSection extends DetectedSection {
+  /** Detectors that proposed an overlapping box */
+  detectors: DetectorName[];
+  /** Number of detectors that voted for this section */
+  votes: number;
+}
+
+export interface EnsembleOptions {
+  /** Minimum IoU for two boxes to count as the same section (default 0.5) */
+  iouThreshold?: number;
+  /**
+   * Minimum number of detectors that must agree (default: majority of the detectors that
+   * succeeded, and at least 2 when two or more ran)
+   */
+  minVotes?: number;
+}
+
+interface Cluster {
+  members: Array<{ detector: DetectorName; section: DetectedSection }>;
+  box: BoundingBox;
+}
+
+/**
+ * Confidence-weighted average of the member boxes
+ */
+function averageBox(members: Cluster['members']): BoundingBox {
+  const weightOf = (m: Cluster['members'][number]) => m.section.confidence || 1;
+  const totalWeight = members.reduce((sum, m) => sum + weightOf(m), 0);
+  const weighted = (pick: (box: BoundingBox) => number) => Math.round(
+    members.reduce((sum, m) => sum + pick(m.section.boundingBox) * weightOf(m), 0) / totalWeight
+  );
+
+  return {
+    x: weighted(b => b.x),
+    y: weighted(b => b.y),
+    width: weighted(b => b.width),
+    height: weighted(b => b.height),
+  };
+}
+
+/**
+ * Most frequent value, ties broken by first occurrence
+ */
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best = values[0];
+  for (const [value, count] of counts) {
+    if (count > (counts.get(best) || 0)) best = value;
+  }
+  return best;
+}
+
+/**
+ * Merge the sections found by several detectors using overlap voting.
+ *
+ * Boxes are clustered greedily (highest confidence first): a box joins the cluster
+ * whose running average box it overlaps most, provided the IoU reaches the threshold
+ * and the cluster has no box from the same detector yet. Clusters backed by fewer
+ * than `minVotes` detectors are dropped. The combined confidence is the members' mean
+ * confidence scaled by the share of detectors that voted for the section, so a section
+ * found by every detector with full confidence scores 1.
+ */
+export function mergeDetections(
+  results: SectionDetectionResult[],
+  options: EnsembleOptions = {}
+): EnsembleSection[] {
+  if (results.length === 0) return [];
+
+  const iouThreshold = options.iouThreshold ?? 0.5;
+  // A single detector's box is not agreement: with two detectors a majority of one would keep everything
+  const minVotes = options.minVotes ?? (results.length >= 2 ? Math.max(2, Math.ceil(results.length / 2)) : 1);
+
+  const candidates = results
+    .flatMap(result => result.sections.map(section => ({ detector: result.detector, section })))
+    .sort((a, b) => b.section.confidence - a.section.confidence);
+
+  const clusters: Cluster[] = [];
+  for (const candidate of candidates) {
+    let bestCluster: Cluster | null = null;
+    let bestIoU = iouThreshold;
+
+    for (const cluster of clusters) {
+      if (cluster.members.some(m => m.detector === candidate.detector)) continue;
+      const iou = computeIoU(cluster.box, candidate.section.boundingBox);
+      if (iou >= bestIoU) {
+        bestIoU = iou;
+        bestCluster = cluster;
+      }
+    }
+
+    if (bestCluster) {
+      bestCluster.members.push(candidate);
+      bestCluster.box = averageBox(bestCluster.members);
+    } else {
+      clusters.push({ members: [candidate], box: candidate.section.boundingBox });
+    }
+  }
+
+  return clusters
+    .filter(cluster => cluster.members.length >= minVotes)
+    .map(cluster => {
+      // Name, description and selector come from the most confident member
+      const lead = cluster.members[0].section;
+      const meanConfidence = cluster.members.reduce((sum, m) => sum + m.section.confidence, 0) / cluster.members.length;
+      const confidence = meanConfidence * (cluster.members.length / results.length);
+      const selector = cluster.members.find(m => m.section.selector)?.section.selector;
+
+      return {
+        name: lead.name,
+        description: lead.description,
+        type: mostCommon(cluster.members.map(m => m.section.type)),
+        priority: lead.priority,
+        boundingBox: cluster.box,
+        selector,
+        confidence: Math.min(1, confidence),
+        detectors: cluster.members.map(m => m.detector),
+        votes: cluster.members.length,
+      };
+    })
+    .sort((a, b) => a.boundingBox.y - b.boundingBox.y);
+}
+
+/**
+ * Detectors used when ensemble mode is requested without an explicit list:
+ * hybrid does best on marketing pages, visual on image-heavy pages
+ */
+export const DEFAULT_ENSEMBLE_DETECTORS: DetectorName[] = ['hybrid', 'visual'];
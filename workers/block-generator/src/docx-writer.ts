@@ -0,0 +1,510 @@
+import {
+  blockRows,
+  childElements,
+  DomElement,
+  DomNode,
+  hasBlockChildren,
+  isBlock,
+  isElement,
+  parsePage,
+  tagOf,
+} from './authoring-dom';
+
+/**
+ * An image embedded in the document
+ */
+interface EmbeddedImage {
+  relationshipId: string;
+  fileName: string;
+  bytes: Uint8Array;
+  contentType: string;
+  /** Size in EMUs (914400 per inch) */
+  cx: number;
+  cy: number;
+}
+
+/**
+ * Relationships, media and list numbering collected while writing document.xml
+ */
+interface DocxParts {
+  hyperlinks: Map<string, string>;
+  images: Map<string, EmbeddedImage>;
+  /** One numbering instance per list: abstract 0 bullets, 1 decimal */
+  lists: Array<{ numId: number; ordered: boolean }>;
+  nextId: number;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'button', 'header', 'footer']);
+const INLINE_TAGS = new Set(['a', 'strong', 'b', 'em', 'i', 'u', 'code', 'sup', 'sub', 'br', 'span', 'small', 'mark', 'abbr', 'time', 'img', 'picture']);
+
+/** Word can only embed these; other formats (webp, avif, svg) become links */
+const EMBEDDABLE_TYPES: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif' };
+
+const EMU_PER_PIXEL = 9525;
+/** Page width between the default margins (6.5in) */
+const MAX_IMAGE_WIDTH_EMU = 5943600;
+/** Table width in twentieths of a point (6.5in) */
+const TABLE_WIDTH_TWIPS = 9360;
+
+/** Images fetched at once */
+const IMAGE_CONCURRENCY = 4;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Pixel size from the PNG, GIF or JPEG header
+ */
+function imageSize(bytes: Uint8Array, contentType: string): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (contentType === 'image/png' && bytes.length >= 24) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (contentType === 'image/gif' && bytes.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (contentType === 'image/jpeg') {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      // Start-of-frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return null;
+}
+
+async function fetchImage(src: string, parts: DocxParts): Promise<void> {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Failed to download ${src}: ${response.status}`);
+
+  const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+  const extension = EMBEDDABLE_TYPES[contentType];
+  if (!extension) return;
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const size = imageSize(bytes, contentType);
+  if (!size || size.width === 0 || size.height === 0) return;
+
+  const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (size.width * EMU_PER_PIXEL));
+  const id = parts.nextId++;
+  parts.images.set(src, {
+    relationshipId: `rId${id}`,
+    fileName: `image${id}.${extension}`,
+    bytes,
+    contentType,
+    cx: Math.round(size.width * EMU_PER_PIXEL * scale),
+    cy: Math.round(size.height * EMU_PER_PIXEL * scale),
+  });
+}
+
+async function embedImages(root: DomElement, parts: DocxParts): Promise<void> {
+  const sources = Array.from(new Set(
+    (Array.from(root.querySelectorAll('img')) as DomElement[])
+      .map(img => img.getAttribute('src') || '')
+      .filter(src => /^https?:\/\//.test(src))
+  ));
+
+  for (let i = 0; i < sources.length; i += IMAGE_CONCURRENCY) {
+    const results = await Promise.allSettled(sources.slice(i, i + IMAGE_CONCURRENCY).map(src => fetchImage(src, parts)));
+    results.forEach((result, j) => {
+      if (result.status === 'rejected') {
+        console.warn(`DOCX: image not embedded, linking it instead: ${sources[i + j]}`, result.reason);
+      }
+    });
+  }
+}
+
+function textRun(text: string, style: RunStyle, hyperlink = false): string {
+  const properties = [
+    hyperlink ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.code ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>' : '',
+  ].join('');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function hyperlinkXml(href: string, runs: string, parts: DocxParts): string {
+  let relationshipId = parts.hyperlinks.get(href);
+  if (!relationshipId) {
+    relationshipId = `rId${parts.nextId++}`;
+    parts.hyperlinks.set(href, relationshipId);
+  }
+  return `<w:hyperlink r:id="${relationshipId}">${runs}</w:hyperlink>`;
+}
+
+function imageRun(img: DomElement, parts: DocxParts, inHyperlink: boolean): string {
+  const src = img.getAttribute('src') || '';
+  const alt = img.getAttribute('alt') || '';
+  const image = parts.images.get(src);
+  if (!image) {
+    // Not embeddable: keep a link to the image so nothing is lost
+    if (!src) return '';
+    return inHyperlink ? textRun(alt || src, {}, true) : hyperlinkXml(src, textRun(alt || src, {}, true), parts);
+  }
+
+  const id = Number(image.relationshipId.slice(3));
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+    + `<wp:extent cx="${image.cx}" cy="${image.cy}"/>`
+    + `<wp:docPr id="${id}" name="${image.fileName}" descr="${escapeXml(alt)}"/>`
+    + `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">`
+    + `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:nvPicPr><pic:cNvPr id="${id}" name="${image.fileName}" descr="${escapeXml(alt)}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="${image.relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${image.cx}" cy="${image.cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+/**
+ * Runs for inline content: text, emphasis, links, images and line breaks
+ */
+function inlineRuns(node: DomNode, style: RunStyle, parts: DocxParts, hyperlink = false): string {
+  if (node.nodeType === 3) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    return text ? textRun(text, style, hyperlink) : '';
+  }
+  if (!isElement(node)) return '';
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '<w:r><w:br/></w:r>';
+  if (tag === 'img') return imageRun(node, parts, hyperlink);
+  if (tag === 'picture') {
+    const img = node.querySelector('img');
+    return img ? imageRun(img as DomElement, parts, hyperlink) : '';
+  }
+
+  const childStyle: RunStyle = {
+    ...style,
+    ...((tag === 'strong' || tag === 'b') && { bold: true }),
+    ...((tag === 'em' || tag === 'i') && { italic: true }),
+    ...(tag === 'code' && { code: true }),
+  };
+  const href = tag === 'a' ? node.getAttribute('href') : null;
+  const runs = Array.from(node.childNodes).map(child => inlineRuns(child, childStyle, parts, hyperlink || Boolean(href))).join('');
+  return href && !hyperlink ? hyperlinkXml(href, runs, parts) : runs;
+}
+
+function paragraph(runs: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function inlineParagraph(element: DomElement, parts: DocxParts, properties = ''): string | null {
+  // Leading/trailing whitespace runs are dropped like a browser would
+  const runs = Array.from(element.childNodes).map(child => inlineRuns(child, {}, parts)).join('');
+  return (element.textContent || '').trim() || element.querySelector('img') ? paragraph(runs, properties) : null;
+}
+
+function listParagraphs(list: DomElement, level: number, parts: DocxParts, numId?: number): string[] {
+  const ordered = tagOf(list) === 'ol';
+  const id = numId ?? parts.lists.length + 1;
+  if (numId === undefined) parts.lists.push({ numId: id, ordered });
+
+  const out: string[] = [];
+  for (const li of childElements(list).filter(child => tagOf(child) === 'li')) {
+    const runs = Array.from(li.childNodes)
+      .filter(child => !(isElement(child) && ['ul', 'ol'].includes(tagOf(child))))
+      .map(child => (isElement(child) && tagOf(child) === 'p'
+        ? Array.from(child.childNodes).map(grandchild => inlineRuns(grandchild, {}, parts)).join('')
+        : inlineRuns(child, {}, parts)))
+      .join('');
+    out.push(paragraph(runs, `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${id}"/></w:numPr>`));
+
+    for (const nested of childElements(li).filter(child => ['ul', 'ol'].includes(tagOf(child)))) {
+      // Nested lists of the same kind continue the parent numbering one level down
+      out.push(...listParagraphs(nested, level + 1, parts, tagOf(nested) === tagOf(list) ? id : undefined));
+    }
+  }
+  return out;
+}
+
+/**
+ * Body XML for a run of content. Blocks are only recognized directly in a section:
+ * inside a cell, source-site wrapper divs are content.
+ */
+function contentXml(nodes: DomNode[], parts: DocxParts, sectionLevel = false): string[] {
+  const out: string[] = [];
+  // Text and inline elements between block-level elements form one paragraph
+  let inline: DomNode[] = [];
+  const flushInline = () => {
+    const visible = inline.some(node => (node.textContent || '').trim()
+      || (isElement(node) && (['img', 'picture'].includes(tagOf(node)) || node.querySelector('img'))));
+    if (visible) out.push(paragraph(inline.map(node => inlineRuns(node, {}, parts)).join('')));
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.nodeType === 3 || (isElement(node) && INLINE_TAGS.has(tagOf(node)))) {
+      inline.push(node);
+      continue;
+    }
+    if (!isElement(node)) continue;
+
+    const tag = tagOf(node);
+    if (SKIPPED_TAGS.has(tag)) continue;
+    flushInline();
+
+    if (sectionLevel && isBlock(node)) {
+      out.push(blockTableXml(node, parts), paragraph(''));
+    } else if (HEADING_TAGS.has(tag)) {
+      const heading = inlineParagraph(node, parts, `<w:pStyle w:val="Heading${tag[1]}"/>`);
+      if (heading) out.push(heading);
+    } else if (tag === 'ul' || tag === 'ol') {
+      out.push(...listParagraphs(node, 0, parts));
+    } else if (tag === 'tr' || tag === 'tbody' || tag === 'thead') {
+      out.push(...contentXml(Array.from(node.childNodes), parts));
+    } else if (tag === 'p' || tag === 'blockquote' || tag === 'pre' || !hasBlockChildren(node, INLINE_TAGS)) {
+      const content = inlineParagraph(node, parts);
+      if (content) out.push(content);
+    } else {
+      out.push(...contentXml(Array.from(node.childNodes), parts));
+    }
+  }
+  flushInline();
+
+  return out;
+}
+
+function cellXml(content: string[], width: number, span: number, shaded = false): string {
+  const properties = `<w:tcW w:w="${width}" w:type="dxa"/>${span > 1 ? `<w:gridSpan w:val="${span}"/>` : ''}`
+    + (shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="D9D9D9"/>' : '');
+  // Every cell needs at least one paragraph
+  return `<w:tc><w:tcPr>${properties}</w:tcPr>${content.length > 0 ? content.join('') : paragraph('')}</w:tc>`;
+}
+
+/**
+ * A block as a Word table: a header row spanning all columns with the block name
+ * (how blocks are authored in Word), then one table row per block row. Rows with
+ * fewer cells span their last cell over the remaining columns.
+ */
+function blockTableXml(block: DomElement, parts: DocxParts): string {
+  const { title, rows } = blockRows(block, cell => cell);
+  const columnCount = Math.max(1, ...rows.map(row => row.length));
+  const columnWidth = Math.floor(TABLE_WIDTH_TWIPS / columnCount);
+
+  const header = `<w:tr>${cellXml([paragraph(textRun(title, { bold: true }))], columnWidth * columnCount, columnCount, true)}</w:tr>`;
+  const body = rows.map((row) => {
+    const cells = (row.length > 0 ? row : []).map((cell, column) => {
+      const span = column === row.length - 1 ? columnCount - column : 1;
+      return cellXml(contentXml(Array.from(cell.childNodes), parts), columnWidth * span, span);
+    });
+    return `<w:tr>${cells.length > 0 ? cells.join('') : cellXml([], columnWidth * columnCount, columnCount)}</w:tr>`;
+  });
+
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`).join('');
+  const grid = Array.from({ length: columnCount }, () => `<w:gridCol w:w="${columnWidth}"/>`).join('');
+
+  return `<w:tbl><w:tblPr><w:tblW w:w="${TABLE_WIDTH_TWIPS}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>`
+    + `<w:tblGrid>${grid}</w:tblGrid>${header}${body.join('')}</w:tbl>`;
+}
+
+function documentXml(sections: DomElement[], parts: DocxParts): string {
+  // Sections are separated by a "---" paragraph, as authored in Word
+  const body = sections
+    .map(section => contentXml(Array.from(section.childNodes), parts, true))
+    .filter(content => content.length > 0)
+    .map(content => content.join(''))
+    .join(paragraph(textRun('---', {})));
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">`
+    + `<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+function stylesXml(): string {
+  const headingSizes = [32, 28, 26, 24, 22, 22];
+  const headings = headingSizes.map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}">`
+    + `<w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+    + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr>`
+    + `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="160"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + headings
+    + '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr></w:style>'
+    + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>'
+    + '</w:styles>';
+}
+
+function numberingXml(parts: DocxParts): string {
+  const levels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) => `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>`
+    + (ordered
+      ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>`
+      : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${level % 2 === 0 ? '•' : '◦'}"/>`)
+    + `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`).join('');
+
+  const abstracts = [false, true].map((ordered, id) => `<w:abstractNum w:abstractNumId="${id}">${levels(ordered)}</w:abstractNum>`).join('');
+  // Each ordered list restarts at 1
+  const nums = parts.lists.map(list => `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>`
+    + (list.ordered ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>' : '')
+    + '</w:num>').join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${abstracts}${nums}</w:numbering>`;
+}
+
+function documentRelationshipsXml(parts: DocxParts): string {
+  const type = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const relationships = [
+    `<Relationship Id="rId1" Type="${type}/styles" Target="styles.xml"/>`,
+    `<Relationship Id="rId2" Type="${type}/numbering" Target="numbering.xml"/>`,
+    ...Array.from(parts.images.values()).map(image => `<Relationship Id="${image.relationshipId}" Type="${type}/image" Target="media/${image.fileName}"/>`),
+    ...Array.from(parts.hyperlinks.entries()).map(([href, id]) => `<Relationship Id="${id}" Type="${type}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join('')}</Relationships>`;
+}
+
+function contentTypesXml(parts: DocxParts): string {
+  const imageDefaults = Array.from(new Set(Array.from(parts.images.values()).map(image => `${image.fileName.split('.').pop()}|${image.contentType}`)))
+    .map((entry) => {
+      const [extension, contentType] = entry.split('|');
+      return `<Default Extension="${extension}" ContentType="${contentType}"/>`;
+    });
+  const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + imageDefaults.join('')
+    + `<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/>`
+    + `<Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/>`
+    + `<Override PartName="/word/numbering.xml" ContentType="${main}.numbering+xml"/>`
+    + '</Types>';
+}
+
+const ROOT_RELATIONSHIPS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+  + '</Relationships>';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Deflated ZIP archive of the given files
+ */
+async function zip(files: Array<{ name: string; bytes: Uint8Array }>): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const compressed = await deflateRaw(file.bytes);
+    const crc = crc32(file.bytes);
+
+    // Version 2.0, deflate, DOS date 1980-01-01
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, 8, true);
+    local.setUint16(12, 0x21, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, file.bytes.length, true);
+    local.setUint16(26, name.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(10, 8, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, compressed.length, true);
+    entry.setUint32(24, file.bytes.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, compressed);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const archive = new ArrayBuffer(all.reduce((sum, chunk) => sum + chunk.length, 0));
+  const out = new Uint8Array(archive);
+  let position = 0;
+  for (const chunk of all) {
+    out.set(chunk, position);
+    position += chunk.length;
+  }
+  return archive;
+}
+
+/**
+ * Write a DA page (the HTML handleComposePage pushes) as a Word document for
+ * SharePoint authoring: headings and text as Word paragraphs, images embedded,
+ * blocks (metadata included) as tables with the block name header row, and
+ * sections separated by "---" paragraphs
+ */
+export async function writeDocx(html: string): Promise<ArrayBuffer> {
+  const document = parsePage(html);
+  const root = document.body as unknown as DomElement;
+  const main = document.querySelector('main') as DomElement | null;
+  const sections = main ? childElements(main).filter(child => tagOf(child) === 'div') : [root];
+
+  // Relationship ids 1 and 2 are styles and numbering
+  const parts: DocxParts = { hyperlinks: new Map(), images: new Map(), lists: [], nextId: 3 };
+  await embedImages(main || root, parts);
+
+  const encoder = new TextEncoder();
+  const body = documentXml(sections, parts);
+
+  return zip([
+    { name: '[Content_Types].xml', bytes: encoder.encode(contentTypesXml(parts)) },
+    { name: '_rels/.rels', bytes: encoder.encode(ROOT_RELATIONSHIPS_XML) },
+    { name: 'word/document.xml', bytes: encoder.encode(body) },
+    { name: 'word/styles.xml', bytes: encoder.encode(stylesXml()) },
+    { name: 'word/numbering.xml', bytes: encoder.encode(numberingXml(parts)) },
+    { name: 'word/_rels/document.xml.rels', bytes: encoder.encode(documentRelationshipsXml(parts)) },
+    ...Array.from(parts.images.values()).map(image => ({ name: `word/media/${image.fileName}`, bytes: image.bytes })),
+  ]);
+}
@@ -0,0 +1,447 @@
+import { Browser, HTTPRequest } from '@cloudflare/puppeteer';
+import { baseBranchOf } from './block-library';
+import { GitHubConfig, RenderDiagnostics } from './types';
+
+/**
+ * Virtual origin the simulated site is served from. Requests to it are answered
+ * by request interception and never leave the browser.
+ */
+const PREVIEW_ORIGIN = 'https://eds-preview.localhost';
+
+/**
+ * A file of the simulated site (repo file or candidate block file)
+ */
+export interface EdsFile {
+  body: string | Uint8Array;
+  contentType?: string;
+}
+
+/**
+ * Where the simulator loads site files from (path without leading slash, e.g. "scripts/aem.js")
+ */
+export interface EdsSiteSource {
+  loadFile(path: string): Promise<EdsFile | null>;
+}
+
+/**
+ * Candidate block files served in place of the repo's copy
+ */
+export interface EdsBlockFiles {
+  blockName: string;
+  css: string;
+  js: string;
+}
+
+export interface EdsPreviewOptions {
+  viewport?: { width: number; height: number };
+  /** Screenshot the whole decorated <main> instead of the viewport (default true) */
+  fullPage?: boolean;
+  /** How long to wait for blocks to finish loading (default 15000) */
+  timeoutMs?: number;
+}
+
+export interface EdsPreviewResult {
+  screenshot: string; // base64 PNG
+  diagnostics: RenderDiagnostics;
+  /** Whether every block reached data-block-status="loaded" before the timeout */
+  blocksLoaded: boolean;
+  /** Site paths the page requested that the source did not have */
+  missingFiles: string[];
+  /** Decorated <main> HTML, as EDS produced it */
+  decoratedHtml: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  css: 'text/css',
+  json: 'application/json',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+};
+
+function contentTypeFor(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() || '';
+  return CONTENT_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Load site files from a GitHub repo branch: through the contents API when a token
+ * is available, otherwise from raw.githubusercontent.com (public repos).
+ * Files are cached for the lifetime of the source.
+ */
+export function createGitHubSiteSource(github: GitHubConfig): EdsSiteSource {
+  const branch = baseBranchOf(github);
+  const cache = new Map<string, Promise<EdsFile | null>>();
+
+  const load = async (path: string): Promise<EdsFile | null> => {
+    const response = github.token
+      ? await fetch(`https://api.github.com/repos/${github.owner}/${github.repo}/contents/${path}?ref=${encodeURIComponent(branch)}`, {
+        headers: {
+          'Accept': 'application/vnd.github.raw',
+          'Authorization': `Bearer ${github.token}`,
+          'X-GitHub-Api-Version': '2022-11-28',
+          'User-Agent': 'AEM-Block-Generator-Worker',
+        },
+      })
+      : await fetch(`https://raw.githubusercontent.com/${github.owner}/${github.repo}/${encodeURIComponent(branch)}/${path}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      console.warn(`  EDS simulator: failed to load ${path}: ${response.status}`);
+      return null;
+    }
+
+    return { body: new Uint8Array(await response.arrayBuffer()), contentType: contentTypeFor(path) };
+  };
+
+  return {
+    loadFile(path: string) {
+      if (!cache.has(path)) cache.set(path, load(path));
+      return cache.get(path)!;
+    },
+  };
+}
+
+/**
+ * Layer the candidate block (and any extra files) over a site source
+ */
+export function withBlockFiles(
+  source: EdsSiteSource,
+  block: EdsBlockFiles,
+  overrides: Record<string, string> = {}
+): EdsSiteSource {
+  const files: Record<string, string> = {
+    ...overrides,
+    [`blocks/${block.blockName}/${block.blockName}.js`]: block.js,
+    [`blocks/${block.blockName}/${block.blockName}.css`]: block.css,
+  };
+
+  return {
+    async loadFile(path: string) {
+      const override = files[path];
+      if (override !== undefined) {
+        return { body: override, contentType: contentTypeFor(path) };
+      }
+      return source.loadFile(path);
+    },
+  };
+}
+
+/**
+ * EDS runtime for rendering a block without its site: scripts/aem.js with the boilerplate's
+ * exports (simplified bodies, images keep their full URL so external sources still render),
+ * a scripts.js that decorates and loads the blocks in <main>, and a reset styles.css
+ */
+const STANDALONE_SITE_FILES: Record<string, string> = {
+  'scripts/aem.js': `
+export function toClassName(name) {
+  return typeof name === 'string'
+    ? name.toLowerCase().replace(/[^0-9a-z]/gi, '-').replace(/-+/g, '-').replace(/^-|-$/g, '')
+    : '';
+}
+export function toCamelCase(name) {
+  return toClassName(name).replace(/-([a-z])/g, (g) => g[1].toUpperCase());
+}
+export function readBlockConfig(block) {
+  const config = {};
+  block.querySelectorAll(':scope > div').forEach((row) => {
+    const cols = [...row.children];
+    if (cols[1]) {
+      const links = [...cols[1].querySelectorAll('a')];
+      const images = [...cols[1].querySelectorAll('img')];
+      let value = cols[1].textContent;
+      if (links.length) value = links.length === 1 ? links[0].href : links.map((a) => a.href);
+      else if (images.length) value = images.length === 1 ? images[0].src : images.map((img) => img.src);
+      config[toClassName(cols[0].textContent)] = value;
+    }
+  });
+  return config;
+}
+export function getMetadata(name, doc = document) {
+  const attr = name && name.includes(':') ? 'property' : 'name';
+  return [...doc.head.querySelectorAll(\`meta[\${attr}="\${name}"]\`)].map((m) => m.content).join(', ');
+}
+export function createOptimizedPicture(src, alt = '', eager = false) {
+  const picture = document.createElement('picture');
+  const img = document.createElement('img');
+  img.setAttribute('loading', eager ? 'eager' : 'lazy');
+  img.setAttribute('alt', alt);
+  img.setAttribute('src', src);
+  picture.append(img);
+  return picture;
+}
+export function decorateIcons(element) {
+  element.querySelectorAll('span.icon').forEach((span) => {
+    const name = [...span.classList].find((c) => c.startsWith('icon-'));
+    if (!name || span.querySelector('img')) return;
+    const img = document.createElement('img');
+    img.dataset.iconName = name.substring(5);
+    img.alt = '';
+    img.width = 16;
+    img.height = 16;
+    span.append(img);
+  });
+}
+export async function loadCSS(href) {
+  if (document.querySelector(\`head > link[href="\${href}"]\`)) return;
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = href;
+  document.head.append(link);
+}
+export async function loadScript(src, attrs = {}) {
+  const script = document.createElement('script');
+  script.src = src;
+  Object.entries(attrs).forEach(([key, value]) => script.setAttribute(key, value));
+  document.head.append(script);
+}
+export function buildBlock(blockName, content) {
+  const block = document.createElement('div');
+  block.classList.add(blockName);
+  (Array.isArray(content) ? content : [[content]]).forEach((row) => {
+    const rowEl = document.createElement('div');
+    row.forEach((col) => {
+      const colEl = document.createElement('div');
+      (Array.isArray(col) ? col : [col]).forEach((item) => {
+        if (item) colEl.append(item);
+      });
+      rowEl.append(colEl);
+    });
+    block.append(rowEl);
+  });
+  return block;
+}
+export function wrapTextNodes() {}
+export function decorateButtons() {}
+export function decorateSections(main) {
+  main.querySelectorAll(':scope > div:not([data-section-status])').forEach((section) => {
+    [...section.children].forEach((child) => {
+      const wrapper = document.createElement('div');
+      if (child.tagName !== 'DIV' || !child.className) wrapper.classList.add('default-content-wrapper');
+      child.before(wrapper);
+      wrapper.append(child);
+    });
+    section.classList.add('section');
+    section.dataset.sectionStatus = 'initialized';
+  });
+}
+export function decorateBlock(block) {
+  const blockName = block.classList[0];
+  if (!blockName || block.classList.contains('block')) return;
+  block.classList.add('block');
+  block.dataset.blockName = blockName;
+  block.dataset.blockStatus = 'initialized';
+  block.parentElement.classList.add(\`\${blockName}-wrapper\`);
+  block.closest('.section')?.classList.add(\`\${blockName}-container\`);
+}
+export function decorateBlocks(main) {
+  main.querySelectorAll('div.section > div > div').forEach(decorateBlock);
+}
+export function decorateTemplateAndTheme() {}
+export async function loadBlock(block) {
+  const { blockName, blockStatus } = block.dataset;
+  if (!blockName || blockStatus === 'loading' || blockStatus === 'loaded') return block;
+  block.dataset.blockStatus = 'loading';
+  try {
+    await loadCSS(\`/blocks/\${blockName}/\${blockName}.css\`);
+    const mod = await import(\`/blocks/\${blockName}/\${blockName}.js\`);
+    if (mod.default) await mod.default(block);
+  } catch (error) {
+    // Logged as text: an Error argument reaches the console listener only as a handle
+    console.error(\`failed to load module for \${blockName}: \${error && error.stack ? error.stack : error}\`);
+  }
+  block.dataset.blockStatus = 'loaded';
+  return block;
+}
+export async function loadSection(section) {
+  for (const block of section.querySelectorAll('div.block')) {
+    await loadBlock(block);
+  }
+  section.dataset.sectionStatus = 'loaded';
+}
+export async function loadSections(element) {
+  for (const section of element.querySelectorAll('div.section')) {
+    await loadSection(section);
+  }
+}
+export async function loadHeader() {}
+export async function loadFooter() {}
+export async function waitForFirstImage() {}
+export function sampleRUM() {}
+sampleRUM.enhance = () => {};
+export function setup() {}
+`,
+  'scripts/scripts.js': `import { decorateBlocks, decorateSections, loadSections } from './aem.js';
+
+const main = document.querySelector('main');
+decorateSections(main);
+decorateBlocks(main);
+document.body.classList.add('appear');
+loadSections(main);
+`,
+  'styles/styles.css': `* { margin: 0; padding: 0; box-sizing: border-box; }
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+`,
+};
+
+/**
+ * Site source serving the standalone EDS runtime, for blocks rendered without a repo
+ */
+export function createStandaloneSiteSource(): EdsSiteSource {
+  return {
+    async loadFile(path: string) {
+      const body = STANDALONE_SITE_FILES[path];
+      return body === undefined ? null : { body, contentType: contentTypeFor(path) };
+    },
+  };
+}
+
+/**
+ * Build the page aem.page would serve for the authoring HTML: the boilerplate head
+ * (aem.js, scripts.js, styles.css) and the sections inside <main>.
+ * Accepts a full page, a <main>, or bare block markup (wrapped in one section).
+ */
+export function buildEdsPageHtml(authoringHtml: string): string {
+  let mainContent = authoringHtml;
+  const main = authoringHtml.match(/<main[^>]*>([\s\S]*)<\/main>/i);
+  const body = authoringHtml.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  if (main) {
+    mainContent = main[1];
+  } else if (body) {
+    mainContent = body[1].replace(/<header[\s\S]*?<\/header>|<footer[\s\S]*?<\/footer>/gi, '');
+  } else if (!/^\s*<div>\s*<div class=/i.test(authoringHtml)) {
+    mainContent = `<div>\n${authoringHtml}\n</div>`;
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>EDS Preview</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <script src="/scripts/aem.js" type="module"></script>
+  <script src="/scripts/scripts.js" type="module"></script>
+  <link rel="stylesheet" href="/styles/styles.css">
+</head>
+<body>
+  <header></header>
+  <main>
+${mainContent}
+  </main>
+  <footer></footer>
+</body>
+</html>`;
+}
+
+/**
+ * Render authoring HTML through the site's own EDS decoration pipeline
+ * (scripts/aem.js + scripts/scripts.js + block files) in the headless browser,
+ * without pushing a branch, creating a DA page or waiting for aem.page.
+ */
+export async function renderEdsPreview(
+  browser: Browser,
+  source: EdsSiteSource,
+  authoringHtml: string,
+  options: EdsPreviewOptions = {}
+): Promise<EdsPreviewResult> {
+  const viewport = options.viewport || { width: 1440, height: 900 };
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const pageHtml = buildEdsPageHtml(authoringHtml);
+
+  const diagnostics: RenderDiagnostics = { pageErrors: [], consoleErrors: [], failedRequests: [] };
+  const missingFiles: string[] = [];
+
+  const page = await browser.newPage();
+  try {
+    await page.setViewport(viewport);
+    await page.setRequestInterception(true);
+
+    page.on('pageerror', (error) => {
+      diagnostics.pageErrors.push(error instanceof Error ? error.message : String(error));
+    });
+    page.on('console', (message) => {
+      if (message.type() === 'error' && !message.text().startsWith('Failed to load resource')) {
+        diagnostics.consoleErrors.push(message.text());
+      }
+    });
+    page.on('requestfailed', (request) => {
+      diagnostics.failedRequests.push({ url: request.url(), reason: request.failure()?.errorText || 'failed' });
+    });
+
+    page.on('request', (request: HTTPRequest) => {
+      const url = new URL(request.url());
+      if (url.origin !== PREVIEW_ORIGIN) {
+        // Images, fonts and other external resources load normally
+        request.continue();
+        return;
+      }
+
+      const path = decodeURIComponent(url.pathname).replace(/^\/+/, '');
+      if (path === '' || path === 'index.html') {
+        request.respond({ status: 200, contentType: 'text/html', body: pageHtml });
+        return;
+      }
+
+      source.loadFile(path)
+        .then((file) => {
+          if (!file) {
+            missingFiles.push(path);
+            return request.respond({ status: 404, contentType: 'text/plain', body: 'Not found' });
+          }
+          return request.respond({
+            status: 200,
+            contentType: file.contentType || contentTypeFor(path),
+            body: typeof file.body === 'string' ? file.body : Buffer.from(file.body),
+          });
+        })
+        .catch((error) => {
+          console.warn(`  EDS simulator: error serving ${path}:`, error);
+          return request.respond({ status: 500, contentType: 'text/plain', body: 'Error' });
+        });
+    });
+
+    await page.goto(`${PREVIEW_ORIGIN}/`, { waitUntil: 'networkidle0', timeout: 30000 });
+
+    // EDS marks each block loaded once its CSS and decorate() have run
+    const blocksLoaded = await page.waitForFunction(() => {
+      const blocks = Array.from(document.querySelectorAll('main .block'));
+      return document.body.classList.contains('appear')
+        && blocks.every(block => block.getAttribute('data-block-status') === 'loaded');
+    }, { timeout: timeoutMs })
+      .then(() => true)
+      .catch(() => {
+        console.warn('  EDS simulator: blocks did not finish loading before the timeout');
+        return false;
+      });
+
+    // Let images and transitions settle
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const decoratedHtml = await page.evaluate(() => document.querySelector('main')?.innerHTML || '');
+
+    const main = options.fullPage === false ? null : await page.$('main');
+    const screenshotBuffer = main
+      ? await main.screenshot({ type: 'png' }) as Buffer
+      : await page.screenshot({ type: 'png' }) as Buffer;
+
+    return {
+      screenshot: Buffer.from(screenshotBuffer).toString('base64'),
+      diagnostics,
+      blocksLoaded,
+      missingFiles,
+      decoratedHtml,
+    };
+  } finally {
+    await page.close();
+  }
+}
@@ -1,5 +1,7 @@
 import { parseHTML } from 'linkedom';
 import { AnthropicConfig } from './design-analyzer';
+import { callClaude, ClaudeContentBlock, imageBlock, textBlock } from './llm-provider';
+import { ReferenceBlock, ReferenceBlockSource, findReferenceBlocks } from './reference-blocks';
 
 /**
  * Detailed component description from Claude
@@ -41,6 +43,8 @@ export interface EnhancedBlockCode {
   css: string;
   js: string;
   description: ComponentDescription;
+  /** Corpus blocks given to Claude as examples */
+  references?: Array<{ blockName: string; qualityTier: string; siteId: string }>;
 }
 
 /**
@@ -241,7 +245,11 @@ Return as JSON:
 
 Return ONLY the JSON object.`;
 
-  const response = await callClaude(screenshotBase64, prompt, config, imageMediaType);
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64, imageMediaType), textBlock(prompt)], maxTokens: 4096 },
+    { label: 'enhanced-generator' }
+  );
 
   // Clean up response - remove markdown code fences if present
   let cleanedResponse = response
@@ -707,7 +715,9 @@ export async function generateCodeEnhanced(
   extractedContent: ExtractedContent,
   config: AnthropicConfig,
   extractedCssStyles?: string,
-  imageMediaType: 'image/png' | 'image/jpeg' = 'image/png'
+  imageMediaType: 'image/png' | 'image/jpeg' = 'image/png',
+  viewportImages: ViewportImage[] = [],
+  references: ReferenceBlock[] = []
 ): Promise<EnhancedBlockCode> {
   // Build numbered image reference list - Claude will use these by index
   const imageRefList = extractedContent.images.length > 0
@@ -777,6 +787,37 @@ ${extractedCssStyles}
 - DO NOT guess colors from the screenshot - screenshots can have color inaccuracies.
 - If a button shows background-color: #133C8F above, use EXACTLY #133C8F in your CSS.
 - These extracted values are authoritative - they override any visual interpretation.
+` : '';
+
+  // Responsive screenshots follow the main (desktop) screenshot as extra images
+  const responsiveSection = viewportImages.length > 0 ? `
+## RESPONSIVE LAYOUT (MANDATORY)
+The first image is the DESKTOP layout (1440px). The following images show the SAME component at narrower widths:
+${viewportImages.map(v => `- ${v.name.toUpperCase()} (${v.width}px viewport)`).join('\n')}
+
+Write MOBILE-FIRST CSS:
+- Base styles (no media query) must reproduce the mobile screenshot
+- Use EDS breakpoints only: @media (width >= 600px) for tablet, @media (width >= 900px) for desktop
+- Match how columns stack, how images resize and how font sizes change at each width
+- Nothing may overflow horizontally or collapse to an unreadable width below 600px
+` : '';
+
+  // Production blocks of the same type: show how real sites structure decorate()
+  const referenceSection = references.length > 0 ? `
+## REFERENCE BLOCKS FROM PRODUCTION EDS SITES
+These ${description.componentType} blocks are rated ${[...new Set(references.map(r => r.qualityTier))].join('/')} in a corpus of real EDS sites.
+Follow their decorate() patterns (row/cell handling, DOM construction, accessibility, interaction code) where they fit this component.
+DO NOT copy their class names, content or styling - the screenshot and extracted values above define the design.
+
+${references.map((ref, i) => `### Reference ${i + 1}: ${ref.blockName}${ref.variant ? ` (${ref.variant})` : ''} - ${ref.qualityTier}, score ${ref.qualityScore}
+Authored markup:
+\`\`\`html
+${ref.html.substring(0, 1500)}
+\`\`\`
+decorate():
+\`\`\`js
+${ref.js.substring(0, 3000)}
+\`\`\``).join('\n\n')}
 ` : '';
 
   const prompt = `Generate an AEM Edge Delivery Services (EDS) block that recreates this component.
@@ -785,6 +826,8 @@ ${structureSummary}
 
 ${contentSummary}
 ${cssSection}
+${responsiveSection}
+${referenceSection}
 ## EDS Block Requirements
 
 HTML structure - ONE ROW = ONE ITEM (card, slide, etc.):
@@ -895,7 +938,15 @@ Return JSON:
 
 Return ONLY the JSON object.`;
 
-  const response = await callClaude(screenshotBase64, prompt, config, imageMediaType, 8192);
+  // Primary screenshot first, then the labeled viewport layouts, then the prompt
+  const content: ClaudeContentBlock[] = [imageBlock(screenshotBase64, imageMediaType)];
+  for (const viewport of viewportImages) {
+    content.push(textBlock(`${viewport.name.toUpperCase()} layout (${viewport.width}px viewport)`));
+    content.push(imageBlock(viewport.data, viewport.mediaType));
+  }
+  content.push(textBlock(prompt));
+
+  const response = await callClaude(config, { content, maxTokens: 8192 }, { label: 'enhanced-generator' });
 
   try {
     // Use resilient parsing with multiple fallback strategies
@@ -916,6 +967,7 @@ Return ONLY the JSON object.`;
       css: parsed.css || '',
       js: parsed.js || '',
       description,
+      references: references.map(ref => ({ blockName: ref.blockName, qualityTier: ref.qualityTier, siteId: ref.siteId })),
     };
   } catch (e) {
     const errorMsg = e instanceof Error ? e.message : String(e);
@@ -1046,8 +1098,20 @@ export interface LiveImage {
   role: 'photo' | 'background' | 'icon';
 }
 
+/**
+ * Screenshot of the element at a narrower breakpoint (the main screenshot is desktop)
+ */
+export interface ViewportImage {
+  name: string;
+  width: number;
+  data: string;
+  mediaType: 'image/png' | 'image/jpeg';
+}
+
 /**
  * Full enhanced generation pipeline
+ * When viewport screenshots are given, the generated CSS must reproduce each breakpoint
+ * When a reference source is given, gold/silver corpus blocks of the same type guide the code
  */
 export async function generateBlockEnhanced(
   screenshotBase64: string,
@@ -1056,7 +1120,9 @@ export async function generateBlockEnhanced(
   config: AnthropicConfig,
   extractedCssStyles?: string,
   liveImages?: LiveImage[],
-  imageMediaType: 'image/png' | 'image/jpeg' = 'image/png'
+  imageMediaType: 'image/png' | 'image/jpeg' = 'image/png',
+  viewportImages: ViewportImage[] = [],
+  referenceSource?: ReferenceBlockSource
 ): Promise<EnhancedBlockCode> {
   console.log(`generateBlockEnhanced: received imageMediaType=${imageMediaType}`);
   console.log('Step 1: Describing component...');
@@ -1090,11 +1156,26 @@ export async function generateBlockEnhanced(
 
   console.log(`  Found: ${content.headings.length} headings, ${content.images.length} images, ${content.ctas.length} CTAs`);
 
+  let references: ReferenceBlock[] = [];
+  if (referenceSource) {
+    console.log('Step 2b: Finding reference blocks in the corpus...');
+    try {
+      references = await findReferenceBlocks(referenceSource, description);
+      console.log(`  Found ${references.length} references: ${references.map(r => `${r.blockName} (${r.qualityTier})`).join(', ') || 'none'}`);
+    } catch (error) {
+      // References only improve the prompt; generation works without them
+      console.warn('  Reference block lookup failed, generating without references:', error);
+    }
+  }
+
   console.log('Step 3: Generating code...');
   if (extractedCssStyles) {
     console.log('  Including extracted CSS styles in generation');
   }
-  const block = await generateCodeEnhanced(screenshotBase64, description, content, config, extractedCssStyles, imageMediaType);
+  if (viewportImages.length > 0) {
+    console.log(`  Including ${viewportImages.length} responsive screenshots (${viewportImages.map(v => `${v.name} ${v.width}px`).join(', ')})`);
+  }
+  const block = await generateCodeEnhanced(screenshotBase64, description, content, config, extractedCssStyles, imageMediaType, viewportImages, references);
   console.log(`  Generated block: ${block.blockName}`);
 
   // Step 4: Post-process to inject real image URLs
@@ -1103,118 +1184,3 @@ export async function generateBlockEnhanced(
 
   return block;
 }
-
-/**
- * Helper to call Claude API with detailed error reporting
- */
-async function callClaude(
-  imageBase64: string,
-  prompt: string,
-  config: AnthropicConfig,
-  imageMediaType: 'image/png' | 'image/jpeg' = 'image/png',
-  maxTokens: number = 4096
-): Promise<string> {
-  console.log(`callClaude: using media type ${imageMediaType}, image length ${imageBase64.length}`);
-  let response: Response;
-  let apiEndpoint: string;
-
-  try {
-    if (config.useBedrock && config.bedrockToken) {
-      const region = config.bedrockRegion || 'us-east-1';
-      const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-      apiEndpoint = `Bedrock (${region}, ${model})`;
-      const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-      response = await fetch(bedrockUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.bedrockToken}`,
-        },
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                { type: 'image', source: { type: 'base64', media_type: imageMediaType, data: imageBase64 } },
-                { type: 'text', text: prompt },
-              ],
-            },
-          ],
-        }),
-      });
-    } else if (config.apiKey) {
-      apiEndpoint = 'Anthropic API (claude-sonnet-4-20250514)';
-      response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': config.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                { type: 'image', source: { type: 'base64', media_type: imageMediaType, data: imageBase64 } },
-                { type: 'text', text: prompt },
-              ],
-            },
-          ],
-        }),
-      });
-    } else {
-      throw new Error('No Anthropic API configuration provided (missing apiKey or bedrockToken)');
-    }
-  } catch (fetchError) {
-    // Network error or fetch failure
-    const errorMsg = fetchError instanceof Error ? fetchError.message : String(fetchError);
-    throw new Error(`Claude API network error: ${errorMsg}`);
-  }
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    // Parse error details if possible
-    let errorDetail = errorBody;
-    try {
-      const parsed = JSON.parse(errorBody);
-      errorDetail = parsed.error?.message || parsed.message || errorBody;
-    } catch {
-      // Keep original error body
-    }
-
-    // Provide specific error messages for common HTTP status codes
-    const statusMessages: Record<number, string> = {
-      400: 'Bad request - check image size or prompt format',
-      401: 'Authentication failed - invalid API key',
-      403: 'Access denied - check API key permissions',
-      429: 'Rate limited - too many requests, please retry',
-      500: 'Claude server error - please retry',
-      502: 'Claude gateway error - please retry',
-      503: 'Claude service unavailable - please retry',
-      529: 'Claude overloaded - please retry in a few seconds',
-    };
-
-    const statusHint = statusMessages[response.status] || '';
-    throw new Error(`Claude API error (${apiEndpoint}): HTTP ${response.status}${statusHint ? ` - ${statusHint}` : ''}. Details: ${errorDetail}`);
-  }
-
-  let result: { content: Array<{ type: string; text?: string }> };
-  try {
-    result = await response.json() as typeof result;
-  } catch (parseError) {
-    throw new Error(`Claude API returned invalid JSON response`);
-  }
-
-  const textContent = result.content?.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error(`Claude API returned no text content. Response: ${JSON.stringify(result).substring(0, 200)}`);
-  }
-
-  return textContent.text;
-}
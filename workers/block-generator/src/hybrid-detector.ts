@@ -1,5 +1,6 @@
 import { Page } from '@cloudflare/puppeteer';
 import { AnthropicConfig } from './design-analyzer';
+import { callClaude, imageBlock, textBlock } from './llm-provider';
 
 /**
  * Candidate block extracted from DOM with real coordinates
@@ -401,7 +402,11 @@ Important:
 
 Return ONLY the JSON array.`;
 
-  const response = await callClaude(screenshotBase64, prompt, config);
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(prompt)], maxTokens: 4096 },
+    { label: 'hybrid-detector' }
+  );
 
   try {
     const jsonMatch = response.match(/\[[\s\S]*\]/);
@@ -416,82 +421,3 @@ Return ONLY the JSON array.`;
     return [];
   }
 }
-
-/**
- * Helper to call Claude API
- */
-async function callClaude(
-  imageBase64: string,
-  prompt: string,
-  config: AnthropicConfig,
-  maxTokens: number = 4096
-): Promise<string> {
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: imageBase64 } },
-              { type: 'text', text: prompt },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: imageBase64 } },
-              { type: 'text', text: prompt },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
-
-  return textContent.text;
-}
@@ -8,9 +8,15 @@ import {
   GitHubPushResponse,
   DACreatePageRequest,
   DACreatePageResponse,
+  OutputFormat,
   BlockVariantPushRequest,
   BlockVariantPushResponse,
   BlockVariant,
+  BlockJsValidationSummary,
+  CssLintReport,
+  RenderDiagnostics,
+  RuntimeReport,
+  ReusedBlockInfo,
   BlockFinalizeRequest,
   BlockFinalizeResponse,
   BlockCleanupRequest,
@@ -36,7 +42,7 @@ import { fetchPage } from './fetcher';
 import { parseHTMLDocument, getElement } from './parser';
 import { extractContent } from './content-extractor';
 import { buildBlock } from './block-builder';
-import { captureElementScreenshot, extractLiveImages, ExtractedImage } from './screenshot';
+import { captureElementScreenshot, extractLiveImages, ExtractedImage, captureElementAtViewports, RESPONSIVE_VIEWPORTS, ViewportScreenshot } from './screenshot';
 import { analyzeDesign, generateBlockCode, analyzePageBlocks, nameDetectedBlocks, DesignTokens, AnthropicConfig, GeneratedBlockCode, IdentifiedBlock, NamedBlock } from './design-analyzer';
 import { detectBlocksInBrowser, DetectedBlock, PageDetectionResult } from './block-detector';
 import { detectBlocksVisually, VisualDetectionResult } from './visual-block-detector';
@@ -45,14 +51,113 @@ import { detectBlocksSmart, SmartDetectionResult } from './smart-detector';
 import {
   generateBlockEnhanced,
   EnhancedBlockCode,
+  ViewportImage,
+  ComponentDescription,
 } from './enhanced-generator';
 import { extractComputedStyles, formatStylesForPrompt } from './style-extractor';
 import { detectBlocks, captureBlockScreenshot, DetectedBlock as BBoxBlock, BoundingBox } from './bbox-detector';
 import { detectBlocksHybrid, ClassifiedBlock, HybridDetectionResult } from './hybrid-detector';
 import { analyzePage, PageAnalysisResult, IdentifiedSection } from './page-analyzer';
-import { refineBlock, renderBlockToScreenshot, BlockCode } from './block-refiner';
+import {
+  refineBlock,
+  refineBlockResponsive,
+  compareBreakpoints,
+  autoRefineBlock,
+  renderBlockWithDiagnostics,
+  renderAndHealBlock,
+  hasRuntimeErrors,
+  toRuntimeReport,
+  BlockCode,
+  RefinementResult,
+  AutoRefineResult,
+  BreakpointTarget,
+  BreakpointComparison,
+} from './block-refiner';
+import { SimilarityScore, tryComputeVisualSimilarity, breakTieBySimilarity } from './visual-similarity';
+import { validateAndRepairBlockJs } from './block-validator';
+import { lintBlockCss } from './css-linter';
+import { createGitHubSiteSource, withBlockFiles, renderEdsPreview } from './eds-simulator';
+import { baseBranchOf, getRepoBlockFiles, listRepoBlocks, matchExistingBlock, RepoBlock } from './block-library';
+import { createBlockCollectorSource, ReferenceBlockSource } from './reference-blocks';
+import { BLOCK_COLLECTION_LIBRARY, BlockContentModel, mapSectionToLibrary, validateBlockLibrary } from './content-mapper';
+import { toDefaultContent } from './default-content';
+import {
+  buildSectionMetadataHtml,
+  detectSectionStyle,
+  matchSectionStyles,
+  parseSectionStyles,
+  SectionStyleMatch,
+  SectionStyleSheet,
+} from './section-styles';
+import { buildMetadataBlockHtml, extractSourceMetadata, PageMetadata, SourceMetadata, toPageMetadata } from './page-metadata';
+import { createMediaCache, escapeAttribute, mediaFolderFor, migrateImages, uploadMediaFromUrl } from './da-media';
+import {
+  buildRedirects,
+  documentPathFor,
+  LinkMapping,
+  publicPathFor,
+  RedirectRow,
+  rewriteInternalLinks,
+  toRedirectsCsv,
+  toSheetJson,
+  writeRedirectsSheet,
+} from './link-mapper';
+import { blockTitle } from './authoring-dom';
+import { renderMarkdown } from './markdown-renderer';
+import { writeDocx } from './docx-writer';
+import { callClaude, ClaudeContentBlock, fallbackModelsFromEnv, imageBlock, LLMError, textBlock } from './llm-provider';
+import { BLOCKS_SHEET_PATH, cleanLibraryExample, describeForAuthors, registerLibraryBlock } from './da-library';
+import {
+  inferBlockModels,
+  mergeComponentDefinitions,
+  mergeComponentModels,
+  mergeComponentFilters,
+  UEComponentDefinitionFile,
+  UEModel,
+  UEFilter,
+} from './ue-models';
+import {
+  buildFooterCss,
+  buildFooterDocument,
+  buildHeaderCss,
+  buildNavDocument,
+  ChromeStyles,
+  extractChromeStyles,
+  extractFooter,
+  extractNavigation,
+  FooterContent,
+  NavTree,
+} from './site-chrome';
+import {
+  DETECTOR_NAMES,
+  DetectorName,
+  DetectedSection,
+  SectionDetectionResult,
+  isDetectorName,
+  getSectionDetector,
+  capturePageOverview,
+} from './section-detector';
+import { mergeDetections, EnsembleOptions, DEFAULT_ENSEMBLE_DETECTORS } from './detector-ensemble';
+import { JOB_TYPES, ProgressReporter, isJobType, getJobStub, registerJobRunner } from './job-manager';
+import { runDetectorBenchmark, loadFixtureManifest, DetectorFixture } from './detector-benchmark';
+import {
+  getSessionStore,
+  upsertSession,
+  getSession,
+  listSessions,
+  setSessionWinner,
+  saveIteration,
+  getIteration,
+  getIterations,
+  getNextIterationNumber,
+  rollbackToIteration,
+  forkSession,
+  paths as sessionPaths,
+  uploadScreenshot,
+  downloadScreenshot,
+} from './session-store';
 import { getDAToken, clearCachedToken } from './da-token-service';
-import puppeteer, { Page } from '@cloudflare/puppeteer';
+import puppeteer, { Browser, Page } from '@cloudflare/puppeteer';
 
 /**
  * Resolve GitHub token from request or environment
@@ -287,6 +392,13 @@ async function dismissCookieBanners(page: Page): Promise<void> {
   console.log('Applied CSS to hide cookie banners');
 }
 
+export { JobDurableObject } from './job-manager';
+
+// Long-running endpoints that can also be started as asynchronous jobs (POST /jobs/:type)
+registerJobRunner('block-generate-full', handleBlockGenerateFull);
+registerJobRunner('compose-page', handleComposePage);
+registerJobRunner('design-system-import', handleDesignSystemImport);
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     // Handle CORS preflight
@@ -321,6 +433,11 @@ export default {
       return handleDebugSection(request, env);
     }
 
+    // Debug: Benchmark section detectors against labeled fixtures
+    if (url.pathname === '/debug/detector-benchmark' && request.method === 'POST') {
+      return handleDetectorBenchmark(request, env);
+    }
+
     // Analyze page to identify blocks
     if (url.pathname === '/analyze' && request.method === 'POST') {
       return handleAnalyze(request, env);
@@ -331,6 +448,16 @@ export default {
       return handleComposePage(request, env);
     }
 
+    // Import source header/footer into DA /nav and /footer
+    if (url.pathname === '/nav-import' && request.method === 'POST') {
+      return handleNavImport(request, env);
+    }
+
+    // Redirects sheet for a list of source URLs
+    if (url.pathname === '/redirects' && request.method === 'POST') {
+      return handleRedirects(request, env);
+    }
+
     // Finalize page import (merge branch to main)
     if (url.pathname === '/page-finalize' && request.method === 'POST') {
       return handlePageFinalize(request, env);
@@ -381,6 +508,11 @@ export default {
       return handleBlockDA(request, env);
     }
 
+    // Local EDS render of a candidate block (no branch push, DA page or aem.page wait)
+    if (url.pathname === '/block-preview-local' && request.method === 'POST') {
+      return handleBlockPreviewLocal(request, env);
+    }
+
     // EDS Preview Flow endpoints
     if (url.pathname === '/block-variant-push' && request.method === 'POST') {
       return handleBlockVariantPush(request, env);
@@ -394,10 +526,45 @@ export default {
       return handleBlockCleanup(request, env);
     }
 
+    // Asynchronous jobs: start, poll status, stream progress (SSE)
+    if (url.pathname.startsWith('/jobs/')) {
+      const [, , jobIdOrType, subresource] = url.pathname.split('/');
+      if (request.method === 'POST' && !subresource) {
+        return handleJobCreate(request, env, jobIdOrType);
+      }
+      if (request.method === 'GET' && !subresource) {
+        return handleJobStatus(env, jobIdOrType);
+      }
+      if (request.method === 'GET' && subresource === 'events') {
+        return handleJobEvents(request, env, jobIdOrType);
+      }
+    }
+
     if (url.pathname === '/session-id' && request.method === 'GET') {
       return Response.json({ sessionId: generateSessionId() }, { headers: corsHeaders(env) });
     }
 
+    // Persistent generation sessions: history, rollback, fork
+    if (url.pathname === '/sessions' && request.method === 'GET') {
+      return handleSessionList(url, env);
+    }
+
+    if (url.pathname.startsWith('/sessions/')) {
+      const [, , sessionId, subresource, option, iteration] = url.pathname.split('/');
+      if (request.method === 'GET' && !subresource) {
+        return handleSessionGet(env, sessionId);
+      }
+      if (request.method === 'GET' && subresource === 'iterations' && option && iteration) {
+        return handleSessionIterationGet(env, sessionId, option, iteration);
+      }
+      if (request.method === 'POST' && subresource === 'rollback') {
+        return handleSessionRollback(request, env, sessionId);
+      }
+      if (request.method === 'POST' && subresource === 'fork') {
+        return handleSessionFork(request, env, sessionId);
+      }
+    }
+
     // Design System Import endpoint
     if (url.pathname === '/design-system-import' && request.method === 'POST') {
       return handleDesignSystemImport(request, env);
@@ -452,6 +619,7 @@ function getAnthropicConfig(env: Env): AnthropicConfig | undefined {
       bedrockToken: env.ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK,
       bedrockRegion: env.ANTHROPIC_AWS_REGION || 'us-east-1',
       bedrockModel: env.ANTHROPIC_MODEL_OPUS,
+      fallbackModels: fallbackModelsFromEnv(env, true),
     };
   }
 
@@ -460,6 +628,7 @@ function getAnthropicConfig(env: Env): AnthropicConfig | undefined {
     console.log('  Using direct API key');
     return {
       apiKey: env.ANTHROPIC_API_KEY,
+      fallbackModels: fallbackModelsFromEnv(env, false),
     };
   }
 
@@ -828,6 +997,9 @@ async function generateBlockFromDescription(
         await browser.close();
       }
     } catch (error) {
+      // Claude calls were already retried by the provider layer: surface their error code
+      if (error instanceof LLMError) throw error;
+
       lastError = error as Error;
       const errorMsg = lastError.message || '';
 
@@ -958,7 +1130,11 @@ REMEMBER: Use data-img-ref="N" for images. Do NOT write src attributes.
 
 Return ONLY the JSON object.`;
 
-  const response = await callClaudeForGeneration(screenshotBase64, prompt, config, 12000);
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(prompt)], maxTokens: 12000 },
+    { label: 'generate' }
+  );
 
   try {
     let jsonStr: string | null = null;
@@ -1099,85 +1275,6 @@ function injectImageUrlsIntoHtml(
   return result;
 }
 
-/**
- * Call Claude API for generation
- */
-async function callClaudeForGeneration(
-  imageBase64: string,
-  prompt: string,
-  config: AnthropicConfig,
-  maxTokens: number = 4096
-): Promise<string> {
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: imageBase64 } },
-              { type: 'text', text: prompt },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'image', source: { type: 'base64', media_type: 'image/png', data: imageBase64 } },
-              { type: 'text', text: prompt },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
-
-  return textContent.text;
-}
-
 /**
  * Enhanced block generation using the describe-first approach:
  * 1. Extract computed CSS styles from the live page
@@ -1274,12 +1371,17 @@ async function generateBlockFromScreenshotEnhanced(
 
         await page.close();
 
-        const generatedBlock = await generateBlockEnhanced(screenshot, elementHtml, url, anthropicConfig, extractedCssStyles, liveImages);
+        const generatedBlock = await generateBlockEnhanced(
+          screenshot, elementHtml, url, anthropicConfig, extractedCssStyles, liveImages, 'image/png', [], createBlockCollectorSource(env)
+        );
         return generatedBlock;
       } finally {
         await browser.close();
       }
     } catch (error) {
+      // Claude calls were already retried by the provider layer: surface their error code
+      if (error instanceof LLMError) throw error;
+
       lastError = error as Error;
       const errorMsg = lastError.message || '';
 
@@ -1333,8 +1435,8 @@ async function generateBlockFromScreenshot(
       lastError = error as Error;
       const errorMsg = lastError.message || '';
 
-      // Check if it's a rate limit error (429)
-      if (errorMsg.includes('429') || errorMsg.includes('Rate limit')) {
+      // Check if it's a Browser Rendering rate limit error (429); Claude calls were already retried
+      if (!(error instanceof LLMError) && (errorMsg.includes('429') || errorMsg.includes('Rate limit'))) {
         const delay = Math.pow(2, attempt) * 2000; // 2s, 4s, 8s
         console.log(`Browser rate limited, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
         await new Promise(resolve => setTimeout(resolve, delay));
@@ -1442,23 +1544,44 @@ async function generateBlockFromBoundingBox(
       console.log(`Extracted ${html.length} chars of HTML`);
 
       // Generate block using enhanced generator
-      const generatedBlock = await generateBlockEnhanced(screenshot, html, url, anthropicConfig);
+      const generatedBlock = await generateBlockEnhanced(
+        screenshot, html, url, anthropicConfig, undefined, undefined, 'image/png', [], createBlockCollectorSource(env)
+      );
       return generatedBlock;
     } finally {
       await browser.close();
     }
   } catch (error) {
+    if (error instanceof LLMError) throw error;
     console.error('Bounding box generation failed:', error);
     return undefined;
   }
 }
 
+/**
+ * Request body for /analyze
+ */
+interface AnalyzeRequest {
+  url?: string;
+  /** Detection strategy (default: 'page-analyzer') */
+  detector?: DetectorName | 'ensemble';
+  /** Detectors to combine when detector is 'ensemble' (default: hybrid + visual) */
+  detectors?: string[];
+  /** Minimum IoU for ensemble boxes to be merged (default 0.5) */
+  iouThreshold?: number;
+  /** Minimum number of agreeing detectors for an ensemble section (default: majority, at least 2) */
+  minVotes?: number;
+}
+
 /**
  * Handles the page analysis request - identifies blocks on a page
  * Uses visual-first approach (like identify-page-structure skill):
  * 1. Take full page screenshot
  * 2. Claude identifies visual sections with Y-boundaries
  * 3. Map Y-boundaries to DOM elements
+ *
+ * Other detectors can be selected with "detector", or several can be run
+ * and merged by overlap voting with detector: "ensemble"
  */
 async function handleAnalyze(request: Request, env: Env): Promise<Response> {
   try {
@@ -1471,7 +1594,7 @@ async function handleAnalyze(request: Request, env: Env): Promise<Response> {
       );
     }
 
-    const body = await request.json() as { url?: string };
+    const body = await request.json() as AnalyzeRequest;
     const url = body?.url;
 
     if (typeof url !== 'string' || !url.trim()) {
@@ -1481,6 +1604,23 @@ async function handleAnalyze(request: Request, env: Env): Promise<Response> {
       );
     }
 
+    const strategy = body.detector || 'page-analyzer';
+    if (strategy !== 'ensemble' && !isDetectorName(strategy)) {
+      return Response.json(
+        { success: false, error: `Unknown detector "${strategy}". Available: ${DETECTOR_NAMES.join(', ')}, ensemble`, code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+
+    const ensembleDetectors = body.detectors && body.detectors.length > 0 ? body.detectors : DEFAULT_ENSEMBLE_DETECTORS;
+    const unknownDetectors = ensembleDetectors.filter(name => !isDetectorName(name));
+    if (strategy === 'ensemble' && unknownDetectors.length > 0) {
+      return Response.json(
+        { success: false, error: `Unknown detectors: ${unknownDetectors.join(', ')}. Available: ${DETECTOR_NAMES.join(', ')}`, code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+
     // Check if Browser Rendering is available
     if (!env.BROWSER) {
       return Response.json(
@@ -1505,6 +1645,45 @@ async function handleAnalyze(request: Request, env: Env): Promise<Response> {
     let browser;
     try {
       browser = await puppeteer.launch(env.BROWSER);
+
+      if (strategy !== 'page-analyzer') {
+        const detection = await runAnalyzeDetection(
+          browser,
+          url.trim(),
+          anthropicConfig,
+          strategy === 'ensemble' ? (ensembleDetectors as DetectorName[]) : [strategy],
+          { iouThreshold: body.iouThreshold, minVotes: body.minVotes }
+        );
+        const overview = await capturePageOverview(browser, url.trim());
+
+        return Response.json(
+          {
+            success: true,
+            url: url.trim(),
+            title: overview.title,
+            detector: strategy,
+            blocks: detection.sections.map((s, index) => ({
+              index,
+              name: s.name,
+              description: s.description,
+              type: s.type,
+              priority: s.priority,
+              yStart: s.boundingBox.y,
+              yEnd: s.boundingBox.y + s.boundingBox.height,
+              boundingBox: s.boundingBox,
+              selector: s.selector,
+              confidence: s.confidence,
+              detectors: s.detectors,
+            })),
+            detectorRuns: strategy === 'ensemble' ? detection.runs : undefined,
+            screenshot: overview.screenshot,
+            pageWidth: overview.pageWidth,
+            pageHeight: overview.pageHeight,
+          },
+          { status: 200, headers: corsHeaders(env) }
+        );
+      }
+
       const page = await browser.newPage();
       const result = await analyzePage(page, url.trim(), anthropicConfig);
 
@@ -1514,6 +1693,7 @@ async function handleAnalyze(request: Request, env: Env): Promise<Response> {
           success: true,
           url: url.trim(),
           title: result.title,
+          detector: 'page-analyzer',
           blocks: result.sections.map(s => ({
             index: s.index,
             name: s.name,
@@ -1543,6 +1723,51 @@ async function handleAnalyze(request: Request, env: Env): Promise<Response> {
   }
 }
 
+/**
+ * Run the selected detectors for /analyze and merge their sections.
+ * A single detector is returned as-is; several are combined by overlap voting.
+ * Detectors that fail are reported in the runs list; the request only fails if all of them do.
+ */
+async function runAnalyzeDetection(
+  browser: Browser,
+  url: string,
+  anthropicConfig: AnthropicConfig,
+  detectorNames: DetectorName[],
+  ensembleOptions: EnsembleOptions
+): Promise<{
+  sections: Array<DetectedSection & { detectors?: DetectorName[] }>;
+  runs: Array<{ detector: DetectorName; sectionCount: number; durationMs: number; error?: string }>;
+}> {
+  const results: SectionDetectionResult[] = [];
+  const runs: Array<{ detector: DetectorName; sectionCount: number; durationMs: number; error?: string }> = [];
+
+  for (const name of detectorNames) {
+    const start = Date.now();
+    try {
+      console.log(`Running ${name} detector...`);
+      const result = await getSectionDetector(name).detect(browser, url, anthropicConfig);
+      console.log(`  ${name}: ${result.sections.length} sections in ${result.durationMs}ms`);
+      results.push(result);
+      runs.push({ detector: name, sectionCount: result.sections.length, durationMs: result.durationMs });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`  ${name} detector failed:`, message);
+      runs.push({ detector: name, sectionCount: 0, durationMs: Date.now() - start, error: message });
+    }
+  }
+
+  if (results.length === 0) {
+    throw new Error(`All detectors failed: ${runs.map(r => `${r.detector} (${r.error})`).join('; ')}`);
+  }
+
+  if (detectorNames.length === 1) {
+    const sections = [...results[0].sections].sort((a, b) => a.boundingBox.y - b.boundingBox.y);
+    return { sections, runs };
+  }
+
+  return { sections: mergeDetections(results, ensembleOptions), runs };
+}
+
 /**
  * Infer a basic block name from detected content
  */
@@ -1718,9 +1943,15 @@ interface ComposePageRequest {
   acceptedBlocks?: Record<number, AcceptedBlockInfo>; // sectionIndex -> block info from standalone workflow
   github: { owner: string; repo: string };
   da: { org: string; site: string };
+  /** 'content-only': generate no block code, map every section onto blockLibrary */
+  mode?: 'generate' | 'content-only';
+  /** Blocks the site already has (default: the AEM Block Collection) */
+  blockLibrary?: BlockContentModel[];
+  /** 'markdown'/'docx' also return the page as EDS Markdown / a Word document (the DA page is always HTML) */
+  format?: OutputFormat;
 }
 
-async function handleComposePage(request: Request, env: Env): Promise<Response> {
+async function handleComposePage(request: Request, env: Env, progress?: ProgressReporter): Promise<Response> {
   try {
     const contentType = request.headers.get('content-type') || '';
     if (!contentType.includes('application/json')) {
@@ -1749,20 +1980,46 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
       );
     }
 
-    console.log(`Composing page from ${body.sections.length} sections for ${body.url}`);
+    // Content-only import: the site's block library is fixed, only the DA page is produced
+    const contentOnly = body.mode === 'content-only';
+    const libraryErrors = body.blockLibrary !== undefined ? validateBlockLibrary(body.blockLibrary) : [];
+    if (libraryErrors.length > 0) {
+      return Response.json(
+        { success: false, error: `Invalid blockLibrary: ${libraryErrors.join('; ')}`, code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+    const blockLibrary = body.blockLibrary?.length ? body.blockLibrary : BLOCK_COLLECTION_LIBRARY;
+    const anthropicConfig = getAnthropicConfig(env);
+    if (contentOnly && !anthropicConfig) {
+      return Response.json(
+        { success: false, error: 'Anthropic API not configured', code: 'LLM_NOT_CONFIGURED' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
 
-    // Create page-import branch from main
-    const pageBranch = `page-${body.sessionId}`;
+    console.log(`Composing page from ${body.sections.length} sections for ${body.url}${contentOnly ? ` (content only, ${blockLibrary.length} library blocks)` : ''}`);
+
+    // Create page-import branch from main (content-only pages preview against main: no code changes)
+    const pageBranch = contentOnly ? 'main' : `page-${body.sessionId}`;
     const githubFetch = createGitHubFetcher(githubToken);
 
-    console.log(`Creating page-import branch: ${pageBranch}`);
-    await ensureBranchExists(githubFetch, body.github.owner, body.github.repo, pageBranch, 'main');
+    if (!contentOnly) {
+      console.log(`Creating page-import branch: ${pageBranch}`);
+      await ensureBranchExists(githubFetch, body.github.owner, body.github.repo, pageBranch, 'main');
+    }
 
     // Track accepted blocks that need to be copied to page branch
     const acceptedBlocksMap: Map<number, { blockName: string }> = new Map();
 
+    // Sections mapped onto / rejected by the block library (content-only mode)
+    const mappedSections: Array<{ index: number; name: string; blockName: string; variant?: string; confidence: number }> = [];
+    const unmappedSections: Array<{ index: number; name: string; reason: string }> = [];
+    // Sections emitted as default content instead of a block
+    const defaultContentSections: number[] = [];
+
     // Copy accepted blocks from their preview branches to the page branch
-    if (body.acceptedBlocks && Object.keys(body.acceptedBlocks).length > 0) {
+    if (!contentOnly && body.acceptedBlocks && Object.keys(body.acceptedBlocks).length > 0) {
       console.log(`Copying ${Object.keys(body.acceptedBlocks).length} accepted blocks to page branch...`);
 
       for (const [indexStr, blockInfo] of Object.entries(body.acceptedBlocks)) {
@@ -1770,6 +2027,7 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
         const { blockName, branch } = blockInfo;
 
         console.log(`Copying block ${blockName} from branch ${branch} to ${pageBranch}`);
+        progress?.report('push', `Copying block ${blockName} to ${pageBranch}`, { blockName, branch });
 
         try {
           // Get JS and CSS files from the accepted block's branch
@@ -1824,21 +2082,45 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
       await page.setViewport({ width: 1440, height: 900 });
 
       console.log('Loading source page for content extraction...');
+      progress?.report('screenshot', `Loading ${body.url}`);
       await page.goto(body.url, { waitUntil: 'networkidle0', timeout: 30000 });
 
       // Dismiss cookie banners
       await dismissCookieBanners(page);
       await new Promise(r => setTimeout(r, 1000));
 
+      // Page head (title, description, og:image, canonical, keywords) for the metadata block
+      let sourceMetadata: SourceMetadata = {};
+      try {
+        sourceMetadata = await extractSourceMetadata(page);
+      } catch (metadataError) {
+        console.warn('Could not read page metadata:', metadataError);
+      }
+
+      // Section style classes the site defines (main .section.{name}), for section-metadata
+      let sectionStyleSheet: SectionStyleSheet = { base: {}, styles: [] };
+      try {
+        const stylesCss = await getFileFromBranch(githubFetch, body.github.owner, body.github.repo, 'main', 'styles/styles.css');
+        if (stylesCss) {
+          sectionStyleSheet = parseSectionStyles(stylesCss);
+          console.log(`Section styles in styles.css: ${sectionStyleSheet.styles.map(style => style.name).join(', ') || 'none'}`);
+        }
+      } catch (stylesError) {
+        console.warn('Could not load styles/styles.css, sections get no styles:', stylesError);
+      }
+      const sectionStyles: Array<SectionStyleMatch & { index: number }> = [];
+
       // Extract content for each section based on Y-coordinates
       const sectionsHtml: string[] = [];
 
       for (let i = 0; i < body.sections.length; i++) {
         const section = body.sections[i];
         console.log(`Extracting content for section ${i + 1}: ${section.name} (Y: ${section.yStart}-${section.yEnd})`);
+        progress?.report('extraction', `Extracting section ${i + 1}/${body.sections.length}: ${section.name}`, { section: i + 1, total: body.sections.length });
 
-        // Extract actual HTML content from the section's Y-range
-        const sectionContent = await page.evaluate((yStart: number, yEnd: number) => {
+        // Extract actual HTML content from the section's Y-range, plus the layout facts
+        // default-content detection needs (single column, background images)
+        const extracted = await page.evaluate((yStart: number, yEnd: number, sectionIndex: number) => {
           const elements: Element[] = [];
           const allElements = document.querySelectorAll('body *');
 
@@ -1870,6 +2152,8 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
 
             // Extract and clean the HTML
             const clone = bestElement.cloneNode(true) as HTMLElement;
+            // Marked (after cloning) so its CSS background images can be looked up
+            bestElement.setAttribute('data-eds-compose-section', String(sectionIndex));
 
             // Remove scripts and styles
             clone.querySelectorAll('script, style, noscript').forEach(el => el.remove());
@@ -1890,11 +2174,111 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
               }
             });
 
-            return clone.innerHTML;
+            // Side-by-side text or images (columns, cards) means the section needs a block.
+            // Links are left out: a row of buttons is still default content.
+            const boxes = Array.from(bestElement.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, img'))
+              .slice(0, 200)
+              .map(el => el.getBoundingClientRect())
+              .filter(rect => rect.width > 0 && rect.height > 0);
+            let stacked = true;
+            for (let a = 0; a < boxes.length && stacked; a++) {
+              for (let b = a + 1; b < boxes.length; b++) {
+                const verticalOverlap = Math.min(boxes[a].bottom, boxes[b].bottom) - Math.max(boxes[a].top, boxes[b].top);
+                const apart = boxes[a].right <= boxes[b].left || boxes[b].right <= boxes[a].left;
+                if (verticalOverlap > 4 && apart) {
+                  stacked = false;
+                  break;
+                }
+              }
+            }
+
+            const hasBackgroundImage = [bestElement, ...Array.from(bestElement.querySelectorAll('*')).slice(0, 500)]
+              .some(el => window.getComputedStyle(el).backgroundImage.includes('url('));
+
+            return { html: clone.innerHTML, stacked, hasBackgroundImage };
           }
 
           return null;
-        }, section.yStart, section.yEnd);
+        }, section.yStart, section.yEnd, i);
+        let sectionContent = extracted?.html || null;
+
+        // CSS background images are not in the extracted HTML: add them as pictures
+        // (how EDS blocks author backgrounds) so they are migrated with the page
+        if (sectionContent && extracted?.hasBackgroundImage) {
+          try {
+            const backgrounds = (await extractLiveImages(page, `[data-eds-compose-section="${i}"]`, body.url))
+              .filter(image => image.role === 'background' && !image.src.startsWith('data:') && !sectionContent!.includes(escapeAttribute(image.src)));
+            if (backgrounds.length > 0) {
+              sectionContent = backgrounds.map(image => `<picture><img src="${escapeAttribute(image.src)}" alt=""></picture>`).join('') + sectionContent;
+            }
+          } catch (backgroundError) {
+            console.warn(`Background image lookup failed for ${section.name}:`, backgroundError);
+          }
+        }
+
+        // Background and spacing become a section-metadata block at the end of the section
+        let sectionStyle: SectionStyleMatch = { styles: [], unmatched: [] };
+        try {
+          sectionStyle = matchSectionStyles(await detectSectionStyle(page, section.yStart, section.yEnd), sectionStyleSheet);
+          if (sectionStyle.unmatched.length > 0) {
+            console.warn(`Section ${section.name} has styles the site does not define: ${sectionStyle.unmatched.join(', ')}`);
+          }
+        } catch (styleError) {
+          console.warn(`Section style detection failed for ${section.name}:`, styleError);
+        }
+        const sectionMetadataHtml = sectionStyle.styles.length > 0
+          ? `\n${buildSectionMetadataHtml(sectionStyle.styles).split('\n').map(line => '      ' + line).join('\n')}`
+          : '';
+
+        // Plain headings, text and buttons become default content rather than a single-cell block
+        // (unless the user picked a block or accepted a generated one for this section)
+        if (extracted && section.blockChoice === '__generate__' && !acceptedBlocksMap.has(i)) {
+          const defaultContent = toDefaultContent(extracted.html, extracted);
+          if (defaultContent) {
+            console.log(`Section ${section.name} is default content`);
+            defaultContentSections.push(i);
+            sectionStyles.push({ index: i, ...sectionStyle });
+            sectionsHtml.push(`    <div>
+${defaultContent.split('\n').map(line => '      ' + line).join('\n')}${sectionMetadataHtml}
+    </div>`);
+            continue;
+          }
+        }
+
+        if (contentOnly) {
+          if (!sectionContent) {
+            console.warn(`Could not extract content for section: ${section.name}`);
+            unmappedSections.push({ index: i, name: section.name, reason: 'No content could be extracted for this section' });
+            continue;
+          }
+
+          progress?.report('llm', `Mapping section ${i + 1}/${body.sections.length} onto the block library`, { section: i + 1, total: body.sections.length });
+          try {
+            const mapped = await mapSectionToLibrary({
+              sectionName: section.name,
+              sectionDescription: section.description,
+              sectionHtml: sectionContent,
+              library: blockLibrary,
+              config: anthropicConfig!,
+            });
+            if ('unmapped' in mapped) {
+              console.warn(`Section ${section.name} not mapped: ${mapped.reason}`);
+              unmappedSections.push({ index: i, name: section.name, reason: mapped.reason });
+              continue;
+            }
+
+            console.log(`Section ${section.name} mapped to ${mapped.blockName}${mapped.variant ? ` (${mapped.variant})` : ''}`);
+            mappedSections.push({ index: i, name: section.name, blockName: mapped.blockName, variant: mapped.variant, confidence: mapped.confidence });
+            sectionStyles.push({ index: i, ...sectionStyle });
+            sectionsHtml.push(`    <div>
+${mapped.authoringHtml.split('\n').map(line => '      ' + line).join('\n')}${sectionMetadataHtml}
+    </div>`);
+          } catch (mapError) {
+            console.error(`Failed to map section ${section.name}:`, mapError);
+            unmappedSections.push({ index: i, name: section.name, reason: mapError instanceof Error ? mapError.message : 'Mapping failed' });
+          }
+          continue;
+        }
 
         let blockHtml: string;
         // Use accepted block name if available, otherwise fall back to choice or derived name
@@ -1930,24 +2314,13 @@ async function handleComposePage(request: Request, env: Env): Promise<Response>
       </table>`;
         }
 
-        sectionsHtml.push(`    <div>${blockHtml}
+        sectionStyles.push({ index: i, ...sectionStyle });
+        sectionsHtml.push(`    <div>${blockHtml}${sectionMetadataHtml}
     </div>`);
       }
 
-      // Compose full page HTML
-      const pageTitle = body.pageTitle || new URL(body.url).pathname.split('/').pop() || 'imported-page';
-      const pageHtml = `<body>
-  <header></header>
-  <main>
-${sectionsHtml.join('\n    <hr>\n')}
-  </main>
-  <footer></footer>
-</body>`;
-
       await browser.close();
 
-      console.log('Generated page HTML:', pageHtml.substring(0, 500) + '...');
-
       // Get DA token
       let daToken: string | null = null;
       if (env.DA_CLIENT_ID && env.DA_CLIENT_SECRET && env.DA_SERVICE_TOKEN) {
@@ -1965,14 +2338,67 @@ ${sectionsHtml.join('\n    <hr>\n')}
         );
       }
 
-      // Determine DA path from URL - include sessionId for isolation
-      const urlPath = new URL(body.url).pathname;
-      const pageName = urlPath.replace(/\.html$/, '').replace(/\/$/, '').replace(/^\//, '') || 'index';
-      const daPath = `/drafts/imports/${body.sessionId}/${pageName}`;
+      // Determine DA path from URL (the go-live document path) - include sessionId for isolation
+      const documentPath = documentPathFor(body.url);
+      const daPath = `/drafts/imports/${body.sessionId}${documentPath}`;
+
+      // Images are copied into the page's own media folder, each distinct file once per page.
+      // DA keeps media per document, so an image several imported pages share is uploaded
+      // for each of them (same media_{hash} name, a different folder)
+      const mediaTarget = { org: body.da.org, site: body.da.site, folder: mediaFolderFor(daPath), token: daToken };
+      const mediaCache = createMediaCache();
+
+      // Metadata block; the og:image is copied into DA media too
+      const metadata: PageMetadata = toPageMetadata(sourceMetadata, body.url);
+      if (body.pageTitle) metadata.title = body.pageTitle;
+      if (metadata.image) {
+        try {
+          const media = await uploadMediaFromUrl(metadata.image, mediaTarget, mediaCache);
+          console.log(`Uploaded og:image to DA: ${media.daPath}`);
+          metadata.image = media.contentUrl;
+        } catch (imageError) {
+          console.warn('Could not copy og:image to DA media, keeping the source URL:', imageError);
+        }
+      }
+
+      // Internal links point at the pages' EDS paths; the old URLs (this page's included)
+      // become redirects
+      const links = rewriteInternalLinks(sectionsHtml.join('\n'), { pageUrl: body.url });
+      const linkMappings: LinkMapping[] = [{ source: body.url, target: publicPathFor(documentPath) }, ...links.mappings];
+      const redirects: RedirectRow[] = buildRedirects(linkMappings);
+      console.log(`Rewrote ${links.mappings.length} internal links, ${redirects.length} redirects`);
+
+      const metadataBlockHtml = buildMetadataBlockHtml(metadata);
+      const metadataSectionHtml = metadataBlockHtml
+        ? `\n    <div>
+${metadataBlockHtml.split('\n').map(line => '      ' + line).join('\n')}
+    </div>`
+        : '';
+
+      // Compose full page HTML: each section is its own <div> (a section break in DA)
+      const composedHtml = `<body>
+  <header></header>
+  <main>
+${links.html}${metadataSectionHtml}
+  </main>
+  <footer></footer>
+</body>`;
+
+      // Move every image off the source site so the page survives its decommissioning
+      progress?.report('push', 'Copying images to DA media');
+      const images = await migrateImages(composedHtml, mediaTarget, { baseUrl: body.url, cache: mediaCache });
+      console.log(`Images copied to DA media: ${images.migrated.length}, failed: ${images.failed.length}`);
+      for (const failure of images.failed) {
+        console.warn(`Image left on source site: ${failure.sourceUrl} (${failure.error})`);
+      }
+      const pageHtml = images.html;
+
+      console.log('Generated page HTML:', pageHtml.substring(0, 500) + '...');
 
       // Push to DA
       const daUrl = `https://admin.da.live/source/${body.da.org}/${body.da.site}${daPath}.html`;
       console.log('Pushing to DA:', daUrl);
+      progress?.report('push', `Pushing page to DA: ${daPath}`, { daPath });
 
       const formData = new FormData();
       formData.append('data', new Blob([pageHtml], { type: 'text/html' }));
@@ -2000,6 +2426,7 @@ ${sectionsHtml.join('\n    <hr>\n')}
 
       try {
         console.log('Triggering AEM preview:', aemPreviewApiUrl);
+        progress?.report('preview', 'Triggering AEM preview', { previewUrl });
         let previewResponse = await fetch(aemPreviewApiUrl, {
           method: 'POST',
           headers: { 'Authorization': `Bearer ${daToken}` },
@@ -2028,8 +2455,19 @@ ${sectionsHtml.join('\n    <hr>\n')}
         previewUrl,
         daPath,
         branch: pageBranch,
+        mode: contentOnly ? 'content-only' : 'generate',
         sectionsProcessed: body.sections.length,
         blocksCopied: acceptedBlocksMap.size,
+        defaultContentSections,
+        sectionStyles,
+        metadata,
+        images: { migrated: images.migrated.length, failed: images.failed },
+        links: linkMappings,
+        // The page is a draft: its redirects go live with it, through /page-finalize
+        redirects: { rows: redirects },
+        ...(body.format === 'markdown' && { markdown: renderMarkdown(pageHtml), mdFilePath: `${documentPath}.md` }),
+        ...(body.format === 'docx' && { docx: arrayBufferToBase64(await writeDocx(pageHtml)), docxFilePath: `${documentPath}.docx` }),
+        ...(contentOnly && { mappedSections, unmappedSections }),
       }, { headers: corsHeaders(env) });
 
     } catch (browserError) {
@@ -2046,17 +2484,243 @@ ${sectionsHtml.join('\n    <hr>\n')}
   }
 }
 
+/**
+ * Request type for nav import
+ */
+interface NavImportRequest {
+  url: string;
+  da: {
+    org: string;
+    site: string;
+    /**
+     * Folder the nav and footer documents go in (default: /drafts/imports/{sessionId}).
+     * With replaceLive, the folder the site lives in (default: the site root): internal
+     * links are rewritten under it.
+     */
+    basePath?: string;
+  };
+  /**
+   * Write the site's live nav and footer documents (replacing the current ones).
+   * Required to write to the site root; otherwise the import is a draft for review.
+   */
+  replaceLive?: boolean;
+  /** When set, header/footer CSS overrides are pushed to a nav-{sessionId} branch */
+  github?: { owner: string; repo: string; token?: string };
+  sessionId?: string;
+}
+
+/**
+ * Import the source site's header and footer: writes the /nav and /footer documents
+ * blocks/header and blocks/footer load as fragments, and CSS overrides for both blocks
+ */
+async function handleNavImport(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json() as NavImportRequest;
+
+    if (!body.url || !body.da?.org || !body.da?.site) {
+      throw new BlockGeneratorError('Missing required fields: url, da.org, da.site', 'INVALID_REQUEST', 400);
+    }
+    if (body.github && (!body.github.owner || !body.github.repo || !body.sessionId)) {
+      throw new BlockGeneratorError('Missing required fields: github.owner, github.repo, sessionId', 'INVALID_REQUEST', 400);
+    }
+
+    // Like every other import, documents go to a drafts folder unless the live ones are explicitly replaced
+    const sessionId = body.sessionId || generateSessionId();
+    const basePath = (body.da.basePath ?? (body.replaceLive ? '' : `/drafts/imports/${sessionId}`)).replace(/\/+$/, '');
+    if (!body.replaceLive && basePath === '') {
+      throw new BlockGeneratorError(
+        'Writing the site\'s live /nav and /footer requires replaceLive: true',
+        'INVALID_REQUEST',
+        400
+      );
+    }
+
+    if (!env.BROWSER) {
+      return Response.json(
+        { success: false, error: 'Browser Rendering not configured', code: 'INTERNAL_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    if (!env.DA_CLIENT_ID || !env.DA_CLIENT_SECRET || !env.DA_SERVICE_TOKEN) {
+      return Response.json(
+        { success: false, error: 'DA service account not configured', code: 'INTERNAL_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    console.log(`Importing header and footer from ${body.url}`);
+
+    const browser = await launchBrowserWithRetry(env.BROWSER);
+    let nav: NavTree;
+    let footer: FooterContent;
+    let styles: ChromeStyles;
+    try {
+      const page = await browser.newPage();
+      await page.setViewport({ width: 1440, height: 900 });
+      await page.goto(body.url, { waitUntil: 'networkidle0', timeout: 30000 });
+      await dismissCookieBanners(page);
+      await new Promise(r => setTimeout(r, 1000));
+
+      nav = await extractNavigation(page);
+      footer = await extractFooter(page);
+      styles = await extractChromeStyles(page);
+    } finally {
+      await browser.close();
+    }
+
+    console.log(`Navigation: ${nav.sections.length} sections, ${nav.tools.length} tools; footer: ${footer.columns.length} columns`);
+
+    const daToken = await exchangeDACredentialsForToken(env.DA_CLIENT_ID, env.DA_CLIENT_SECRET, env.DA_SERVICE_TOKEN);
+    const navPath = `${basePath}/nav`;
+    const footerPath = `${basePath}/footer`;
+
+    const documents = [
+      { daPath: navPath, html: buildNavDocument(nav) },
+      { daPath: footerPath, html: buildFooterDocument(footer) },
+    ];
+    const linkMappings: LinkMapping[] = [];
+    for (const document of documents) {
+      // Menu and footer links point at the pages' EDS paths, inside the site's folder when
+      // the live documents are replaced (a drafts folder is not where the pages will live)
+      const links = rewriteInternalLinks(document.html, { pageUrl: body.url, basePath: body.replaceLive ? basePath : '' });
+      linkMappings.push(...links.mappings);
+
+      // Logo and footer images go into each document's media, like any authored image
+      const images = await migrateImages(links.html, {
+        org: body.da.org,
+        site: body.da.site,
+        folder: mediaFolderFor(document.daPath),
+        token: daToken,
+      }, { baseUrl: body.url });
+      for (const failure of images.failed) {
+        console.warn(`Image left on source site: ${failure.sourceUrl} (${failure.error})`);
+      }
+
+      const formData = new FormData();
+      formData.append('data', new Blob([images.html], { type: 'text/html' }));
+
+      const daResponse = await fetch(`https://admin.da.live/source/${body.da.org}/${body.da.site}${document.daPath}.html`, {
+        method: 'PUT',
+        headers: { 'Authorization': `Bearer ${daToken}` },
+        body: formData,
+      });
+      if (!daResponse.ok) {
+        throw new BlockGeneratorError(`DA push failed for ${document.daPath}: ${daResponse.status} - ${await daResponse.text()}`, 'DA_API_ERROR', 500);
+      }
+      console.log(`Pushed ${document.daPath} to DA`);
+    }
+
+    // Old URLs of the linked pages become redirects (best-effort). Drafts only return
+    // them, so the live /redirects sheet changes only with the live nav and footer
+    const redirects = buildRedirects(linkMappings);
+    let redirectsAdded = 0;
+    if (body.replaceLive && redirects.length > 0) {
+      try {
+        redirectsAdded = await writeRedirectsSheet({ org: body.da.org, site: body.da.site, token: daToken }, redirects);
+      } catch (redirectsError) {
+        console.warn('Could not update the redirects sheet:', redirectsError);
+      }
+    }
+
+    const headerCss = buildHeaderCss(styles.header, body.url);
+    const footerCss = buildFooterCss(styles.footer, body.url);
+
+    // CSS overrides are appended to the site's header/footer CSS on a review branch
+    let branch: string | undefined;
+    let commitUrl: string | undefined;
+    if (body.github) {
+      const githubToken = resolveGitHubToken(body.github, env);
+      if (!githubToken) {
+        throw new BlockGeneratorError('GitHub token not provided and not configured on server', 'GITHUB_AUTH_FAILED', 401);
+      }
+      const githubFetch = createGitHubFetcher(githubToken);
+      const { owner, repo } = body.github;
+      branch = `nav-${body.sessionId}`;
+      await ensureBranchExists(githubFetch, owner, repo, branch, 'main');
+
+      const files = [];
+      for (const [blockName, css] of [['header', headerCss], ['footer', footerCss]]) {
+        const path = `blocks/${blockName}/${blockName}.css`;
+        const existing = await getFileFromBranch(githubFetch, owner, repo, 'main', path);
+        files.push({ path, content: existing ? `${existing.trimEnd()}\n\n${css}` : css });
+      }
+      const commit = await pushFilesToBranch(githubFetch, owner, repo, branch, files, `Import header and footer styles from ${body.url}`);
+      commitUrl = commit.commitUrl;
+    }
+
+    const ref = branch || 'main';
+    const previewBase = `https://${ref}--${body.da.site}--${body.da.org}.aem.page`;
+
+    return Response.json({
+      success: true,
+      nav: { daPath: navPath, previewUrl: `${previewBase}${navPath}`, sections: nav.sections.length, tools: nav.tools.length },
+      footer: { daPath: footerPath, previewUrl: `${previewBase}${footerPath}`, columns: footer.columns.length },
+      css: { header: headerCss, footer: footerCss },
+      redirects: { rows: redirects, added: redirectsAdded },
+      ...(branch && { branch, commitUrl }),
+    }, { headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Request type for redirects
+ */
+interface RedirectsRequest {
+  /** Source site URLs (e.g. from its sitemap) */
+  urls: string[];
+  format?: 'json' | 'csv';
+}
+
+/**
+ * Redirects sheet mapping source URLs to the EDS paths their imports get,
+ * as DA sheet JSON or CSV
+ */
+async function handleRedirects(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json() as RedirectsRequest;
+
+    if (!Array.isArray(body.urls) || body.urls.length === 0) {
+      throw new BlockGeneratorError('Missing required fields: urls', 'INVALID_REQUEST', 400);
+    }
+
+    const mappings: LinkMapping[] = [];
+    for (const sourceUrl of body.urls) {
+      try {
+        mappings.push({ source: new URL(sourceUrl).href, target: publicPathFor(documentPathFor(sourceUrl)) });
+      } catch {
+        throw new BlockGeneratorError(`Invalid URL: ${sourceUrl}`, 'INVALID_URL', 400);
+      }
+    }
+    const rows = buildRedirects(mappings);
+
+    if (body.format === 'csv') {
+      return new Response(toRedirectsCsv(rows), {
+        headers: { ...corsHeaders(env), 'Content-Type': 'text/csv; charset=utf-8' },
+      });
+    }
+    return Response.json(toSheetJson(rows), { headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
 /**
  * Request type for page finalize
  */
 interface PageFinalizeRequest {
   branch: string;
   github: { owner: string; repo: string; token?: string };
+  /** Redirects /compose-page returned for the page, added to the site's /redirects sheet */
+  redirects?: RedirectRow[];
+  da?: { org: string; site: string };
 }
 
 /**
  * Handles /page-finalize endpoint
- * Merges page import branch to main
+ * Merges page import branch to main, then adds the page's redirects to /redirects
  */
 async function handlePageFinalize(request: Request, env: Env): Promise<Response> {
   try {
@@ -2069,6 +2733,19 @@ async function handlePageFinalize(request: Request, env: Env): Promise<Response>
         { status: 400, headers: corsHeaders(env) }
       );
     }
+    const redirects = body.redirects || [];
+    if (!Array.isArray(redirects) || redirects.some(row => typeof row?.Source !== 'string' || typeof row?.Destination !== 'string')) {
+      return Response.json(
+        { success: false, error: 'redirects must be an array of { Source, Destination } rows' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+    if (redirects.length > 0 && (!body.da?.org || !body.da?.site)) {
+      return Response.json(
+        { success: false, error: 'Missing required fields for redirects: da.org, da.site' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
 
     const githubToken = resolveGitHubToken(body.github, env);
     if (!githubToken) {
@@ -2125,10 +2802,25 @@ async function handlePageFinalize(request: Request, env: Env): Promise<Response>
       // Non-fatal, continue
     }
 
+    // The page's redirects go live with it (best-effort: the merge is done)
+    let redirectsAdded = 0;
+    if (redirects.length > 0 && env.DA_CLIENT_ID && env.DA_CLIENT_SECRET && env.DA_SERVICE_TOKEN) {
+      try {
+        const daToken = await exchangeDACredentialsForToken(env.DA_CLIENT_ID, env.DA_CLIENT_SECRET, env.DA_SERVICE_TOKEN);
+        redirectsAdded = await writeRedirectsSheet({ org: body.da!.org, site: body.da!.site, token: daToken }, redirects);
+        console.log(`Added ${redirectsAdded} redirects to /redirects`);
+      } catch (redirectsError) {
+        console.warn('Could not update the redirects sheet:', redirectsError);
+      }
+    } else if (redirects.length > 0) {
+      console.warn('DA service account not configured, redirects not written');
+    }
+
     return Response.json({
       success: true,
       commitSha: mergeResult.sha,
       commitUrl: mergeResult.html_url,
+      redirectsAdded,
     }, { headers: corsHeaders(env) });
 
   } catch (error) {
@@ -2210,6 +2902,11 @@ async function handleGenerateBlockForSection(request: Request, env: Env): Promis
     console.log(`Creating preview branch: ${variantBranch}`);
     await ensureBranchExists(githubFetch, body.github.owner, body.github.repo, variantBranch, 'main');
 
+    // Statically validate the JS (repairing violations) before it reaches the repo
+    const { js: blockJs } = await validateBlockJsForPush(block.js, blockName, block.html, env);
+    block.js = blockJs;
+    block.css = lintBlockCssForPush(block.css, blockName).css;
+
     // Push block code to branch
     const { commitSha, commitUrl } = await pushFilesToBranch(
       githubFetch,
@@ -2285,6 +2982,7 @@ async function handleGenerateBlockForSection(request: Request, env: Env): Promis
 
   } catch (error) {
     console.error('Generate block for section error:', error);
+    if (error instanceof LLMError) return handleError(error, env);
     return Response.json(
       { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500, headers: corsHeaders(env) }
@@ -2551,6 +3249,27 @@ async function handlePreview(request: Request, env: Env): Promise<Response> {
   }
 }
 
+/**
+ * Load the target repo's blocks for reuse matching (best-effort: generation
+ * continues without reuse if the repo cannot be read). `githubJson` is the
+ * GitHubConfig form field sent by the client.
+ */
+async function loadExistingBlocks(githubJson: string | null, env: Env): Promise<RepoBlock[]> {
+  if (!githubJson) return [];
+  try {
+    const github = JSON.parse(githubJson) as GitHubConfig & { useServerToken?: boolean };
+    const token = resolveGitHubToken(github, env);
+    if (!github.owner || !github.repo || !token) return [];
+
+    const blocks = await listRepoBlocks(createGitHubFetcher(token), github.owner, github.repo, baseBranchOf(github));
+    console.log(`Found ${blocks.length} existing blocks in ${github.owner}/${github.repo}: ${blocks.map(b => b.name).join(', ')}`);
+    return blocks;
+  } catch (error) {
+    console.warn('Could not load existing blocks, generating without reuse:', error);
+    return [];
+  }
+}
+
 /**
  * Core block generation logic - reusable with an existing browser instance
  * This is the extracted core from handleBlockGenerate for use in batch operations
@@ -2563,6 +3282,13 @@ interface GenerateBlockCoreParams {
   xpath: string;
   anthropicConfig: AnthropicConfig;
   extensionBackgroundImages?: ExtractedImage[];
+  progress?: ProgressReporter;
+  /** Also capture the element at mobile and tablet widths (needs xpath) */
+  responsive?: boolean;
+  /** Blocks already in the target repo; when one fits, only authoring content is produced */
+  existingBlocks?: RepoBlock[];
+  /** Block collector corpus: gold/silver blocks of the same type are used as examples */
+  referenceSource?: ReferenceBlockSource;
 }
 
 interface GenerateBlockCoreResult {
@@ -2570,14 +3296,21 @@ interface GenerateBlockCoreResult {
   screenshotBase64: string;
   screenshotMediaType: 'image/png' | 'image/jpeg';
   liveImages: ExtractedImage[];
+  /** Uncompressed element screenshots at narrower breakpoints (empty unless responsive) */
+  viewportScreenshots: ViewportScreenshot[];
+  /** Set when an existing repo block was reused: block.html is its authoring content, css/js are the repo's */
+  reusedBlock?: ReusedBlockInfo;
+  /** Claude's description of the component (generated blocks only) */
+  description?: ComponentDescription;
 }
 
 async function generateBlockCore(params: GenerateBlockCoreParams): Promise<GenerateBlockCoreResult> {
-  const { browser, url, xpath, anthropicConfig, extensionBackgroundImages } = params;
+  const { browser, url, xpath, anthropicConfig, extensionBackgroundImages, progress, responsive, existingBlocks, referenceSource } = params;
   let { screenshotBase64, html } = params;
 
   let extractedCssStyles: string | undefined;
   let liveImages: ExtractedImage[] = [];
+  let viewportScreenshots: ViewportScreenshot[] = [];
   let screenshotMediaType: 'image/png' | 'image/jpeg' = 'image/png';
 
   // Start with background images from extension (if provided)
@@ -2588,6 +3321,7 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
   }
 
   // Compress screenshot if too large for Claude API (5MB limit)
+  progress?.report('screenshot', 'Preparing element screenshot');
   const compressed = await compressImageIfNeeded(browser, screenshotBase64);
   screenshotBase64 = compressed.data;
   screenshotMediaType = compressed.mediaType;
@@ -2598,6 +3332,7 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
   let page: Awaited<ReturnType<typeof browser.newPage>> | null = null;
 
   try {
+    progress?.report('extraction', `Loading ${url} to extract HTML, images and styles`);
     page = await browser.newPage();
     await page.setViewport({ width: 1440, height: 900 });
     await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
@@ -2664,6 +3399,21 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
     } catch (styleError) {
       console.warn('Style extraction failed:', styleError);
     }
+
+    // Capture the element at mobile and tablet widths (desktop is the provided screenshot)
+    if (responsive && xpath) {
+      try {
+        progress?.report('screenshot', 'Capturing element at mobile and tablet widths');
+        console.log('Capturing responsive screenshots...');
+        viewportScreenshots = await captureElementAtViewports(
+          page,
+          xpath,
+          RESPONSIVE_VIEWPORTS.filter(v => v.name !== 'desktop')
+        );
+      } catch (viewportError) {
+        console.warn('Responsive capture failed, generating from desktop only:', viewportError);
+      }
+    }
   } catch (navigationError) {
     console.warn('Page navigation failed, continuing without extraction:', navigationError);
     // If we already have html, we can continue without the extracted data
@@ -2682,8 +3432,45 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
     throw new BlockGeneratorError('Could not extract HTML from provided xpath', 'PARSE_ERROR', 400);
   }
 
+  // Prefer an existing repo block over generating a near-duplicate
+  if (existingBlocks && existingBlocks.length > 0) {
+    progress?.report('llm', `Checking ${existingBlocks.length} existing blocks for a fit`);
+    try {
+      const match = await matchExistingBlock({
+        screenshotBase64,
+        screenshotMediaType,
+        html,
+        url,
+        blocks: existingBlocks,
+        imageUrls: liveImages.map(img => img.src),
+        config: anthropicConfig,
+      });
+      if (match) {
+        const existing = existingBlocks.find(b => b.name === match.blockName)!;
+        console.log(`Reusing existing block "${match.blockName}"${match.variant ? ` (${match.variant})` : ''}, confidence ${match.confidence}`);
+        const { authoringHtml, ...reusedBlock } = match;
+        return {
+          block: { html: authoringHtml, css: existing.css, js: existing.js, blockName: existing.name },
+          screenshotBase64,
+          screenshotMediaType,
+          liveImages,
+          viewportScreenshots,
+          reusedBlock,
+        };
+      }
+    } catch (matchError) {
+      console.warn('Existing block matching failed, generating a new block:', matchError);
+    }
+  }
+
   // Generate block using the enhanced generator
   console.log(`Generating block with Claude Vision... (mediaType=${screenshotMediaType})`);
+  progress?.report('llm', 'Generating block code with Claude Vision');
+  const viewportImages: ViewportImage[] = [];
+  for (const viewport of viewportScreenshots) {
+    const compressedViewport = await compressImageIfNeeded(browser, viewport.screenshot);
+    viewportImages.push({ name: viewport.name, width: viewport.width, data: compressedViewport.data, mediaType: compressedViewport.mediaType });
+  }
   const enhancedBlock = await generateBlockEnhanced(
     screenshotBase64,
     html,
@@ -2691,7 +3478,9 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
     anthropicConfig,
     extractedCssStyles,
     liveImages,
-    screenshotMediaType
+    screenshotMediaType,
+    viewportImages,
+    referenceSource
   );
 
   return {
@@ -2704,9 +3493,30 @@ async function generateBlockCore(params: GenerateBlockCoreParams): Promise<Gener
     screenshotBase64,
     screenshotMediaType,
     liveImages,
+    viewportScreenshots,
+    description: enhancedBlock.description,
   };
 }
 
+/**
+ * Breakpoint targets for per-breakpoint refinement: the captured narrower widths
+ * plus the desktop screenshot the client sent
+ */
+function buildBreakpointTargets(viewportScreenshots: ViewportScreenshot[], desktopScreenshot: string): BreakpointTarget[] {
+  const desktop = RESPONSIVE_VIEWPORTS.find(v => v.name === 'desktop')!;
+  return [
+    ...viewportScreenshots.map(v => ({ name: v.name, width: v.width, height: v.height, screenshot: v.screenshot })),
+    { name: desktop.name, width: desktop.width, height: desktop.height, screenshot: desktopScreenshot },
+  ];
+}
+
+/**
+ * Breakpoint scores for API responses (rendered screenshots omitted to keep payloads small)
+ */
+function summarizeBreakpoints(breakpoints: BreakpointComparison[]): Array<{ name: string; width: number; similarity?: SimilarityScore }> {
+  return breakpoints.map(b => ({ name: b.name, width: b.width, similarity: b.similarity }));
+}
+
 /**
  * Handles the block-generate endpoint
  * Accepts multipart form data with screenshot, URL, and HTML
@@ -2720,6 +3530,11 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
     const html = formData.get('html') as string;
     const xpath = formData.get('xpath') as string;
     const backgroundImagesJson = formData.get('backgroundImages') as string;
+    // Capture mobile/tablet layouts for responsive CSS unless responsive=false
+    const responsive = formData.get('responsive') !== 'false';
+    // Optional target repo (GitHubConfig JSON): reuse a fitting existing block unless reuseExisting=false
+    const githubJson = formData.get('github') as string | null;
+    const reuseExisting = formData.get('reuseExisting') !== 'false';
 
     // Parse background images from extension (CSS background-image URLs)
     let extensionBackgroundImages: ExtractedImage[] = [];
@@ -2754,7 +3569,7 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
     const anthropicConfig = getAnthropicConfig(env);
     if (!anthropicConfig) {
       return Response.json(
-        { success: false, error: 'Anthropic API not configured', code: 'INTERNAL_ERROR' },
+        { success: false, error: 'Anthropic API not configured', code: 'LLM_NOT_CONFIGURED' },
         { status: 500, headers: corsHeaders(env) }
       );
     }
@@ -2770,7 +3585,10 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
     const arrayBuffer = await screenshotFile.arrayBuffer();
     const screenshotBase64 = arrayBufferToBase64(arrayBuffer);
 
+    const existingBlocks = reuseExisting ? await loadExistingBlocks(githubJson, env) : [];
+
     let result: GenerateBlockCoreResult;
+    let runtime: RuntimeReport | undefined;
     try {
       const browser = await launchBrowserWithRetry(env.BROWSER);
       try {
@@ -2782,7 +3600,18 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
           xpath,
           anthropicConfig,
           extensionBackgroundImages,
+          responsive,
+          existingBlocks,
+          referenceSource: createBlockCollectorSource(env),
         });
+
+        // Render the block once to catch JS that throws (blank preview) and try to fix it
+        // (a reused repo block is left as it is)
+        if (!result.reusedBlock) {
+          const rendered = await renderAndHealBlock(browser, result.block, anthropicConfig);
+          result.block = rendered.block;
+          runtime = toRuntimeReport(rendered);
+        }
       } finally {
         await browser.close();
       }
@@ -2798,14 +3627,23 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
       );
     }
 
+    // Lint the generated CSS against EDS block rules, auto-fixing the mechanical cases
+    const blockName = result.block.blockName || 'block';
+    const { css, report: cssLint } = result.reusedBlock
+      ? { css: result.block.css, report: undefined }
+      : lintBlockCssForPush(result.block.css, blockName);
+
     // Build response
     const response: BlockResponse = {
       success: true,
-      blockName: result.block.blockName || 'block',
+      blockName,
       layoutPattern: 'unknown',
       html: result.block.html,
       js: result.block.js,
-      css: result.block.css,
+      css,
+      cssLint,
+      runtime,
+      reusedBlock: result.reusedBlock,
       metadata: {
         elementCount: 0,
         hasImages: result.liveImages.length > 0,
@@ -2822,12 +3660,79 @@ async function handleBlockGenerate(request: Request, env: Env): Promise<Response
   }
 }
 
+/**
+ * Record a /block-generate-full run in the session store (best-effort).
+ * Iterations are stored 1-based, matching the numbers clients use for /block-variant-push.
+ * Returns whether the run was recorded.
+ */
+async function recordGeneratedIterations(
+  env: Env,
+  run: {
+    sessionId: string;
+    option: number;
+    url: string;
+    selection: { xpath?: string; html?: string };
+    options: Record<string, unknown>;
+    screenshotBase64: string;
+    iterations: BlockCode[];
+    renderedScreenshots: Array<string | undefined>;
+    similarities: Array<SimilarityScore | undefined>;
+  }
+): Promise<boolean> {
+  const store = getSessionStore(env);
+  if (!store) return false;
+
+  try {
+    const screenshotKey = store.bucket
+      ? await uploadScreenshot(store.bucket, sessionPaths.original(run.sessionId), run.screenshotBase64)
+      : undefined;
+
+    await upsertSession(store.db, {
+      id: run.sessionId,
+      sourceUrl: run.url,
+      blockName: run.iterations[0]?.blockName,
+      selection: run.selection,
+      options: run.options,
+      screenshotKey,
+    });
+
+    for (let i = 0; i < run.iterations.length; i++) {
+      const block = run.iterations[i];
+      const iteration = i + 1;
+      const rendered = run.renderedScreenshots[i];
+      const iterationScreenshotKey = store.bucket && rendered
+        ? await uploadScreenshot(store.bucket, sessionPaths.iteration(run.sessionId, run.option, iteration), rendered)
+        : undefined;
+
+      await saveIteration(store.db, {
+        sessionId: run.sessionId,
+        option: run.option,
+        iteration,
+        parentIteration: i > 0 ? i : undefined,
+        blockName: block.blockName || 'generated-block',
+        html: block.html,
+        css: block.css,
+        js: block.js,
+        source: i === 0 ? 'generate' : 'refine',
+        screenshotKey: iterationScreenshotKey,
+        similarityScore: run.similarities[i]?.score,
+      });
+    }
+
+    console.log(`[block-generate-full] Recorded ${run.iterations.length} iterations in session ${run.sessionId} (option ${run.option})`);
+    return true;
+  } catch (storeError) {
+    console.warn('Failed to record session iterations:', storeError);
+    return false;
+  }
+}
+
 /**
  * Handles the block-generate-full endpoint
  * Generates initial block + 2 refinements in a single browser session
  * This reduces browser session usage from 3 sessions to 1 per option
  */
-async function handleBlockGenerateFull(request: Request, env: Env): Promise<Response> {
+async function handleBlockGenerateFull(request: Request, env: Env, progress?: ProgressReporter): Promise<Response> {
   try {
     const formData = await request.formData();
 
@@ -2836,6 +3741,14 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
     const html = formData.get('html') as string;
     const xpath = formData.get('xpath') as string;
     const refinementCount = parseInt(formData.get('refinements') as string || '2', 10);
+    // Responsive generation and per-breakpoint refinement is on by default (responsive=false to disable)
+    const responsive = formData.get('responsive') !== 'false';
+    // Optional: record iterations in the session store under this session/option
+    const sessionId = formData.get('sessionId') as string | null;
+    const option = parseInt(formData.get('option') as string || '1', 10);
+    // Optional target repo (GitHubConfig JSON): reuse a fitting existing block unless reuseExisting=false
+    const githubJson = formData.get('github') as string | null;
+    const reuseExisting = formData.get('reuseExisting') !== 'false';
 
     // Validate required fields
     const missing: string[] = [];
@@ -2854,7 +3767,7 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
     const anthropicConfig = getAnthropicConfig(env);
     if (!anthropicConfig) {
       return Response.json(
-        { success: false, error: 'Anthropic API not configured', code: 'INTERNAL_ERROR' },
+        { success: false, error: 'Anthropic API not configured', code: 'LLM_NOT_CONFIGURED' },
         { status: 500, headers: corsHeaders(env) }
       );
     }
@@ -2871,6 +3784,17 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
     const screenshotBase64 = arrayBufferToBase64(arrayBuffer);
 
     const iterations: BlockCode[] = [];
+    // Rendered screenshot and visual similarity to the original, per iteration
+    const renderedScreenshots: Array<string | undefined> = [];
+    const similarities: Array<SimilarityScore | undefined> = [];
+    // Per-breakpoint similarity per iteration (responsive generation only)
+    const breakpointScores: Array<BreakpointComparison[] | undefined> = [];
+    // Runtime errors (and automatic fixes) per iteration
+    const runtimeReports: Array<RuntimeReport | undefined> = [];
+    let reusedBlock: ReusedBlockInfo | undefined;
+    // Kept with the session so /block-finalize can describe the block in the DA library
+    let componentDescription: ComponentDescription | undefined;
+    const existingBlocks = reuseExisting ? await loadExistingBlocks(githubJson, env) : [];
 
     try {
       const browser = await launchBrowserWithRetry(env.BROWSER);
@@ -2884,22 +3808,84 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
           html,
           xpath,
           anthropicConfig,
+          progress,
+          responsive,
+          existingBlocks,
+          referenceSource: createBlockCollectorSource(env),
         });
-        iterations.push(initialResult.block);
-
-        // Step 2: Refinement iterations (reusing the same browser session)
-        let currentBlock = initialResult.block;
-        for (let i = 0; i < refinementCount; i++) {
-          console.log(`[block-generate-full] Refinement ${i + 1}/${refinementCount}...`);
-          const refinedResult = await refineBlock(
-            browser,
-            initialResult.screenshotBase64,
-            currentBlock,
-            anthropicConfig,
-            { width: 1440, height: 900 }
-          );
-          currentBlock = refinedResult.block;
-          iterations.push(refinedResult.block);
+        componentDescription = initialResult.description;
+
+        if (initialResult.reusedBlock) {
+          // An existing repo block fits: its code is kept as is, so there is nothing to heal or refine
+          reusedBlock = initialResult.reusedBlock;
+          iterations.push(initialResult.block);
+          renderedScreenshots.push(undefined);
+          similarities.push(undefined);
+          breakpointScores.push(undefined);
+          runtimeReports.push(undefined);
+        } else {
+          // Render the initial block at desktop width, fixing it first if its JS fails at runtime
+          const initialRender = await renderAndHealBlock(browser, initialResult.block, anthropicConfig, { width: 1440, height: 900 })
+            .catch(renderError => {
+              console.warn('[block-generate-full] Rendering initial block failed:', renderError);
+              return undefined;
+            });
+          const initialBlock = initialRender?.block || initialResult.block;
+          iterations.push(initialBlock);
+          runtimeReports.push(initialRender && toRuntimeReport(initialRender));
+
+          // Refine per breakpoint when the element was captured at narrower widths
+          const breakpointTargets = initialResult.viewportScreenshots.length > 0
+            ? buildBreakpointTargets(initialResult.viewportScreenshots, screenshotBase64)
+            : null;
+
+          // Render the initial block once so every iteration carries a similarity score
+          if (breakpointTargets) {
+            const initialBreakpoints = await compareBreakpoints(browser, breakpointTargets, initialBlock)
+              .catch(renderError => {
+                console.warn('[block-generate-full] Rendering initial block failed:', renderError);
+                return undefined;
+              });
+            const desktop = initialBreakpoints?.find(b => b.name === 'desktop');
+            renderedScreenshots.push(desktop?.generatedScreenshot);
+            similarities.push(desktop?.similarity);
+            breakpointScores.push(initialBreakpoints);
+          } else {
+            const initialScreenshot = initialRender?.screenshot;
+            renderedScreenshots.push(initialScreenshot);
+            similarities.push(await tryComputeVisualSimilarity(browser, screenshotBase64, initialScreenshot));
+            breakpointScores.push(undefined);
+          }
+
+          // Step 2: Refinement iterations (reusing the same browser session)
+          let currentBlock = initialBlock;
+          for (let i = 0; i < refinementCount; i++) {
+            console.log(`[block-generate-full] Refinement ${i + 1}/${refinementCount}...`);
+            progress?.report('refine', `Refinement ${i + 1}/${refinementCount}`, { iteration: i + 1, total: refinementCount });
+            if (breakpointTargets) {
+              const refinedResult = await refineBlockResponsive(browser, breakpointTargets, currentBlock, anthropicConfig);
+              currentBlock = refinedResult.block;
+              breakpointScores.push(refinedResult.breakpoints);
+              runtimeReports.push(refinedResult.runtime);
+              iterations.push(refinedResult.block);
+              renderedScreenshots.push(refinedResult.generatedScreenshot);
+              similarities.push(refinedResult.similarity);
+            } else {
+              const refinedResult = await refineBlock(
+                browser,
+                initialResult.screenshotBase64,
+                currentBlock,
+                anthropicConfig,
+                { width: 1440, height: 900 }
+              );
+              currentBlock = refinedResult.block;
+              breakpointScores.push(undefined);
+              runtimeReports.push(refinedResult.runtime);
+              iterations.push(refinedResult.block);
+              renderedScreenshots.push(refinedResult.generatedScreenshot);
+              similarities.push(refinedResult.similarity);
+            }
+          }
         }
       } finally {
         await browser.close();
@@ -2916,15 +3902,46 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
       );
     }
 
+    const recorded = sessionId
+      ? await recordGeneratedIterations(env, {
+        sessionId,
+        option,
+        url,
+        selection: { xpath: xpath || undefined, html: html || undefined },
+        options: {
+          refinements: refinementCount,
+          responsive,
+          ...(reusedBlock && { reusedBlock: reusedBlock.blockName }),
+          ...(componentDescription && { description: componentDescription }),
+        },
+        screenshotBase64,
+        iterations,
+        renderedScreenshots,
+        similarities,
+      })
+      : false;
+
+    // The client pushes these iterations: lint their CSS like any pushed block
+    // (a reused block is main's code and is not pushed)
+    const linted = iterations.map(block => (reusedBlock ? undefined : lintBlockCssForPush(block.css, block.blockName || 'block')));
+
     // Return all iterations
     return Response.json({
       success: true,
+      ...(recorded && { session: { id: sessionId, option } }),
+      ...(reusedBlock && { reusedBlock }),
+      ...(componentDescription && { description: componentDescription }),
       iterations: iterations.map((block, index) => ({
-        iteration: index,
+        // Numbered from 1 like the session store, so the value can be passed to rollback/fork
+        iteration: index + 1,
         blockName: block.blockName,
         html: block.html,
-        css: block.css,
+        css: linted[index]?.css ?? block.css,
+        ...(linted[index] && { cssLint: linted[index]!.report }),
         js: block.js,
+        similarity: similarities[index],
+        runtime: runtimeReports[index],
+        ...(breakpointScores[index] && { breakpoints: summarizeBreakpoints(breakpointScores[index]!) }),
       })),
     }, { status: 200, headers: corsHeaders(env) });
   } catch (error) {
@@ -2932,9 +3949,72 @@ async function handleBlockGenerateFull(request: Request, env: Env): Promise<Resp
   }
 }
 
+/**
+ * Record a /block-refine result as the next iteration of a session option (best-effort).
+ * Returns the recorded position to merge into the response, or an empty object.
+ */
+async function recordRefinedIteration(
+  env: Env,
+  refined: {
+    sessionId: string;
+    option: number;
+    parentIteration?: number;
+    block: BlockCode;
+    refinePrompt?: string;
+    screenshotBase64?: string;
+    similarity?: SimilarityScore;
+  }
+): Promise<{ session?: { id: string; option: number; iteration: number } }> {
+  const store = getSessionStore(env);
+  if (!store) return {};
+
+  try {
+    const session = await getSession(store.db, refined.sessionId);
+    if (!session) {
+      console.warn(`Session ${refined.sessionId} not found in store, refinement not recorded`);
+      return {};
+    }
+
+    const iteration = await getNextIterationNumber(store.db, refined.sessionId, refined.option);
+    const screenshotKey = store.bucket && refined.screenshotBase64
+      ? await uploadScreenshot(store.bucket, sessionPaths.iteration(refined.sessionId, refined.option, iteration), refined.screenshotBase64)
+      : undefined;
+
+    await saveIteration(store.db, {
+      sessionId: refined.sessionId,
+      option: refined.option,
+      iteration,
+      parentIteration: refined.parentIteration ?? iteration - 1,
+      blockName: refined.block.blockName || 'refined-block',
+      html: refined.block.html,
+      css: refined.block.css,
+      js: refined.block.js,
+      refinePrompt: refined.refinePrompt,
+      source: 'refine',
+      screenshotKey,
+      similarityScore: refined.similarity?.score,
+    });
+
+    return { session: { id: refined.sessionId, option: refined.option, iteration } };
+  } catch (storeError) {
+    console.warn('Failed to record refined iteration:', storeError);
+    return {};
+  }
+}
+
+/** Upper bound on auto-refine passes per request, regardless of what the client asks for */
+const MAX_AUTO_REFINE_ITERATIONS = 10;
+
 /**
  * Handles the block-refine endpoint
  * Accepts existing block code and refines it using pixelmatch comparison
+ *
+ * With mode=auto, keeps refining until the visual similarity reaches targetScore,
+ * improvement stalls (patience), or maxIterations / maxTokens is hit, and returns
+ * the best iteration rather than the last one.
+ *
+ * With responsive=true (and xpath), the original element is also captured at mobile
+ * and tablet widths and each breakpoint is compared separately (not combined with mode=auto).
  */
 async function handleBlockRefine(request: Request, env: Env): Promise<Response> {
   try {
@@ -2949,6 +4029,36 @@ async function handleBlockRefine(request: Request, env: Env): Promise<Response>
     const blockJs = formData.get('blockJs') as string;
     const blockName = formData.get('blockName') as string || 'refined-block';
     const refinePrompt = formData.get('prompt') as string;
+    // Optional: record the refined block as a new iteration of this session/option
+    const sessionId = formData.get('sessionId') as string | null;
+    const option = parseInt(formData.get('option') as string || '1', 10);
+    const parentIteration = parseInt(formData.get('iteration') as string || '', 10) || undefined;
+    // Optional: server-side refine loop (mode=auto) and its stopping rules
+    const autoMode = formData.get('mode') === 'auto';
+    // Optional: compare and refine mobile, tablet and desktop separately (needs xpath)
+    const responsive = formData.get('responsive') === 'true';
+    const numberField = (name: string, min: number, max: number, integer = false): number | undefined => {
+      const value = formData.get(name) as string | null;
+      if (!value) return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+        throw new BlockGeneratorError(
+          `Invalid ${name} "${value}": expected ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`,
+          'INVALID_REQUEST',
+          400
+        );
+      }
+      return parsed;
+    };
+    const autoOptions = autoMode
+      ? {
+        targetScore: numberField('targetScore', 0, 100),
+        maxIterations: numberField('maxIterations', 1, MAX_AUTO_REFINE_ITERATIONS, true) ?? 5,
+        maxTokens: numberField('maxTokens', 1, Number.MAX_SAFE_INTEGER, true),
+        minImprovement: numberField('minImprovement', 0, 100),
+        patience: numberField('patience', 1, MAX_AUTO_REFINE_ITERATIONS, true),
+      }
+      : undefined;
 
     // Validate required fields - html OR xpath must be provided
     const missing: string[] = [];
@@ -2970,7 +4080,7 @@ async function handleBlockRefine(request: Request, env: Env): Promise<Response>
     const anthropicConfig = getAnthropicConfig(env);
     if (!anthropicConfig) {
       return Response.json(
-        { success: false, error: 'Anthropic API not configured', code: 'INTERNAL_ERROR' },
+        { success: false, error: 'Anthropic API not configured', code: 'LLM_NOT_CONFIGURED' },
         { status: 500, headers: corsHeaders(env) }
       );
     }
@@ -3027,15 +4137,77 @@ async function handleBlockRefine(request: Request, env: Env): Promise<Response>
         console.warn('XPath extraction failed:', xpathError);
       }
     }
+
+    // Capture the original element at narrower widths for per-breakpoint refinement
+    let breakpointTargets: BreakpointTarget[] | null = null;
+    if (responsive && xpath && !autoMode) {
+      try {
+        const page = await browser.newPage();
+        try {
+          await page.setViewport({ width: 1440, height: 900 });
+          await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
+          await dismissCookieBanners(page);
+          const viewportScreenshots = await captureElementAtViewports(
+            page,
+            xpath,
+            RESPONSIVE_VIEWPORTS.filter(v => v.name !== 'desktop')
+          );
+          if (viewportScreenshots.length > 0) {
+            breakpointTargets = buildBreakpointTargets(viewportScreenshots, originalScreenshotBase64);
+          }
+        } finally {
+          await page.close();
+        }
+      } catch (viewportError) {
+        console.warn('Responsive capture failed, refining at desktop only:', viewportError);
+      }
+    }
+
     try {
-      const result = await refineBlock(
-        browser,
-        originalScreenshotBase64,
-        currentBlock,
-        anthropicConfig,
-        { width: 1440, height: 900 },
-        refinePrompt || undefined
-      );
+      let result: RefinementResult;
+      let breakpoints: BreakpointComparison[] | undefined;
+      let autoRefine: Omit<AutoRefineResult, 'best'> & { bestIteration: number } | undefined;
+
+      if (autoOptions) {
+        const auto = await autoRefineBlock(browser, originalScreenshotBase64, currentBlock, anthropicConfig, {
+          ...autoOptions,
+          userPrompt: refinePrompt || undefined,
+        });
+
+        result = {
+          block: auto.best.block,
+          refinementApplied: auto.best.iteration > 0,
+          refinementNotes: `Auto-refined: best of ${auto.iterations.length} iterations (stopped: ${auto.stopReason})`,
+          generatedScreenshot: auto.best.screenshot,
+          similarity: auto.best.similarity,
+          runtime: auto.best.runtime,
+        };
+        autoRefine = {
+          bestIteration: auto.best.iteration,
+          stopReason: auto.stopReason,
+          iterations: auto.iterations,
+          usage: auto.usage,
+        };
+      } else if (breakpointTargets) {
+        const responsiveResult = await refineBlockResponsive(
+          browser,
+          breakpointTargets,
+          currentBlock,
+          anthropicConfig,
+          refinePrompt || undefined
+        );
+        result = responsiveResult;
+        breakpoints = responsiveResult.breakpoints;
+      } else {
+        result = await refineBlock(
+          browser,
+          originalScreenshotBase64,
+          currentBlock,
+          anthropicConfig,
+          { width: 1440, height: 900 },
+          refinePrompt || undefined
+        );
+      }
 
       // Build response
       const response = {
@@ -3046,7 +4218,20 @@ async function handleBlockRefine(request: Request, env: Env): Promise<Response>
         css: result.block.css,
         refinementApplied: result.refinementApplied,
         refinementNotes: result.refinementNotes,
-        generatedScreenshot: result.generatedScreenshot
+        generatedScreenshot: result.generatedScreenshot,
+        similarity: result.similarity,
+        runtime: result.runtime,
+        ...(breakpoints && { breakpoints: summarizeBreakpoints(breakpoints) }),
+        ...(autoRefine && { autoRefine }),
+        ...(sessionId && await recordRefinedIteration(env, {
+          sessionId,
+          option,
+          parentIteration,
+          block: { ...result.block, blockName: result.block.blockName || blockName },
+          refinePrompt: refinePrompt || undefined,
+          screenshotBase64: result.generatedScreenshot,
+          similarity: result.similarity,
+        })),
       };
 
       return Response.json(response, { status: 200, headers: corsHeaders(env) });
@@ -3070,6 +4255,8 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
 
     const screenshotFile = formData.get('screenshot') as File;
     const blocksJson = formData.get('blocks') as string;
+    // Optional: render options without a previewUrl through the repo's EDS pipeline (GitHubConfig JSON)
+    const githubJson = formData.get('github') as string | null;
 
     if (!screenshotFile || !blocksJson) {
       return Response.json(
@@ -3100,7 +4287,7 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
     const anthropicConfig = getAnthropicConfig(env);
     if (!anthropicConfig) {
       return Response.json(
-        { success: false, error: 'Anthropic API not configured', code: 'INTERNAL_ERROR' },
+        { success: false, error: 'Anthropic API not configured', code: 'LLM_NOT_CONFIGURED' },
         { status: 500, headers: corsHeaders(env) }
       );
     }
@@ -3116,13 +4303,37 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
     const arrayBuffer = await screenshotFile.arrayBuffer();
     const originalScreenshotBase64 = arrayBufferToBase64(arrayBuffer);
 
+    let edsSource: ReturnType<typeof createGitHubSiteSource> | undefined;
+    if (githubJson) {
+      try {
+        const github = JSON.parse(githubJson) as GitHubConfig & { useServerToken?: boolean };
+        edsSource = createGitHubSiteSource({ ...github, token: resolveGitHubToken(github, env) });
+      } catch {
+        return Response.json(
+          { success: false, error: 'Invalid github JSON', code: 'INVALID_REQUEST' },
+          { status: 400, headers: corsHeaders(env) }
+        );
+      }
+    }
+
     // Launch browser
     const browser = await launchBrowserWithRetry(env.BROWSER);
 
+    // Render an option locally: through the simulated EDS site when a repo was given,
+    // otherwise on the standalone EDS runtime
+    const renderLocally = (block: typeof blocks[number]) => renderBlockWithDiagnostics(
+      browser,
+      { html: block.html, css: block.css, js: block.js, blockName: block.blockName },
+      { width: 1440, height: 900 },
+      edsSource
+    );
+
     try {
       // Capture screenshots - either from EDS preview URLs or local rendering
       console.log(`Capturing ${blocks.length} blocks for comparison...`);
       const renderedScreenshots: string[] = [];
+      // Runtime errors of locally rendered options (EDS preview captures are not inspected)
+      const runtimeDiagnostics: Array<RenderDiagnostics | undefined> = [];
 
       for (let i = 0; i < blocks.length; i++) {
         const block = blocks[i];
@@ -3133,28 +4344,29 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
           try {
             const screenshot = await captureUrlScreenshot(browser, block.previewUrl, { width: 1440, height: 900 });
             renderedScreenshots.push(screenshot);
+            runtimeDiagnostics.push(undefined);
           } catch (edsErr) {
             console.warn(`  EDS capture failed, falling back to local render:`, edsErr);
             // Fallback to local rendering if EDS preview fails
-            const screenshot = await renderBlockToScreenshot(
-              browser,
-              { html: block.html, css: block.css, js: block.js, blockName: block.blockName },
-              { width: 1440, height: 900 }
-            );
+            const { screenshot, diagnostics } = await renderLocally(block);
             renderedScreenshots.push(screenshot);
+            runtimeDiagnostics.push(diagnostics);
           }
         } else {
           // No EDS URL, render locally
-          console.log(`  Rendering block ${i + 1}/${blocks.length} locally...`);
-          const screenshot = await renderBlockToScreenshot(
-            browser,
-            { html: block.html, css: block.css, js: block.js, blockName: block.blockName },
-            { width: 1440, height: 900 }
-          );
+          console.log(`  Rendering block ${i + 1}/${blocks.length} locally${edsSource ? ' (EDS simulator)' : ''}...`);
+          const { screenshot, diagnostics } = await renderLocally(block);
           renderedScreenshots.push(screenshot);
+          runtimeDiagnostics.push(diagnostics);
         }
       }
 
+      // Deterministic visual similarity of each option to the original (used as tie-breaker)
+      const similarities: Array<SimilarityScore | undefined> = [];
+      for (const screenshot of renderedScreenshots) {
+        similarities.push(await tryComputeVisualSimilarity(browser, originalScreenshotBase64, screenshot));
+      }
+
       // Compress images if needed for Claude API
       const compressedOriginal = await compressImageIfNeeded(browser, originalScreenshotBase64);
 
@@ -3165,7 +4377,7 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
       }
 
       // Build the vision prompt
-      const content: Array<{ type: string; source?: any; text?: string }> = [];
+      const content: ClaudeContentBlock[] = [];
 
       // Add original image
       content.push({
@@ -3183,9 +4395,13 @@ async function handleBlockWinner(request: Request, env: Env): Promise<Response>
 
       // Add rendered blocks
       for (let i = 0; i < compressedRendered.length; i++) {
+        const diagnostics = runtimeDiagnostics[i];
+        const runtimeNote = diagnostics && hasRuntimeErrors(diagnostics)
+          ? ` (WARNING: its JavaScript failed at runtime, so parts may be missing: ${[...diagnostics.pageErrors, ...diagnostics.consoleErrors].join('; ').substring(0, 300)})`
+          : '';
         content.push({
           type: 'text',
-          text: `Image ${i + 2}: OPTION ${blocks[i].optionIndex + 1} - Generated block`
+          text: `Image ${i + 2}: OPTION ${blocks[i].optionIndex + 1} - Generated block${runtimeNote}`
         });
         content.push({
           type: 'image',
@@ -3225,62 +4441,14 @@ Return ONLY a JSON object:
       });
 
       // Call Claude API
-      let response: Response;
-
-      if (anthropicConfig.useBedrock && anthropicConfig.bedrockToken) {
-        const region = anthropicConfig.bedrockRegion || 'us-east-1';
-        const model = anthropicConfig.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-        const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-        response = await fetch(bedrockUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${anthropicConfig.bedrockToken}`,
-          },
-          body: JSON.stringify({
-            anthropic_version: 'bedrock-2023-05-31',
-            max_tokens: 4096,
-            messages: [{ role: 'user', content }],
-          }),
-        });
-      } else if (anthropicConfig.apiKey) {
-        response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': anthropicConfig.apiKey,
-            'anthropic-version': '2023-06-01',
-          },
-          body: JSON.stringify({
-            model: 'claude-sonnet-4-20250514',
-            max_tokens: 4096,
-            messages: [{ role: 'user', content }],
-          }),
-        });
-      } else {
-        return Response.json(
-          { success: false, error: 'No Anthropic API configuration', code: 'INTERNAL_ERROR' },
-          { status: 500, headers: corsHeaders(env) }
-        );
-      }
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Claude API error: ${response.status} - ${error}`);
-      }
-
-      const result = await response.json() as {
-        content: Array<{ type: string; text?: string }>;
-      };
-
-      const textContent = result.content.find(c => c.type === 'text');
-      if (!textContent?.text) {
-        throw new Error('No text response from Claude');
-      }
+      const response = await callClaude(
+        anthropicConfig,
+        { content, maxTokens: 4096 },
+        { label: 'block-winner' }
+      );
 
       // Parse the JSON response
-      const jsonMatch = textContent.text.match(/\{[\s\S]*\}/);
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
         throw new Error('Failed to parse winner selection from Claude');
       }
@@ -3292,8 +4460,29 @@ Return ONLY a JSON object:
         scores: Array<{ option: number; score: number; notes: string }>;
       };
 
-      // Get the winning block
-      const winnerIndex = winnerResult.winner - 1;
+      // Get the winning block; options the LLM scored equally are decided by visual similarity
+      const llmWinnerIndex = winnerResult.winner - 1;
+      const llmScores = blocks.map((_, i) => ({
+        llmScore: winnerResult.scores?.find(s => s.option === i + 1)?.score ?? -1,
+        similarity: similarities[i],
+      }));
+      let winnerIndex = breakTieBySimilarity(llmScores, llmWinnerIndex);
+      if (winnerIndex !== llmWinnerIndex) {
+        console.log(`Tie on LLM score: option ${winnerIndex + 1} wins on visual similarity over option ${llmWinnerIndex + 1}`);
+      }
+
+      // Never pick an option whose JS failed at runtime while a working option exists
+      const isBroken = (i: number) => !!runtimeDiagnostics[i] && hasRuntimeErrors(runtimeDiagnostics[i]!);
+      let brokenWinnerReplaced = false;
+      if (isBroken(winnerIndex)) {
+        const working = blocks.map((_, i) => i).filter(i => !isBroken(i));
+        if (working.length > 0) {
+          const fallback = working.reduce((a, b) => (llmScores[b].llmScore > llmScores[a].llmScore ? b : a));
+          console.log(`Option ${winnerIndex + 1} has runtime errors, choosing option ${fallback + 1} instead`);
+          winnerIndex = fallback;
+          brokenWinnerReplaced = true;
+        }
+      }
       const winningBlock = blocks[winnerIndex];
 
       return Response.json({
@@ -3303,14 +4492,23 @@ Return ONLY a JSON object:
           blockName: winningBlock.blockName,
           html: winningBlock.html,
           css: winningBlock.css,
-          js: winningBlock.js
+          js: winningBlock.js,
+          similarity: similarities[winnerIndex]
         },
         confidence: winnerResult.confidence,
         reasoning: winnerResult.reasoning,
-        scores: winnerResult.scores,
+        tieBrokenBySimilarity: winnerIndex !== llmWinnerIndex && !brokenWinnerReplaced,
+        brokenWinnerReplaced,
+        scores: (winnerResult.scores || []).map(score => ({
+          ...score,
+          similarity: similarities[score.option - 1],
+          runtimeErrors: runtimeDiagnostics[score.option - 1]
+        })),
         screenshots: renderedScreenshots.map((s, i) => ({
           optionIndex: blocks[i].optionIndex,
-          screenshot: s
+          screenshot: s,
+          similarity: similarities[i],
+          runtimeErrors: runtimeDiagnostics[i]
         }))
       }, { status: 200, headers: corsHeaders(env) });
 
@@ -5465,7 +6663,82 @@ async function handleDebugBboxes(request: Request, env: Env): Promise<Response>
       await browser.close();
     }
   } catch (error) {
-    console.error('Debug visual analysis failed:', error);
+    console.error('Debug visual analysis failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return Response.json(
+      { success: false, error: message, code: 'DEBUG_ERROR' },
+      { status: 500, headers: corsHeaders(env) }
+    );
+  }
+}
+
+/**
+ * Debug endpoint to benchmark section detectors against hand-labeled fixture pages
+ * Accepts either a fixture manifest URL (see fixtures/detection/index.json) or inline fixtures
+ */
+async function handleDetectorBenchmark(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json() as {
+      fixturesUrl?: string;
+      fixtures?: DetectorFixture[];
+      detectors?: string[];
+      iouThreshold?: number;
+    };
+
+    if (!body?.fixturesUrl && !Array.isArray(body?.fixtures)) {
+      return Response.json(
+        { success: false, error: 'Either "fixturesUrl" or "fixtures" is required', code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+
+    const requested = body.detectors && body.detectors.length > 0 ? body.detectors : DETECTOR_NAMES;
+    const unknown = requested.filter(name => !isDetectorName(name));
+    if (unknown.length > 0) {
+      return Response.json(
+        { success: false, error: `Unknown detectors: ${unknown.join(', ')}. Available: ${DETECTOR_NAMES.join(', ')}`, code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+    const detectorNames = requested as DetectorName[];
+
+    if (!env.BROWSER) {
+      return Response.json(
+        { success: false, error: 'Browser Rendering not configured', code: 'CONFIG_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    const anthropicConfig = getAnthropicConfig(env);
+    if (!anthropicConfig) {
+      return Response.json(
+        { success: false, error: 'Claude API not configured', code: 'CONFIG_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    const fixtures = body.fixturesUrl
+      ? await loadFixtureManifest(body.fixturesUrl)
+      : body.fixtures!;
+
+    console.log(`Benchmarking ${detectorNames.length} detectors on ${fixtures.length} fixtures`);
+
+    const browser = await launchBrowserWithRetry(env.BROWSER);
+    try {
+      const report = await runDetectorBenchmark(
+        browser,
+        fixtures,
+        detectorNames,
+        anthropicConfig,
+        body.iouThreshold ?? 0.5
+      );
+
+      return Response.json({ success: true, ...report }, { status: 200, headers: corsHeaders(env) });
+    } finally {
+      await browser.close();
+    }
+  } catch (error) {
+    console.error('Detector benchmark failed:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
     return Response.json(
       { success: false, error: message, code: 'DEBUG_ERROR' },
@@ -6562,14 +7835,13 @@ async function exchangeDACredentialsForToken(
 /**
  * Wrap block HTML in proper EDS page structure for DA
  * This creates a full page with header, main, and footer sections
+ * ('markdown' renders that page as EDS Markdown instead)
  */
-function wrapBlockInPageStructure(blockHtml: string): string {
+function wrapBlockInPageStructure(blockHtml: string, format: Exclude<OutputFormat, 'docx'> = 'html'): string {
   // Check if the HTML already has proper page structure
-  if (blockHtml.includes('<body') || blockHtml.includes('<main')) {
-    return blockHtml;
-  }
-
-  return `<body>
+  const pageHtml = blockHtml.includes('<body') || blockHtml.includes('<main')
+    ? blockHtml
+    : `<body>
   <header></header>
   <main>
     <div>
@@ -6578,6 +7850,8 @@ ${blockHtml.split('\n').map(line => '      ' + line).join('\n')}
   </main>
   <footer></footer>
 </body>`;
+
+  return format === 'markdown' ? renderMarkdown(pageHtml) : pageHtml;
 }
 
 /**
@@ -6675,6 +7949,8 @@ async function handleBlockDA(request: Request, env: Env): Promise<Response> {
       pageUrl: pageUrl,
       previewUrl: previewUrl,
       path: `/${body.org}/${body.site}${path}`,
+      ...(body.format === 'markdown' && { markdown: wrapBlockInPageStructure(body.html, 'markdown') }),
+      ...(body.format === 'docx' && { docx: arrayBufferToBase64(await writeDocx(wrappedHtml)) }),
     };
 
     return Response.json(result, { status: 201, headers: corsHeaders(env) });
@@ -6965,6 +8241,80 @@ async function pushFilesToBranch(
   };
 }
 
+/**
+ * Handles /block-preview-local endpoint
+ * Renders the block's authoring HTML through the repo's own scripts/aem.js + scripts.js
+ * pipeline with the candidate block files, inside the worker's headless browser.
+ * Repo files are read from GitHub (or the public raw host without a token);
+ * `files` can override any repo file by path.
+ */
+async function handleBlockPreviewLocal(request: Request, env: Env): Promise<Response> {
+  try {
+    const body = await request.json() as {
+      blockName: string;
+      html: string;
+      css: string;
+      js: string;
+      github: GitHubConfig & { useServerToken?: boolean };
+      files?: Record<string, string>;
+      viewport?: { width: number; height: number };
+      fullPage?: boolean;
+    };
+
+    const missing: string[] = [];
+    if (!body.blockName) missing.push('blockName');
+    if (!body.html) missing.push('html');
+    if (body.css === undefined) missing.push('css');
+    if (body.js === undefined) missing.push('js');
+    if (!body.github?.owner) missing.push('github.owner');
+    if (!body.github?.repo) missing.push('github.repo');
+
+    if (missing.length > 0) {
+      throw new BlockGeneratorError(
+        `Missing required fields: ${missing.join(', ')}`,
+        'INVALID_REQUEST',
+        400
+      );
+    }
+
+    if (!env.BROWSER) {
+      return Response.json(
+        { success: false, error: 'Browser Rendering not configured', code: 'INTERNAL_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    const blockName = body.blockName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+    const source = withBlockFiles(
+      createGitHubSiteSource({ ...body.github, token: resolveGitHubToken(body.github, env) }),
+      { blockName, css: body.css, js: body.js },
+      body.files
+    );
+
+    const browser = await launchBrowserWithRetry(env.BROWSER);
+    try {
+      const preview = await renderEdsPreview(browser, source, body.html, {
+        viewport: body.viewport,
+        fullPage: body.fullPage,
+      });
+
+      return Response.json({
+        success: true,
+        blockName,
+        screenshot: preview.screenshot,
+        blocksLoaded: preview.blocksLoaded,
+        diagnostics: preview.diagnostics,
+        missingFiles: preview.missingFiles,
+        decoratedHtml: preview.decoratedHtml,
+      }, { status: 200, headers: corsHeaders(env) });
+    } finally {
+      await browser.close();
+    }
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
 /**
  * Handles /block-variant-push endpoint
  * Pushes a block variant to GitHub (code) and DA (content)
@@ -7013,25 +8363,50 @@ async function handleBlockVariantPush(request: Request, env: Env): Promise<Respo
     // Create GitHub fetcher
     const githubFetch = createGitHubFetcher(githubToken);
 
-    // Create variant branch from main and push code
-    await ensureBranchExists(githubFetch, body.github.owner, body.github.repo, variantBranch, 'main');
+    // The client's reusedBlock flag is only a hint: the block counts as reused when the base
+    // branch (the one existing blocks were listed from) already has exactly this code,
+    // otherwise it is validated and pushed like any other
+    const baseBranch = baseBranchOf(body.github);
+    const baseBlock = body.reusedBlock
+      ? await getRepoBlockFiles(githubFetch, body.github.owner, body.github.repo, blockName, baseBranch)
+      : null;
+    const reusedBlock = !!baseBlock && baseBlock.js.trim() === body.js.trim() && baseBlock.css.trim() === body.css.trim();
+    if (body.reusedBlock && !reusedBlock) {
+      console.warn(`${blockName} was sent as a reused block but differs from ${baseBranch}, pushing it as a new block`);
+    }
+
+    // Statically validate the JS (repairing violations) before anything is pushed.
+    // A reused repo block is not validated or pushed: only its DA content changes.
+    const { js, validation } = reusedBlock
+      ? { js: body.js, validation: { repaired: false, repairAttempts: 0, violations: [] } }
+      : await validateBlockJsForPush(body.js, blockName, body.html, env);
+    const { css, report: cssLint } = reusedBlock
+      ? { css: body.css, report: undefined }
+      : lintBlockCssForPush(body.css, blockName);
+
+    // Create variant branch from the base branch and push code
+    await ensureBranchExists(githubFetch, body.github.owner, body.github.repo, variantBranch, baseBranch);
 
     const jsPath = `blocks/${blockName}/${blockName}.js`;
     const cssPath = `blocks/${blockName}/${blockName}.css`;
 
-    const { commitSha, commitUrl } = await pushFilesToBranch(
-      githubFetch,
-      body.github.owner,
-      body.github.repo,
-      variantBranch,
-      [
-        { path: jsPath, content: body.js },
-        { path: cssPath, content: body.css },
-      ],
-      `Add ${blockName} block (session ${body.sessionId}, opt ${body.option}, iter ${body.iteration})`
-    );
+    if (reusedBlock) {
+      console.log(`Reusing existing ${blockName} block from ${baseBranch}, no code pushed`);
+    } else {
+      const { commitUrl } = await pushFilesToBranch(
+        githubFetch,
+        body.github.owner,
+        body.github.repo,
+        variantBranch,
+        [
+          { path: jsPath, content: js },
+          { path: cssPath, content: css },
+        ],
+        `Add ${blockName} block (session ${body.sessionId}, opt ${body.option}, iter ${body.iteration})`
+      );
 
-    console.log(`Pushed code to GitHub: ${commitUrl}`);
+      console.log(`Pushed code to GitHub: ${commitUrl}`);
+    }
 
     // Step 3: Push HTML to DA
     const wrappedHtml = wrapBlockInPageStructure(body.html);
@@ -7126,13 +8501,39 @@ async function handleBlockVariantPush(request: Request, env: Env): Promise<Respo
       daPath: variantDaPath,
       previewUrl,
       html: body.html,
-      css: body.css,
-      js: body.js,
+      css,
+      js,
     };
 
+    // Keep the stored iteration in sync with what was pushed (best-effort)
+    const store = getSessionStore(env);
+    if (store) {
+      try {
+        if (await getSession(store.db, body.sessionId)) {
+          await saveIteration(store.db, {
+            sessionId: body.sessionId,
+            option: body.option,
+            iteration: body.iteration,
+            blockName,
+            html: body.html,
+            css,
+            js,
+            source: body.iteration === 1 ? 'generate' : 'refine',
+            branch: variantBranch,
+            daPath: variantDaPath,
+            previewUrl,
+          });
+        }
+      } catch (storeError) {
+        console.warn('Failed to record pushed variant:', storeError);
+      }
+    }
+
     const response: BlockVariantPushResponse = {
       success: true,
       variant,
+      validation,
+      ...(cssLint && { cssLint }),
     };
 
     return Response.json(response, { status: 201, headers: corsHeaders(env) });
@@ -7141,6 +8542,56 @@ async function handleBlockVariantPush(request: Request, env: Env): Promise<Respo
   }
 }
 
+/**
+ * Lint block CSS against the EDS block rules before it is pushed, auto-fixing the
+ * mechanical cases (unscoped selectors, container backgrounds, !important, fixed widths)
+ */
+function lintBlockCssForPush(css: string, blockName: string): { css: string; report: CssLintReport } {
+  const { css: fixed, report } = lintBlockCss(css, blockName);
+  if (report.findings.length > 0) {
+    console.log(`CSS lint for ${blockName}: ${report.findings.length} finding(s), ${report.fixedCount} auto-fixed`);
+  }
+  return { css: fixed, report };
+}
+
+/**
+ * Validate block JS against the EDS block rules before it is pushed, asking Claude
+ * for a targeted repair when violations are found. Throws VALIDATION_FAILED when
+ * the JS is still invalid (or no Anthropic config is available to repair it).
+ */
+async function validateBlockJsForPush(
+  js: string,
+  blockName: string,
+  html: string | undefined,
+  env: Env
+): Promise<{ js: string; validation: BlockJsValidationSummary }> {
+  const report = await validateAndRepairBlockJs(js, { blockName, html }, getAnthropicConfig(env));
+
+  if (!report.valid) {
+    const details = report.violations
+      .map(v => `${v.rule}${v.line ? ` (line ${v.line})` : ''}: ${v.message}`)
+      .join('; ');
+    throw new BlockGeneratorError(
+      `Block JS failed validation${report.repairAttempts > 0 ? ` after ${report.repairAttempts} repair attempt(s)` : ''}: ${details}`,
+      'VALIDATION_FAILED',
+      422
+    );
+  }
+
+  if (report.repaired) {
+    console.log(`Repaired block JS (${report.initialViolations.length} violation(s), ${report.repairAttempts} attempt(s))`);
+  }
+
+  return {
+    js: report.js,
+    validation: {
+      repaired: report.repaired,
+      repairAttempts: report.repairAttempts,
+      violations: report.initialViolations,
+    },
+  };
+}
+
 /**
  * Handles /block-finalize endpoint
  * Merges winning variant to site branch and cleans up
@@ -7180,6 +8631,17 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
       body.winner.iteration
     );
 
+    // Universal Editor component models for xwalk projects (best-effort), committed to the
+    // winner branch so they reach main in the same merge as the block
+    let universalEditor: BlockFinalizeResponse['universalEditor'] | null = null;
+    if (body.universalEditor !== false) {
+      try {
+        universalEditor = await commitUniversalEditorModels(githubFetch, body, blockName, winnerBranch, env);
+      } catch (ueErr) {
+        console.warn('Failed to commit Universal Editor models:', ueErr);
+      }
+    }
+
     console.log(`Finalizing: merging ${winnerBranch} into main`);
 
     // Create merge into main (using GitHub merge API)
@@ -7217,6 +8679,7 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
         commitSha: mergeData.sha,
         commitUrl,
       },
+      ...(universalEditor && { universalEditor }),
     };
 
     // Copy winner DA page to library path
@@ -7224,7 +8687,7 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
       try {
         const imsToken = await getDAToken(env);
         const winnerDaPath = `/drafts/gen/${body.sessionId}-${body.winner.option}-${body.winner.iteration}`;
-        const libraryPath = `/docs/library/blocks/${blockName}`;
+        const libraryPath = body.finalDaPath || `${BLOCKS_SHEET_PATH}/${blockName}`;
 
         console.log(`Copying DA page from ${winnerDaPath} to ${libraryPath}`);
 
@@ -7238,10 +8701,29 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
         if (sourceResponse.ok) {
           const sourceHtml = await sourceResponse.text();
 
+          // Authors copy from the library page: just the block, without source-site attributes
+          let exampleHtml = sourceHtml;
+          try {
+            exampleHtml = cleanLibraryExample(sourceHtml, blockName);
+          } catch (cleanErr) {
+            console.warn('Could not clean library example, copying the page as is:', cleanErr);
+          }
+
+          // The library page outlives the import: its images move off the source site
+          const images = await migrateImages(exampleHtml, {
+            org: body.da.org,
+            site: body.da.site,
+            folder: mediaFolderFor(libraryPath),
+            token: imsToken,
+          });
+          if (images.failed.length > 0) {
+            console.warn(`Library page keeps ${images.failed.length} source-site images:`, images.failed.map(failure => failure.sourceUrl));
+          }
+
           // Create the library page with the same content
           const destUrl = `https://admin.da.live/source/${body.da.org}/${body.da.site}${libraryPath}.html`;
           const formData = new FormData();
-          formData.append('data', new Blob([sourceHtml], { type: 'text/html' }));
+          formData.append('data', new Blob([images.html], { type: 'text/html' }));
 
           const destResponse = await fetch(destUrl, {
             method: 'PUT',
@@ -7263,6 +8745,27 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
               previewUrl: `https://main--${body.da.site}--${body.da.org}.aem.page${libraryPath}`,
             };
             console.log(`Copied DA page to library: ${libraryPath}`);
+
+            // List the block in the authors' block library
+            try {
+              const store = body.description ? null : getSessionStore(env);
+              const session = store ? await getSession(store.db, body.sessionId) : null;
+              const description = describeForAuthors(
+                blockName,
+                body.description || session?.options.description as ComponentDescription | undefined
+              );
+              const registration = await registerLibraryBlock(
+                { org: body.da.org, site: body.da.site, token: imsToken },
+                {
+                  name: blockTitle(blockName),
+                  path: `https://content.da.live/${body.da.org}/${body.da.site}${libraryPath}`,
+                  description,
+                }
+              );
+              result.library.sheet = { path: registration.sheetPath, added: registration.added, description };
+            } catch (sheetErr) {
+              console.warn('Failed to register block in the library sheet:', sheetErr);
+            }
           } else {
             console.warn(`Failed to copy DA page to library: ${destResponse.status}`);
           }
@@ -7275,6 +8778,16 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
       }
     }
 
+    // Record the winner in the session store (best-effort)
+    const store = getSessionStore(env);
+    if (store) {
+      try {
+        await setSessionWinner(store.db, body.sessionId, body.winner, blockName);
+      } catch (storeError) {
+        console.warn('Failed to record session winner:', storeError);
+      }
+    }
+
     // Cleanup if requested
     if (body.cleanup !== false) {
       const cleanupResult = await cleanupGenerationSession(
@@ -7294,6 +8807,95 @@ async function handleBlockFinalize(request: Request, env: Env): Promise<Response
   }
 }
 
+/**
+ * Infers component definition/model/filter entries for a finalized block from its authoring
+ * HTML and commits main's component-*.json files, with the block merged in, to the branch
+ * about to be merged. Skipped (returns null) for document-authored projects unless the
+ * request opts in with `universalEditor: true`.
+ */
+async function commitUniversalEditorModels(
+  githubFetch: (url: string, options?: RequestInit) => Promise<Response>,
+  body: BlockFinalizeRequest,
+  blockName: string,
+  branch: string,
+  env: Env
+): Promise<BlockFinalizeResponse['universalEditor'] | null> {
+  const { owner, repo } = body.github;
+  const readJson = async <T>(path: string): Promise<T | null> => {
+    const content = await getFileFromBranch(githubFetch, owner, repo, 'main', path);
+    return content ? JSON.parse(content) as T : null;
+  };
+
+  const definitionFile = await readJson<UEComponentDefinitionFile>('component-definition.json');
+  if (!definitionFile && body.universalEditor !== true) return null;
+
+  // Authoring HTML of the winner: the session store has it; otherwise read the winner DA page
+  let authoringHtml: string | null = null;
+  const store = getSessionStore(env);
+  if (store) {
+    const iteration = await getIteration(store.db, body.sessionId, body.winner.option, body.winner.iteration);
+    authoringHtml = iteration?.html || null;
+  }
+  if (!authoringHtml && body.da) {
+    const imsToken = await getDAToken(env);
+    const response = await fetch(
+      `https://admin.da.live/source/${body.da.org}/${body.da.site}/drafts/gen/${body.sessionId}-${body.winner.option}-${body.winner.iteration}.html`,
+      { headers: { 'Authorization': `Bearer ${imsToken}` } }
+    );
+    if (response.ok) authoringHtml = await response.text();
+  }
+  if (!authoringHtml) {
+    throw new Error(`No authoring HTML found for ${body.sessionId} option ${body.winner.option} iteration ${body.winner.iteration}`);
+  }
+
+  const blockModels = inferBlockModels(blockName, authoringHtml);
+  const files = [
+    {
+      path: 'component-definition.json',
+      content: JSON.stringify(mergeComponentDefinitions(definitionFile, blockModels.definitions), null, 2) + '\n',
+    },
+    {
+      path: 'component-models.json',
+      content: JSON.stringify(mergeComponentModels(await readJson<UEModel[]>('component-models.json'), blockModels.models), null, 2) + '\n',
+    },
+    {
+      path: 'component-filters.json',
+      content: JSON.stringify(mergeComponentFilters(await readJson<UEFilter[]>('component-filters.json'), blockModels.filters, blockName), null, 2) + '\n',
+    },
+  ];
+
+  // Projects that build component-*.json from per-block fragments (npm run build:json) keep them in
+  // blocks/{name}/_{name}.json; the section filter comes from models/_component-filters.json, so the
+  // block is allowed in sections there too or the next build drops it
+  if (await getFileFromBranch(githubFetch, owner, repo, 'main', 'models/_component-models.json')) {
+    files.push({ path: `blocks/${blockName}/_${blockName}.json`, content: JSON.stringify(blockModels, null, 2) + '\n' });
+    const sectionFilters = await readJson<UEFilter[]>('models/_component-filters.json');
+    if (sectionFilters) {
+      files.push({
+        path: 'models/_component-filters.json',
+        content: JSON.stringify(mergeComponentFilters(sectionFilters, [], blockName), null, 2) + '\n',
+      });
+    }
+  }
+
+  const { commitSha, commitUrl } = await pushFilesToBranch(
+    githubFetch,
+    owner,
+    repo,
+    branch,
+    files,
+    `Add Universal Editor models for ${blockName} block`
+  );
+  console.log(`Committed Universal Editor models for ${blockName}: ${commitSha}`);
+
+  return {
+    components: blockModels.definitions.map(entry => entry.id),
+    files: files.map(file => file.path),
+    commitSha,
+    commitUrl,
+  };
+}
+
 /**
  * Handles /block-cleanup endpoint
  * Cleans up a generation session without finalizing
@@ -7395,6 +8997,223 @@ async function cleanupGenerationSession(
   return { branchesDeleted, pagesDeleted };
 }
 
+/**
+ * Handles POST /jobs/:type
+ * Starts a long-running operation in a job Durable Object and returns its id immediately.
+ * The body is the same as the synchronous endpoint (JSON or multipart form data).
+ */
+async function handleJobCreate(request: Request, env: Env, type: string): Promise<Response> {
+  try {
+    if (!isJobType(type)) {
+      return Response.json(
+        { success: false, error: `Unknown job type "${type}". Available: ${JOB_TYPES.join(', ')}`, code: 'INVALID_REQUEST' },
+        { status: 400, headers: corsHeaders(env) }
+      );
+    }
+
+    if (!env.JOBS) {
+      return Response.json(
+        { success: false, error: 'Jobs Durable Object not configured', code: 'CONFIG_ERROR' },
+        { status: 500, headers: corsHeaders(env) }
+      );
+    }
+
+    const jobId = crypto.randomUUID();
+    const headers = new Headers(request.headers);
+    headers.set('X-Job-Id', jobId);
+    headers.set('X-Job-Type', type);
+
+    const startResponse = await getJobStub(env, jobId).fetch('https://jobs.internal/start', {
+      method: 'POST',
+      headers,
+      body: request.body,
+    });
+
+    if (!startResponse.ok) {
+      const error = await startResponse.json().catch(() => ({})) as { error?: string };
+      throw new Error(error.error || `Failed to start job: ${startResponse.status}`);
+    }
+
+    console.log(`Started ${type} job ${jobId}`);
+
+    return Response.json({
+      success: true,
+      jobId,
+      type,
+      status: 'queued',
+      statusUrl: `/jobs/${jobId}`,
+      eventsUrl: `/jobs/${jobId}/events`,
+    }, { status: 202, headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles GET /jobs/:id - current job status (and result once finished)
+ */
+async function handleJobStatus(env: Env, jobId: string): Promise<Response> {
+  try {
+    const response = await getJobStub(env, jobId).fetch('https://jobs.internal/status');
+    return new Response(response.body, { status: response.status, headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles GET /jobs/:id/events - Server-Sent Events stream of job progress
+ * Emits "progress" events per stage and a final "done" event with the job record
+ */
+async function handleJobEvents(request: Request, env: Env, jobId: string): Promise<Response> {
+  try {
+    const response = await getJobStub(env, jobId).fetch('https://jobs.internal/events', {
+      headers: { 'Last-Event-ID': request.headers.get('Last-Event-ID') || '' },
+    });
+    // Keep the event-stream content type from the Durable Object, add CORS on top
+    const headers = new Headers(corsHeaders(env));
+    headers.set('Content-Type', response.headers.get('Content-Type') || 'text/event-stream');
+    headers.set('Cache-Control', 'no-cache');
+    return new Response(response.body, { status: response.status, headers });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Response for session endpoints when the D1 binding is missing
+ */
+function sessionStoreNotConfigured(env: Env): Response {
+  return Response.json(
+    { success: false, error: 'Session store not configured (SESSIONS_DB binding)', code: 'CONFIG_ERROR' },
+    { status: 500, headers: corsHeaders(env) }
+  );
+}
+
+/**
+ * Parse the {option, iteration} pair used by rollback and fork
+ */
+function parseIterationRef(value: { option?: unknown; iteration?: unknown }): { option: number; iteration: number } {
+  const option = Number(value.option);
+  const iteration = Number(value.iteration);
+  if (!Number.isInteger(option) || !Number.isInteger(iteration) || option < 1 || iteration < 1) {
+    throw new BlockGeneratorError('option and iteration must be positive integers', 'INVALID_REQUEST', 400);
+  }
+  return { option, iteration };
+}
+
+/**
+ * Handles GET /sessions - list generation sessions, newest first
+ * Query: limit (max 100), offset, sourceUrl
+ */
+async function handleSessionList(url: URL, env: Env): Promise<Response> {
+  try {
+    const store = getSessionStore(env);
+    if (!store) return sessionStoreNotConfigured(env);
+
+    const result = await listSessions(store.db, {
+      limit: parseInt(url.searchParams.get('limit') || '20', 10),
+      offset: parseInt(url.searchParams.get('offset') || '0', 10),
+      sourceUrl: url.searchParams.get('sourceUrl') || undefined,
+    });
+
+    return Response.json({ success: true, ...result }, { headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles GET /sessions/:id - session details with every recorded iteration
+ */
+async function handleSessionGet(env: Env, sessionId: string): Promise<Response> {
+  try {
+    const store = getSessionStore(env);
+    if (!store) return sessionStoreNotConfigured(env);
+
+    const session = await getSession(store.db, sessionId);
+    if (!session) {
+      throw new BlockGeneratorError(`Session not found: ${sessionId}`, 'NOT_FOUND', 404);
+    }
+    const iterations = await getIterations(store.db, sessionId);
+
+    return Response.json({ success: true, session, iterations }, { headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles GET /sessions/:id/iterations/:option/:iteration
+ * Returns the stored variant code and its rendered screenshot (base64) when available
+ */
+async function handleSessionIterationGet(env: Env, sessionId: string, option: string, iteration: string): Promise<Response> {
+  try {
+    const store = getSessionStore(env);
+    if (!store) return sessionStoreNotConfigured(env);
+
+    const ref = parseIterationRef({ option, iteration });
+    const stored = await getIteration(store.db, sessionId, ref.option, ref.iteration);
+    if (!stored) {
+      throw new BlockGeneratorError(`Iteration ${option}-${iteration} not found in session ${sessionId}`, 'NOT_FOUND', 404);
+    }
+
+    const screenshot = store.bucket && stored.screenshotKey
+      ? await downloadScreenshot(store.bucket, stored.screenshotKey)
+      : null;
+
+    return Response.json({ success: true, iteration: stored, screenshot }, { headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles POST /sessions/:id/rollback - body { option, iteration }
+ * Copies the earlier iteration to a new iteration at the head of the option
+ */
+async function handleSessionRollback(request: Request, env: Env, sessionId: string): Promise<Response> {
+  try {
+    const store = getSessionStore(env);
+    if (!store) return sessionStoreNotConfigured(env);
+
+    const ref = parseIterationRef(await request.json() as { option?: unknown; iteration?: unknown });
+    const iteration = await rollbackToIteration(store.db, sessionId, ref.option, ref.iteration);
+    if (!iteration) {
+      throw new BlockGeneratorError(`Iteration ${ref.option}-${ref.iteration} not found in session ${sessionId}`, 'NOT_FOUND', 404);
+    }
+
+    console.log(`Session ${sessionId}: rolled back option ${ref.option} to iteration ${ref.iteration} (now ${iteration.iteration})`);
+
+    return Response.json({ success: true, iteration }, { status: 201, headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
+/**
+ * Handles POST /sessions/:id/fork - body { option, iteration }
+ * Creates a new session whose option 1, iteration 1 is the given iteration
+ */
+async function handleSessionFork(request: Request, env: Env, sessionId: string): Promise<Response> {
+  try {
+    const store = getSessionStore(env);
+    if (!store) return sessionStoreNotConfigured(env);
+
+    const ref = parseIterationRef(await request.json() as { option?: unknown; iteration?: unknown });
+    const forked = await forkSession(store.db, sessionId, ref.option, ref.iteration, generateSessionId());
+    if (!forked) {
+      throw new BlockGeneratorError(`Iteration ${ref.option}-${ref.iteration} not found in session ${sessionId}`, 'NOT_FOUND', 404);
+    }
+
+    console.log(`Session ${sessionId}: forked ${ref.option}-${ref.iteration} into session ${forked.session.id}`);
+
+    return Response.json({ success: true, ...forked }, { status: 201, headers: corsHeaders(env) });
+  } catch (error) {
+    return handleError(error, env);
+  }
+}
+
 /**
  * Handles errors and returns appropriate response
  * Now includes actual error message for easier debugging
@@ -7580,7 +9399,7 @@ async function pushFilesToBranchWithBinary(
  * Handles /design-system-import endpoint
  * Extracts design system from an external website and pushes styles to GitHub
  */
-async function handleDesignSystemImport(request: Request, env: Env): Promise<Response> {
+async function handleDesignSystemImport(request: Request, env: Env, progress?: ProgressReporter): Promise<Response> {
   let browser: ReturnType<typeof puppeteer.launch> extends Promise<infer T> ? T : never;
 
   try {
@@ -7626,6 +9445,7 @@ async function handleDesignSystemImport(request: Request, env: Env): Promise<Res
 
     // Navigate to URL
     console.log('Navigating to URL...');
+    progress?.report('extraction', `Loading ${body.url}`);
     await page.goto(body.url, { waitUntil: 'networkidle0', timeout: 30000 });
 
     // Dismiss cookie banners
@@ -7640,6 +9460,7 @@ async function handleDesignSystemImport(request: Request, env: Env): Promise<Res
 
     // Step 2: Take screenshot for Claude Vision analysis
     console.log('Taking screenshot for Claude analysis...');
+    progress?.report('screenshot', 'Capturing page screenshot');
     const screenshotBuffer = await page.screenshot({ type: 'png', fullPage: false }) as Buffer;
     const screenshotBase64 = screenshotBuffer.toString('base64');
 
@@ -7655,21 +9476,16 @@ async function handleDesignSystemImport(request: Request, env: Env): Promise<Res
 
     // Step 5: Download fonts
     console.log(`Found ${parsedCSS.fontFaces.length} font faces, downloading...`);
+    progress?.report('extraction', `Downloading ${parsedCSS.fontFaces.length} font faces`);
     const { fonts: downloadedFonts, fontBuffers, skippedFamilies } = await downloadFonts(parsedCSS.fontFaces);
     console.log(`Downloaded ${downloadedFonts.length} fonts`);
 
     // Step 6: Analyze with Claude Vision
     console.log('Analyzing design with Claude Vision...');
+    progress?.report('llm', 'Analyzing design with Claude Vision');
     const claudeDesign = await analyzeDesignWithClaude(
       screenshotBase64,
-      {
-        model: anthropicConfig.useBedrock
-          ? (anthropicConfig.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0')
-          : 'claude-sonnet-4-20250514',
-        apiKey: anthropicConfig.apiKey,
-        bedrockToken: anthropicConfig.bedrockToken,
-        region: anthropicConfig.bedrockRegion,
-      },
+      anthropicConfig,
       env
     );
 
@@ -7793,6 +9609,7 @@ async function handleDesignSystemImport(request: Request, env: Env): Promise<Res
       console.log(`Dry run mode - skipping GitHub push. Would push ${files.length} files.`);
     } else {
       console.log(`Pushing ${files.length} files to GitHub...`);
+      progress?.report('push', `Pushing ${files.length} files to GitHub`);
 
       // If using session ID, ensure branch exists (create from main)
       if (body.sessionId) {
@@ -7817,6 +9634,7 @@ async function handleDesignSystemImport(request: Request, env: Env): Promise<Res
 
     if (body.generatePreview && !body.dryRun) {
       console.log('Generating design system preview page...');
+      progress?.report('preview', 'Generating design system preview page');
 
       // Generate sample HTML showcasing the design
       const sampleHtml = generateStyleGuideHTML(finalDesign, body.url);
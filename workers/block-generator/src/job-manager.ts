@@ -0,0 +1,328 @@
+import { BlockGeneratorError, Env } from './types';
+
+/**
+ * Long-running operations that can be started as asynchronous jobs
+ */
+export type JobType = 'block-generate-full' | 'compose-page' | 'design-system-import';
+
+export const JOB_TYPES: JobType[] = ['block-generate-full', 'compose-page', 'design-system-import'];
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Pipeline stages reported as progress events
+ */
+export type JobStage = 'screenshot' | 'extraction' | 'llm' | 'refine' | 'push' | 'preview';
+
+/**
+ * Progress event emitted by a running job (one SSE message each)
+ */
+export interface JobEvent {
+  id: number;
+  stage: JobStage;
+  message: string;
+  timestamp: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Persisted job state returned by GET /jobs/:id
+ */
+export interface JobRecord {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Latest progress event, if any */
+  lastEvent?: JobEvent;
+  /** JSON body of the underlying endpoint's response once the job is done */
+  result?: unknown;
+  error?: string;
+  /** Error code of a failed job (the endpoint's `code`, e.g. LLM_RATE_LIMITED) */
+  code?: string;
+}
+
+/**
+ * Passed to handlers so they can report pipeline stages while running as a job.
+ * Handlers called synchronously receive no reporter.
+ */
+export interface ProgressReporter {
+  report(stage: JobStage, message: string, data?: Record<string, unknown>): void;
+}
+
+/**
+ * Runs the job: same contract as the synchronous endpoint handler
+ */
+export type JobRunner = (request: Request, env: Env, progress: ProgressReporter) => Promise<Response>;
+
+const runners = new Map<JobType, JobRunner>();
+
+/**
+ * Register the handler that executes a job type (done once at module load in index.ts)
+ */
+export function registerJobRunner(type: JobType, runner: JobRunner): void {
+  runners.set(type, runner);
+}
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as string[]).includes(value);
+}
+
+/**
+ * Get the Durable Object stub that owns a job
+ */
+export function getJobStub(env: Env, jobId: string): DurableObjectStub {
+  if (!env.JOBS) {
+    throw new Error('Jobs Durable Object binding (JOBS) not configured');
+  }
+  return env.JOBS.get(env.JOBS.idFromName(jobId));
+}
+
+/** How often the watchdog alarm checks a queued or running job */
+const WATCHDOG_INTERVAL_MS = 60_000;
+
+/** Jobs running longer than this are failed even if their object is still alive */
+const MAX_JOB_DURATION_MS = 30 * 60_000;
+
+/**
+ * Format one Server-Sent Events message
+ */
+function formatSSE(event: string, data: unknown, id?: number): string {
+  const idLine = id !== undefined ? `id: ${id}\n` : '';
+  return `${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Durable Object holding one job: runs the handler in the background,
+ * persists status/events and streams progress to SSE subscribers.
+ * A watchdog alarm fails the job if the object is evicted while it runs.
+ *
+ * Internal routes (called by the worker, not by clients):
+ * - POST /start   (X-Job-Id, X-Job-Type headers; body is the original request body)
+ * - GET  /status
+ * - GET  /events  (replays past events, then streams new ones until the job ends)
+ */
+export class JobDurableObject {
+  private record: JobRecord | null = null;
+  private events: JobEvent[] = [];
+  private subscribers = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private encoder = new TextEncoder();
+  /** Set while this instance executes the job; a fresh instance after eviction starts false */
+  private running = false;
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    await this.load();
+
+    if (url.pathname === '/start' && request.method === 'POST') {
+      return this.start(request);
+    }
+
+    if (!this.record) {
+      return Response.json({ success: false, error: 'Job not found', code: 'NOT_FOUND' }, { status: 404 });
+    }
+
+    if (url.pathname === '/status') {
+      return Response.json({ success: true, job: this.record });
+    }
+
+    if (url.pathname === '/events') {
+      return this.subscribe(request);
+    }
+
+    return Response.json({ success: false, error: 'Not found', code: 'NOT_FOUND' }, { status: 404 });
+  }
+
+  private async load(): Promise<void> {
+    if (this.record) return;
+    this.record = await this.state.storage.get<JobRecord>('job') || null;
+    this.events = await this.state.storage.get<JobEvent[]>('events') || [];
+  }
+
+  private async start(request: Request): Promise<Response> {
+    if (this.record) {
+      return Response.json({ success: false, error: 'Job already started', code: 'INVALID_REQUEST' }, { status: 409 });
+    }
+
+    const id = request.headers.get('X-Job-Id') || '';
+    const type = request.headers.get('X-Job-Type');
+    const runner = isJobType(type) ? runners.get(type) : undefined;
+    if (!isJobType(type) || !runner) {
+      return Response.json({ success: false, error: `Unknown job type: ${type}`, code: 'INVALID_REQUEST' }, { status: 400 });
+    }
+
+    // Buffer the body now: the original request is gone once we respond
+    const headers = new Headers(request.headers);
+    headers.delete('X-Job-Id');
+    headers.delete('X-Job-Type');
+    const jobRequest = new Request(`https://jobs.internal/${type}`, {
+      method: 'POST',
+      headers,
+      body: await request.arrayBuffer(),
+    });
+
+    const now = new Date().toISOString();
+    this.record = { id, type, status: 'queued', createdAt: now, updatedAt: now };
+    await this.state.storage.put('job', this.record);
+    await this.state.storage.setAlarm(Date.now() + WATCHDOG_INTERVAL_MS);
+
+    // Run in the background; the object stays alive while subscribers are connected
+    this.running = true;
+    this.run(runner, jobRequest)
+      .catch(error => {
+        console.error(`Job ${id} crashed:`, error);
+      })
+      .finally(() => {
+        this.running = false;
+      });
+
+    return Response.json({ success: true, job: this.record }, { status: 202 });
+  }
+
+  /**
+   * Watchdog: a job still queued/running in storage but not in this instance was lost
+   * to an eviction or restart, so it is failed instead of staying "running" forever
+   */
+  async alarm(): Promise<void> {
+    await this.load();
+    if (!this.record || this.record.status === 'succeeded' || this.record.status === 'failed') {
+      return;
+    }
+
+    const elapsed = Date.now() - Date.parse(this.record.createdAt);
+    if (this.running && elapsed < MAX_JOB_DURATION_MS) {
+      await this.state.storage.setAlarm(Date.now() + WATCHDOG_INTERVAL_MS);
+      return;
+    }
+
+    console.error(`Job ${this.record.id} is stale (${this.running ? 'timed out' : 'worker was evicted'}), marking it failed`);
+    await this.finish({
+      status: 'failed',
+      error: this.running
+        ? `Job did not finish within ${MAX_JOB_DURATION_MS / 60_000} minutes`
+        : 'Job was interrupted before it finished',
+      code: 'JOB_INTERRUPTED',
+    });
+  }
+
+  private async run(runner: JobRunner, request: Request): Promise<void> {
+    await this.update({ status: 'running' });
+
+    const progress: ProgressReporter = {
+      report: (stage, message, data) => {
+        this.emit(stage, message, data).catch(error => {
+          console.warn('Failed to record job event:', error);
+        });
+      },
+    };
+
+    try {
+      const response = await runner(request, this.env, progress);
+      const result = await response.json().catch(() => undefined) as { success?: boolean; error?: string; code?: string } | undefined;
+
+      if (response.ok && result?.success !== false) {
+        await this.finish({ status: 'succeeded', result });
+      } else {
+        await this.finish({
+          status: 'failed',
+          result,
+          error: result?.error || `Job failed with status ${response.status}`,
+          code: result?.code || 'INTERNAL_ERROR',
+        });
+      }
+    } catch (error) {
+      await this.finish({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        code: error instanceof BlockGeneratorError ? error.code : 'INTERNAL_ERROR',
+      });
+    }
+  }
+
+  /**
+   * Record the job's outcome and end the event streams, unless the watchdog already failed it
+   */
+  private async finish(changes: Partial<JobRecord>): Promise<void> {
+    if (this.record?.status === 'failed' || this.record?.status === 'succeeded') return;
+    await this.update(changes);
+    this.broadcast(formatSSE('done', this.record));
+    await this.closeSubscribers();
+  }
+
+  private async update(changes: Partial<JobRecord>): Promise<void> {
+    this.record = { ...this.record!, ...changes, updatedAt: new Date().toISOString() };
+    await this.state.storage.put('job', this.record);
+  }
+
+  private async emit(stage: JobStage, message: string, data?: Record<string, unknown>): Promise<void> {
+    const event: JobEvent = {
+      id: this.events.length + 1,
+      stage,
+      message,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    this.events.push(event);
+    this.broadcast(formatSSE('progress', event, event.id));
+
+    await this.update({ lastEvent: event });
+    await this.state.storage.put('events', this.events);
+  }
+
+  private subscribe(request: Request): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    // Replay events the client has not seen yet (Last-Event-ID on reconnect)
+    const lastEventId = parseInt(request.headers.get('Last-Event-ID') || '0', 10) || 0;
+    const send = (message: string) => writer.write(this.encoder.encode(message)).catch(() => {
+      // Client disconnected
+      this.subscribers.delete(writer);
+    });
+    for (const event of this.events.filter(e => e.id > lastEventId)) {
+      send(formatSSE('progress', event, event.id));
+    }
+
+    const finished = this.record!.status === 'succeeded' || this.record!.status === 'failed';
+    if (finished) {
+      send(formatSSE('done', this.record));
+      writer.close().catch(() => {
+        // Client disconnected
+      });
+    } else {
+      this.subscribers.add(writer);
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  }
+
+  private broadcast(message: string): void {
+    const chunk = this.encoder.encode(message);
+    for (const writer of this.subscribers) {
+      writer.write(chunk).catch(() => {
+        // Client disconnected
+        this.subscribers.delete(writer);
+      });
+    }
+  }
+
+  private async closeSubscribers(): Promise<void> {
+    for (const writer of this.subscribers) {
+      try {
+        await writer.close();
+      } catch {
+        // Ignore already-closed streams
+      }
+    }
+    this.subscribers.clear();
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * An internal link of the source site and the EDS path it now points to
+ */
+export interface LinkMapping {
+  /** Absolute source URL as found in the page */
+  source: string;
+  /** Public EDS path, e.g. "/how-to-join" or "/products/" */
+  target: string;
+}
+
+/**
+ * A row of the EDS redirects sheet
+ */
+export interface RedirectRow {
+  Source: string;
+  Destination: string;
+}
+
+/**
+ * DA single-sheet JSON, the format DA stores .json spreadsheets in
+ */
+export interface DASheet<T> {
+  ':type': 'sheet';
+  total: number;
+  limit: number;
+  offset: number;
+  data: T[];
+}
+
+/** Links to files rather than pages: left pointing at the source site */
+const FILE_EXTENSION = /\.(pdf|zip|docx?|xlsx?|pptx?|csv|txt|jpe?g|png|gif|webp|svg|mp4|mp3|json|xml)$/i;
+
+/**
+ * EDS document path for a source URL, derived like the importer's documentPath
+ * (import-work/metadata.json): "/How-To-Join.html" -> "/how-to-join", "/about/" -> "/about/index"
+ */
+export function documentPathFor(url: string): string {
+  let path = new URL(url).pathname;
+  if (path.endsWith('/')) path = `${path}index`;
+
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+
+  return path
+    .toLowerCase()
+    .replace(/\.html?$/, '')
+    .replace(/[^a-z0-9/]/g, '-')
+    .split('/')
+    .map(segment => segment.replace(/-+/g, '-').replace(/^-|-$/g, ''))
+    .join('/');
+}
+
+/**
+ * Path a document is published at: "/about/index" is served as "/about/"
+ */
+export function publicPathFor(documentPath: string): string {
+  return documentPath.replace(/\/index$/, '/');
+}
+
+function hostKey(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * EDS target for a link, or null when it is not a page of the source site
+ */
+function mapLink(href: string, pageUrl: string, internalHosts: Set<string>): string | null {
+  let url: URL;
+  try {
+    url = new URL(href.replace(/&amp;/g, '&'), pageUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (!internalHosts.has(hostKey(url.host))) return null;
+  if (FILE_EXTENSION.test(url.pathname)) return null;
+
+  // The query string is kept: the EDS page may still read it (filters, tabs, tracking)
+  return publicPathFor(documentPathFor(url.href)) + url.search + url.hash;
+}
+
+/**
+ * Point the source site's internal links at their EDS paths, under `basePath` for sites
+ * that live in a sub-folder. Links to other hosts, mailto:/tel:, in-page anchors and
+ * files are left alone.
+ */
+export function rewriteInternalLinks(
+  html: string,
+  options: { pageUrl: string; hosts?: string[]; basePath?: string }
+): { html: string; mappings: LinkMapping[] } {
+  const internalHosts = new Set([new URL(options.pageUrl).host, ...(options.hosts || [])].map(hostKey));
+  const basePath = (options.basePath || '').replace(/\/+$/, '');
+  const mappings = new Map<string, LinkMapping>();
+
+  const rewritten = html.replace(/(<a\b[^>]*?\shref=)(["'])([^"']*)\2/gi, (match, prefix, quote, href) => {
+    if (!href || href.startsWith('#')) return match;
+    const path = mapLink(href, options.pageUrl, internalHosts);
+    if (!path) return match;
+    const target = `${basePath}${path}`;
+
+    const source = new URL(href.replace(/&amp;/g, '&'), options.pageUrl);
+    source.hash = '';
+    mappings.set(source.href, { source: source.href, target: target.replace(/[?#].*$/, '') });
+    return `${prefix}${quote}${target}${quote}`;
+  });
+
+  return { html: rewritten, mappings: Array.from(mappings.values()) };
+}
+
+/**
+ * Redirects for the mappings whose old path differs from the new one, so old URLs
+ * keep working after go-live. Query strings are dropped: EDS redirects match on the path.
+ */
+export function buildRedirects(mappings: LinkMapping[]): RedirectRow[] {
+  const rows = new Map<string, RedirectRow>();
+  for (const mapping of mappings) {
+    const source = new URL(mapping.source).pathname;
+    if (source !== mapping.target && !rows.has(source)) {
+      rows.set(source, { Source: source, Destination: mapping.target });
+    }
+  }
+  return Array.from(rows.values());
+}
+
+/**
+ * Add rows to an existing redirects sheet; rows already there win, so hand-made
+ * redirects are never overwritten
+ */
+export function mergeRedirects(existing: RedirectRow[], added: RedirectRow[]): RedirectRow[] {
+  const sources = new Set(existing.map(row => row.Source));
+  return [...existing, ...added.filter(row => !sources.has(row.Source))];
+}
+
+/**
+ * Rows of a DA sheet JSON (single sheet, or the first sheet of a multi-sheet)
+ */
+export function readSheetRows<T>(json: unknown): T[] {
+  const sheet = json as { ':type'?: string; ':names'?: string[]; data?: T[] } & Record<string, { data?: T[] }>;
+  if (sheet[':type'] === 'multi-sheet') {
+    const name = sheet[':names']?.[0];
+    return (name && sheet[name]?.data) || [];
+  }
+  return Array.isArray(sheet.data) ? sheet.data : [];
+}
+
+export function toSheetJson<T>(rows: T[]): DASheet<T> {
+  return { ':type': 'sheet', total: rows.length, limit: rows.length, offset: 0, data: rows };
+}
+
+/**
+ * Sheet JSON with the rows readSheetRows reads replaced. The other sheets and keys of
+ * a multi-sheet are kept; anything else becomes a single sheet.
+ */
+export function withSheetRows<T>(json: unknown, rows: T[]): object {
+  const sheet = json as { ':type'?: string; ':names'?: string[] } & Record<string, unknown>;
+  const name = sheet?.[':type'] === 'multi-sheet' ? sheet[':names']?.[0] : undefined;
+  if (!name) return toSheetJson(rows);
+  return { ...sheet, [name]: { ...(sheet[name] as object), total: rows.length, limit: rows.length, offset: 0, data: rows } };
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toRedirectsCsv(rows: RedirectRow[]): string {
+  return ['Source,Destination', ...rows.map(row => `${csvCell(row.Source)},${csvCell(row.Destination)}`)].join('\n') + '\n';
+}
+
+/**
+ * Merge redirects into the DA site's /redirects sheet, creating it if needed.
+ * Other sheets of a multi-sheet /redirects are kept. Returns the number of rows added.
+ */
+export async function writeRedirectsSheet(
+  target: { org: string; site: string; token: string },
+  rows: RedirectRow[]
+): Promise<number> {
+  const sheetUrl = `https://admin.da.live/source/${target.org}/${target.site}/redirects.json`;
+
+  const current = await fetch(sheetUrl, { headers: { 'Authorization': `Bearer ${target.token}` } });
+  if (!current.ok && current.status !== 404) {
+    throw new Error(`Failed to read redirects sheet: ${current.status}`);
+  }
+  const json: unknown = current.ok ? await current.json() : {};
+  const existing = readSheetRows<RedirectRow>(json);
+
+  const merged = mergeRedirects(existing, rows);
+  const added = merged.length - existing.length;
+  if (added === 0) return 0;
+
+  const formData = new FormData();
+  formData.append('data', new Blob([JSON.stringify(withSheetRows(json, merged))], { type: 'application/json' }));
+
+  const response = await fetch(sheetUrl, {
+    method: 'PUT',
+    headers: { 'Authorization': `Bearer ${target.token}` },
+    body: formData,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to write redirects sheet: ${response.status} - ${await response.text()}`);
+  }
+  return added;
+}
@@ -0,0 +1,275 @@
+import { AnthropicConfig } from './design-analyzer';
+import { BlockGeneratorError, Env, ErrorCode } from './types';
+
+/**
+ * A content block of a Claude message
+ */
+export type ClaudeContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: 'image/png' | 'image/jpeg'; data: string } };
+
+/**
+ * Token counts, accumulated across calls when passed to callClaude
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ClaudeRequest {
+  /** A text prompt, or text and image blocks */
+  content: string | ClaudeContentBlock[];
+  maxTokens?: number;
+  system?: string;
+  temperature?: number;
+}
+
+export interface LLMCallOptions {
+  /** Abort a single attempt after this long (default 120s; callClaude scales it with maxTokens) */
+  timeoutMs?: number;
+  /** Retries per model on 429/529 and transient 5xx responses (default 2) */
+  maxRetries?: number;
+  usage?: LLMUsage;
+  /** Shown in logs, e.g. "bbox-detector" */
+  label?: string;
+}
+
+export type LLMProvider = 'bedrock' | 'anthropic' | 'gemini' | 'cerebras';
+
+/**
+ * A failed LLM call. Surfaces through handleError with its own code and status
+ * instead of INTERNAL_ERROR.
+ */
+export class LLMError extends BlockGeneratorError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    statusCode: number,
+    public provider: LLMProvider,
+    public model?: string,
+    /** Whether another attempt (or the next model in the chain) may succeed */
+    public retryable: boolean = false
+  ) {
+    super(message, code, statusCode);
+    this.name = 'LLMError';
+  }
+}
+
+const DEFAULT_BEDROCK_MODEL = 'anthropic.claude-sonnet-4-20250514-v1:0';
+const DEFAULT_DIRECT_MODEL = 'claude-sonnet-4-20250514';
+const DEFAULT_TIMEOUT_MS = 120_000;
+/** Slowest output rate allowed for before timing out a Claude call (about 40 tokens/s) */
+const TIMEOUT_MS_PER_OUTPUT_TOKEN = 25;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+/** 529 is Anthropic's "overloaded"; Bedrock throttles with 429 and 503 */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504, 529]);
+
+/**
+ * Map an HTTP failure to an LLMError with a uniform code
+ */
+function errorForStatus(provider: LLMProvider, model: string, status: number, detail: string): LLMError {
+  const message = `${provider} ${model} error ${status}: ${detail.slice(0, 500)}`;
+  if (status === 429) return new LLMError(message, 'LLM_RATE_LIMITED', 429, provider, model, true);
+  if (status === 529 || status === 503) return new LLMError(message, 'LLM_OVERLOADED', 503, provider, model, true);
+  if (status === 401 || status === 403) return new LLMError(message, 'LLM_AUTH_FAILED', 502, provider, model);
+  // An unknown or unavailable model: the next model in the chain may work
+  if (status === 404) return new LLMError(message, 'LLM_ERROR', 502, provider, model, true);
+  return new LLMError(message, 'LLM_ERROR', 502, provider, model, status >= 500);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay before the next attempt: the provider's retry-after when it sends one,
+ * otherwise exponential backoff with jitter
+ */
+function backoffMs(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.min(BASE_BACKOFF_MS * 2 ** attempt + Math.random() * 250, MAX_BACKOFF_MS);
+}
+
+/**
+ * POST a JSON body to an LLM endpoint with a per-attempt timeout, retrying 429/529
+ * and transient failures with backoff. Returns the parsed JSON response.
+ */
+export async function postLLM<T>(
+  provider: LLMProvider,
+  model: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  options: LLMCallOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const label = options.label ? `[${options.label}] ` : '';
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let error: LLMError;
+    let retry = false;
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        return await response.json() as T;
+      }
+      retry = RETRYABLE_STATUSES.has(response.status);
+      retryAfter = response.headers.get('retry-after');
+      error = errorForStatus(provider, model, response.status, await response.text());
+    } catch (fetchError) {
+      // A timed out call is not retried on the same model: it would likely time out again
+      retry = !controller.signal.aborted;
+      error = controller.signal.aborted
+        ? new LLMError(`${provider} ${model} timed out after ${timeoutMs}ms`, 'LLM_TIMEOUT', 504, provider, model, true)
+        : new LLMError(
+          `${provider} ${model} request failed: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`,
+          'LLM_ERROR',
+          502,
+          provider,
+          model,
+          true
+        );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!retry || attempt >= maxRetries) {
+      throw error;
+    }
+
+    const delay = backoffMs(attempt, retryAfter);
+    console.warn(`${label}${error.message.slice(0, 200)}; retrying in ${Math.round(delay)}ms (${attempt + 1}/${maxRetries})`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Per-attempt timeout for a Claude call that may write up to maxTokens: the default,
+ * or longer when a full-length response could not be written in it
+ */
+export function timeoutForTokens(maxTokens: number): number {
+  return Math.max(DEFAULT_TIMEOUT_MS, 30_000 + maxTokens * TIMEOUT_MS_PER_OUTPUT_TOKEN);
+}
+
+/**
+ * Fallback models from the environment for the provider in use. Bedrock and the direct
+ * API name models differently, so each has its own list:
+ * ANTHROPIC_BEDROCK_FALLBACK_MODELS and ANTHROPIC_FALLBACK_MODELS.
+ */
+export function fallbackModelsFromEnv(env: Env, useBedrock: boolean): string[] | undefined {
+  const list = useBedrock ? env.ANTHROPIC_BEDROCK_FALLBACK_MODELS : env.ANTHROPIC_FALLBACK_MODELS;
+  return list ? list.split(',').map(model => model.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Models to try in order: the configured model, then the fallback chain
+ */
+function modelChain(config: AnthropicConfig): string[] {
+  const primary = config.useBedrock && config.bedrockToken
+    ? config.bedrockModel || DEFAULT_BEDROCK_MODEL
+    : config.model || DEFAULT_DIRECT_MODEL;
+  return Array.from(new Set([primary, ...(config.fallbackModels || [])]));
+}
+
+/**
+ * Call Claude through Bedrock or the direct API, whichever the config selects.
+ * Each model of the chain is retried on 429/529; when one stays rate limited,
+ * overloaded, times out or is unavailable, the next model is tried.
+ */
+export async function callClaude(
+  config: AnthropicConfig,
+  request: ClaudeRequest,
+  options: LLMCallOptions = {}
+): Promise<string> {
+  const useBedrock = Boolean(config.useBedrock && config.bedrockToken);
+  if (!useBedrock && !config.apiKey) {
+    throw new LLMError('No Anthropic API configuration provided', 'LLM_NOT_CONFIGURED', 500, 'anthropic');
+  }
+
+  const provider: LLMProvider = useBedrock ? 'bedrock' : 'anthropic';
+  const messages = [{ role: 'user', content: request.content }];
+  const params = {
+    max_tokens: request.maxTokens ?? 8192,
+    messages,
+    ...(request.system && { system: request.system }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+  };
+
+  const models = modelChain(config);
+  const callOptions = { ...options, timeoutMs: options.timeoutMs ?? timeoutForTokens(params.max_tokens) };
+  let lastError: LLMError | undefined;
+
+  for (const model of models) {
+    try {
+      const result = useBedrock
+        ? await postLLM<ClaudeResponse>(
+          provider,
+          model,
+          `https://bedrock-runtime.${config.bedrockRegion || 'us-east-1'}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`,
+          { 'Authorization': `Bearer ${config.bedrockToken}` },
+          { anthropic_version: 'bedrock-2023-05-31', ...params },
+          callOptions
+        )
+        : await postLLM<ClaudeResponse>(
+          provider,
+          model,
+          'https://api.anthropic.com/v1/messages',
+          { 'x-api-key': config.apiKey as string, 'anthropic-version': '2023-06-01' },
+          { model, ...params },
+          callOptions
+        );
+
+      if (options.usage && result.usage) {
+        options.usage.inputTokens += result.usage.input_tokens;
+        options.usage.outputTokens += result.usage.output_tokens;
+      }
+
+      const text = result.content?.find(block => block.type === 'text')?.text;
+      if (!text) {
+        throw new LLMError(`No text response from ${provider} ${model}`, 'LLM_EMPTY_RESPONSE', 502, provider, model);
+      }
+      return text;
+    } catch (error) {
+      if (!(error instanceof LLMError) || !error.retryable) throw error;
+      lastError = error;
+      if (model !== models[models.length - 1]) {
+        console.warn(`${options.label ? `[${options.label}] ` : ''}${model} failed (${error.code}), falling back to the next model`);
+      }
+    }
+  }
+
+  throw lastError as LLMError;
+}
+
+interface ClaudeResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Image content block from base64 data
+ */
+export function imageBlock(data: string, mediaType: 'image/png' | 'image/jpeg' = 'image/png'): ClaudeContentBlock {
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+}
+
+export function textBlock(text: string): ClaudeContentBlock {
+  return { type: 'text', text };
+}
@@ -1,4 +1,5 @@
 import { Env, LLMModel } from './types';
+import { callClaude, ClaudeContentBlock, fallbackModelsFromEnv, imageBlock, LLMError, postLLM, textBlock } from './llm-provider';
 
 /**
  * Configuration for LLM calls
@@ -28,9 +29,9 @@ export async function callLLMWithVision(
 ): Promise<string> {
   switch (config.model) {
     case 'claude-sonnet':
-      return callClaude(images, prompt, config.env, maxTokens, 'sonnet');
+      return callClaudeVariant(images, prompt, config.env, maxTokens, 'sonnet');
     case 'claude-opus':
-      return callClaude(images, prompt, config.env, maxTokens, 'opus');
+      return callClaudeVariant(images, prompt, config.env, maxTokens, 'opus');
     case 'gemini-flash':
       return callGemini(images, prompt, config.env, maxTokens);
     case 'cerebras-qwen':
@@ -41,91 +42,40 @@ export async function callLLMWithVision(
 }
 
 /**
- * Call Claude (Anthropic) API
+ * Call Claude through the shared provider layer, with the model variant's Bedrock
+ * model (configurable) or direct API model as the head of the fallback chain
  */
-async function callClaude(
+async function callClaudeVariant(
   images: ImageContent[],
   prompt: string,
   env: Env,
   maxTokens: number,
   variant: 'sonnet' | 'opus' = 'sonnet'
 ): Promise<string> {
-  // Build content array with images and prompt
-  const content: Array<{ type: string; source?: any; text?: string }> = [];
-
+  const content: ClaudeContentBlock[] = [];
   for (const image of images) {
     if (image.label) {
-      content.push({ type: 'text', text: image.label });
+      content.push(textBlock(image.label));
     }
-    content.push({
-      type: 'image',
-      source: {
-        type: 'base64',
-        media_type: image.mediaType,
-        data: image.base64
-      }
-    });
+    content.push(imageBlock(image.base64, image.mediaType));
   }
-  content.push({ type: 'text', text: prompt });
-
-  let response: Response;
-
-  if (env.ANTHROPIC_USE_BEDROCK === '1' && env.ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK) {
-    const region = env.ANTHROPIC_AWS_REGION || 'us-east-1';
-    const defaultModel = variant === 'opus'
-      ? 'anthropic.claude-opus-4-20250514-v1:0'
-      : 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const model = variant === 'opus'
-      ? (env.ANTHROPIC_MODEL_OPUS || defaultModel)
-      : (env.ANTHROPIC_MODEL_SONNET || defaultModel);
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${env.ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else if (env.ANTHROPIC_API_KEY) {
-    const directModel = variant === 'opus' ? 'claude-opus-4-20250514' : 'claude-sonnet-4-20250514';
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': env.ANTHROPIC_API_KEY,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: directModel,
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
-
-  return textContent.text;
+  content.push(textBlock(prompt));
+
+  // ANTHROPIC_MODEL_OPUS/SONNET hold Bedrock model IDs; the direct API uses its own names
+  const useBedrock = env.ANTHROPIC_USE_BEDROCK === '1' && !!env.ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK;
+  const model = useBedrock
+    ? (variant === 'opus' ? env.ANTHROPIC_MODEL_OPUS : env.ANTHROPIC_MODEL_SONNET) || `anthropic.claude-${variant}-4-20250514-v1:0`
+    : `claude-${variant}-4-20250514`;
+
+  return callClaude({
+    apiKey: env.ANTHROPIC_API_KEY,
+    useBedrock,
+    bedrockToken: env.ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK,
+    bedrockRegion: env.ANTHROPIC_AWS_REGION,
+    bedrockModel: useBedrock ? model : undefined,
+    model: useBedrock ? undefined : model,
+    fallbackModels: fallbackModelsFromEnv(env, useBedrock),
+  }, { content, maxTokens }, { label: `llm-service ${variant}` });
 }
 
 /**
@@ -138,7 +88,7 @@ async function callGemini(
   maxTokens: number
 ): Promise<string> {
   if (!env.GOOGLE_API_KEY) {
-    throw new Error('GOOGLE_API_KEY not configured');
+    throw new LLMError('GOOGLE_API_KEY not configured', 'LLM_NOT_CONFIGURED', 500, 'gemini');
   }
 
   // Build parts array with images and text
@@ -157,39 +107,31 @@ async function callGemini(
   }
   parts.push({ text: prompt });
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${env.GOOGLE_API_KEY}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{ parts }],
-        generationConfig: {
-          maxOutputTokens: maxTokens,
-          temperature: 0.7,
-        },
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    candidates: Array<{
+  const model = 'gemini-2.0-flash';
+  const result = await postLLM<{
+    candidates?: Array<{
       content: {
         parts: Array<{ text?: string }>;
       };
     }>;
-  };
+  }>(
+    'gemini',
+    model,
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${env.GOOGLE_API_KEY}`,
+    {},
+    {
+      contents: [{ parts }],
+      generationConfig: {
+        maxOutputTokens: maxTokens,
+        temperature: 0.7,
+      },
+    },
+    { label: 'llm-service gemini' }
+  );
 
   const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
   if (!text) {
-    throw new Error('No text response from Gemini');
+    throw new LLMError('No text response from Gemini', 'LLM_EMPTY_RESPONSE', 502, 'gemini', model);
   }
 
   return text;
@@ -206,7 +148,7 @@ async function callCerebras(
   maxTokens: number
 ): Promise<string> {
   if (!env.CEREBRAS_API_KEY) {
-    throw new Error('CEREBRAS_API_KEY not configured');
+    throw new LLMError('CEREBRAS_API_KEY not configured', 'LLM_NOT_CONFIGURED', 500, 'cerebras');
   }
 
   // Cerebras uses OpenAI-compatible API format
@@ -226,36 +168,30 @@ async function callCerebras(
   }
   content.push({ type: 'text', text: prompt });
 
-  const response = await fetch('https://api.cerebras.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${env.CEREBRAS_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: 'qwen-3-32b',
-      messages: [{ role: 'user', content }],
-      max_tokens: maxTokens,
-      temperature: 0.7,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Cerebras API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    choices: Array<{
+  const model = 'qwen-3-32b';
+  const result = await postLLM<{
+    choices?: Array<{
       message: {
         content: string;
       };
     }>;
-  };
+  }>(
+    'cerebras',
+    model,
+    'https://api.cerebras.ai/v1/chat/completions',
+    { 'Authorization': `Bearer ${env.CEREBRAS_API_KEY}` },
+    {
+      model,
+      messages: [{ role: 'user', content }],
+      max_tokens: maxTokens,
+      temperature: 0.7,
+    },
+    { label: 'llm-service cerebras' }
+  );
 
   const text = result.choices?.[0]?.message?.content;
   if (!text) {
-    throw new Error('No text response from Cerebras');
+    throw new LLMError('No text response from Cerebras', 'LLM_EMPTY_RESPONSE', 502, 'cerebras', model);
   }
 
   return text;
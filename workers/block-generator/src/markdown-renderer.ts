@@ -0,0 +1,212 @@
+import {
+  blockRows,
+  childElements,
+  DomElement,
+  DomNode,
+  hasBlockChildren,
+  isBlock,
+  isElement,
+  parsePage,
+  tagOf,
+} from './authoring-dom';
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'button', 'header', 'footer']);
+const INLINE_TAGS = new Set(['a', 'strong', 'b', 'em', 'i', 'u', 'code', 'sup', 'sub', 'br', 'span', 'small', 'mark', 'abbr', 'time', 'img', 'picture']);
+
+/**
+ * Escape characters Markdown (and grid table cells) would read as syntax
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]|])/g, '\\$1');
+}
+
+function imageMarkdown(img: DomElement): string {
+  const src = img.getAttribute('src') || '';
+  return src ? `![${escapeMarkdown(img.getAttribute('alt') || '')}](${src})` : '';
+}
+
+/**
+ * Inline content: links, emphasis, code, images and line breaks
+ */
+function inlineMarkdown(node: DomNode): string {
+  if (node.nodeType === 3) {
+    return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (!isElement(node)) return '';
+
+  const tag = tagOf(node);
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\\\n';
+  if (tag === 'img') return imageMarkdown(node);
+  if (tag === 'picture') {
+    const img = node.querySelector('img');
+    return img ? imageMarkdown(img as DomElement) : '';
+  }
+
+  const inner = Array.from(node.childNodes).map(inlineMarkdown).join('');
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+
+  switch (tag) {
+    case 'a': {
+      const href = node.getAttribute('href');
+      return href ? `[${trimmed}](${href})` : inner;
+    }
+    case 'strong':
+    case 'b':
+      return `**${trimmed}**`;
+    case 'em':
+    case 'i':
+      return `_${trimmed}_`;
+    case 'code':
+      return `\`${(node.textContent || '').trim()}\``;
+    default:
+      return inner;
+  }
+}
+
+function inlineOf(element: DomElement): string {
+  return Array.from(element.childNodes).map(inlineMarkdown).join('').replace(/[ \t]+/g, ' ').replace(/ ?\\\n ?/g, '\\\n').trim();
+}
+
+function listMarkdown(list: DomElement, depth: number): string[] {
+  const ordered = tagOf(list) === 'ol';
+  const lines: string[] = [];
+  childElements(list).filter(child => tagOf(child) === 'li').forEach((li, index) => {
+    const marker = ordered ? `${index + 1}.` : '-';
+    const indent = '  '.repeat(depth);
+    const text = Array.from(li.childNodes)
+      .filter(child => !(isElement(child) && ['ul', 'ol'].includes(tagOf(child))))
+      .map(child => (isElement(child) && tagOf(child) === 'p' ? inlineOf(child) : inlineMarkdown(child)))
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    lines.push(`${indent}${marker} ${text}`);
+    childElements(li)
+      .filter(child => ['ul', 'ol'].includes(tagOf(child)))
+      .forEach(nested => lines.push(...listMarkdown(nested, depth + 1)));
+  });
+  return lines;
+}
+
+/**
+ * Markdown paragraphs (blank-line separated) for a run of content. Blocks are only
+ * recognized directly in a section: inside a cell, source-site wrapper divs are content.
+ */
+function contentMarkdown(nodes: DomNode[], sectionLevel = false): string[] {
+  const out: string[] = [];
+  // Text and inline elements between block-level elements form one paragraph
+  let inline: DomNode[] = [];
+  const flushInline = () => {
+    const text = inline.map(inlineMarkdown).join('').replace(/[ \t]+/g, ' ').replace(/ ?\\\n ?/g, '\\\n').trim();
+    if (text) out.push(text);
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (node.nodeType === 3 || (isElement(node) && INLINE_TAGS.has(tagOf(node)))) {
+      inline.push(node);
+      continue;
+    }
+    if (!isElement(node)) continue;
+
+    const tag = tagOf(node);
+    if (SKIPPED_TAGS.has(tag)) continue;
+    flushInline();
+
+    if (sectionLevel && isBlock(node)) {
+      out.push(blockMarkdown(node));
+    } else if (HEADING_TAGS.has(tag)) {
+      const text = inlineOf(node);
+      if (text) out.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      const lines = listMarkdown(node, 0);
+      if (lines.length > 0) out.push(lines.join('\n'));
+    } else if (tag === 'hr') {
+      out.push('***');
+    } else if (tag === 'pre') {
+      out.push(`\`\`\`\n${(node.textContent || '').replace(/\n$/, '')}\n\`\`\``);
+    } else if (tag === 'blockquote') {
+      out.push(contentMarkdown(Array.from(node.childNodes)).map(paragraph => paragraph.split('\n').map(line => `> ${line}`).join('\n')).join('\n>\n'));
+    } else if (tag === 'p' || !hasBlockChildren(node, INLINE_TAGS)) {
+      const text = inlineOf(node);
+      if (text) out.push(text);
+    } else {
+      out.push(...contentMarkdown(Array.from(node.childNodes)));
+    }
+  }
+  flushInline();
+
+  return out;
+}
+
+/**
+ * A block as a Markdown grid table: the block name as a header row spanning all
+ * columns, then one table row per block row. Rows with fewer cells than the widest
+ * row span their last cell over the remaining columns.
+ */
+function blockMarkdown(block: DomElement): string {
+  const { title, rows } = blockRows(block, cell => contentMarkdown(Array.from(cell.childNodes)));
+  const columnCount = Math.max(1, ...rows.map(row => row.length));
+  const cellLines = rows.map(row => row.map(paragraphs => paragraphs.join('\n\n').split('\n')));
+
+  // Column widths from the cells that do not span
+  const widths = new Array(columnCount).fill(3);
+  cellLines.forEach(row => row.forEach((lines, column) => {
+    if (row.length === columnCount || column < row.length - 1) {
+      widths[column] = Math.max(widths[column], ...lines.map(line => line.length));
+    }
+  }));
+
+  const spanWidth = (from: number, to: number) => widths.slice(from, to).reduce((sum, width) => sum + width, 0) + 3 * (to - from - 1);
+  const widenLast = (from: number, needed: number) => {
+    const shortfall = needed - spanWidth(from, columnCount);
+    if (shortfall > 0) widths[columnCount - 1] += shortfall;
+  };
+  widenLast(0, title.length);
+  cellLines.forEach(row => {
+    if (row.length > 0 && row.length < columnCount) {
+      widenLast(row.length - 1, Math.max(...row[row.length - 1].map(line => line.length)));
+    }
+  });
+
+  const border = (fill: string) => `+${widths.map(width => fill.repeat(width + 2)).join('+')}+`;
+  const rowLines = (cells: Array<{ lines: string[]; width: number }>) => {
+    const height = Math.max(1, ...cells.map(cell => cell.lines.length));
+    return Array.from({ length: height }, (_, i) => `| ${cells.map(cell => (cell.lines[i] || '').padEnd(cell.width)).join(' | ')} |`);
+  };
+
+  const lines = [
+    `+${'-'.repeat(spanWidth(0, columnCount) + 2)}+`,
+    ...rowLines([{ lines: [title], width: spanWidth(0, columnCount) }]),
+    border('='),
+  ];
+  for (const row of cellLines) {
+    const cells = (row.length > 0 ? row : [['']]).map((cellText, column, all) => ({
+      lines: cellText,
+      width: column === all.length - 1 ? spanWidth(column, columnCount) : widths[column],
+    }));
+    lines.push(...rowLines(cells), border('-'));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a DA page (or a fragment of one) as EDS Markdown: sections separated by `---`,
+ * default content as plain Markdown, and blocks (metadata and section-metadata included)
+ * as grid tables
+ */
+export function renderMarkdown(html: string): string {
+  const document = parsePage(html);
+  const main = document.querySelector('main') as DomElement | null;
+
+  const sections = main
+    ? childElements(main).filter(child => tagOf(child) === 'div')
+    : [document.body as unknown as DomElement];
+
+  return sections
+    .map(section => contentMarkdown(Array.from(section.childNodes), true).join('\n\n'))
+    .filter(Boolean)
+    .join('\n\n---\n\n') + '\n';
+}
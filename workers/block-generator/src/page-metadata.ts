@@ -0,0 +1,97 @@
+import { Page } from '@cloudflare/puppeteer';
+
+/**
+ * Source page head, in the import-work/metadata.json format: meta name/property -> content,
+ * plus "title" and "canonical"
+ */
+export type SourceMetadata = Record<string, string>;
+
+/**
+ * Fields of the EDS metadata block for an imported page
+ */
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  /** og:image URL (a DA media URL once uploaded) */
+  image?: string;
+  imageAlt?: string;
+  /** Only kept when it points somewhere other than the page itself (EDS adds self canonicals) */
+  canonical?: string;
+  keywords?: string;
+}
+
+/**
+ * Read the source page's <title>, meta tags and canonical link
+ */
+export async function extractSourceMetadata(page: Page): Promise<SourceMetadata> {
+  return page.evaluate(() => {
+    const metadata: Record<string, string> = {};
+    if (document.title) metadata.title = document.title.trim();
+
+    document.querySelectorAll('meta[name], meta[property]').forEach((meta) => {
+      const key = meta.getAttribute('name') || meta.getAttribute('property');
+      const content = meta.getAttribute('content');
+      if (key && content && !(key in metadata)) metadata[key] = content.trim();
+    });
+
+    const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+    if (canonical) metadata.canonical = new URL(canonical, window.location.href).href;
+
+    return metadata;
+  });
+}
+
+function samePage(a: string, b: string): boolean {
+  const normalize = (value: string) => {
+    const url = new URL(value);
+    return `${url.host}${url.pathname.replace(/(\/index)?(\.html)?\/?$/, '')}`;
+  };
+  try {
+    return normalize(a) === normalize(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the metadata block fields from the source page's head
+ */
+export function toPageMetadata(source: SourceMetadata, pageUrl: string): PageMetadata {
+  const image = source['og:image'] || source['twitter:image'];
+  const canonical = source.canonical && !samePage(source.canonical, pageUrl) ? source.canonical : undefined;
+
+  return {
+    title: source.title || source['og:title'],
+    description: source.description || source['og:description'],
+    image: image ? new URL(image, pageUrl).href : undefined,
+    imageAlt: source['og:image:alt'] || source['twitter:image:alt'],
+    canonical,
+    keywords: source.keywords,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * EDS metadata block (div format); null when there is nothing to put in it
+ */
+export function buildMetadataBlockHtml(metadata: PageMetadata): string | null {
+  const rows: Array<[string, string]> = [];
+  if (metadata.title) rows.push(['Title', escapeHtml(metadata.title)]);
+  if (metadata.description) rows.push(['Description', escapeHtml(metadata.description)]);
+  if (metadata.image) {
+    rows.push(['Image', `<picture><img src="${escapeHtml(metadata.image)}" alt="${escapeHtml(metadata.imageAlt || '')}"></picture>`]);
+  }
+  if (metadata.canonical) rows.push(['Canonical', `<a href="${escapeHtml(metadata.canonical)}">${escapeHtml(metadata.canonical)}</a>`]);
+  if (metadata.keywords) rows.push(['Keywords', escapeHtml(metadata.keywords)]);
+  if (rows.length === 0) return null;
+
+  return `<div class="metadata">
+${rows.map(([key, value]) => `  <div>
+    <div>${key}</div>
+    <div>${value}</div>
+  </div>`).join('\n')}
+</div>`;
+}
@@ -0,0 +1,168 @@
+import { ComponentDescription } from './enhanced-generator';
+import { Env } from './types';
+
+/**
+ * Quality tiers used as references, best first
+ */
+const REFERENCE_TIERS = ['gold', 'silver'] as const;
+
+/** Candidates fetched per tier before filtering by block type */
+const CANDIDATES_PER_TIER = 10;
+
+/** Collector URL used with the service binding (the host is ignored) */
+const BINDING_BASE_URL = 'https://block-collector';
+
+/**
+ * A production EDS block from the block-collector corpus, used as a few-shot example
+ */
+export interface ReferenceBlock {
+  id: string;
+  blockName: string;
+  variant: string | null;
+  qualityTier: 'gold' | 'silver';
+  qualityScore: number;
+  similarityScore: number;
+  siteId: string;
+  /** Block markup as authored on the source site */
+  html: string;
+  /** decorate() module from the source site */
+  js: string;
+  css: string | null;
+}
+
+/**
+ * Where reference blocks come from (the block-collector worker)
+ */
+export interface ReferenceBlockSource {
+  search(query: string, options: { tier: 'gold' | 'silver'; limit: number }): Promise<ReferenceBlock[]>;
+}
+
+/**
+ * Block returned by the collector's GET /blocks/search?includeCode=true
+ */
+interface CollectorSearchResult {
+  id: string;
+  site_id: string;
+  block_name: string;
+  block_variant: string | null;
+  html: string | null;
+  cleaned_html: string | null;
+  quality_tier: string | null;
+  quality_score: number | null;
+  similarityScore: number;
+  js?: string | null;
+  css?: string | null;
+}
+
+/**
+ * Connect to the block collector through the BLOCK_COLLECTOR service binding,
+ * or over HTTP at BLOCK_COLLECTOR_URL. Returns undefined when neither is configured.
+ */
+export function createBlockCollectorSource(env: Env): ReferenceBlockSource | undefined {
+  const binding = env.BLOCK_COLLECTOR;
+  const baseUrl = binding ? BINDING_BASE_URL : env.BLOCK_COLLECTOR_URL?.replace(/\/+$/, '');
+  if (!baseUrl) return undefined;
+
+  const fetchCollector = (url: string) => (binding ? binding.fetch(url) : fetch(url));
+
+  return {
+    async search(query, { tier, limit }) {
+      const params = new URLSearchParams({ q: query, tier, limit: String(limit), includeCode: 'true' });
+      const response = await fetchCollector(`${baseUrl}/blocks/search?${params}`);
+      if (!response.ok) {
+        throw new Error(`Block collector search failed: ${response.status} - ${await response.text()}`);
+      }
+
+      const result = await response.json() as { success: boolean; data?: CollectorSearchResult[]; error?: string };
+      if (!result.success) {
+        throw new Error(`Block collector search failed: ${result.error || 'unknown error'}`);
+      }
+
+      return (result.data || [])
+        .filter(block => block.js && (block.cleaned_html || block.html))
+        .map(block => ({
+          id: block.id,
+          blockName: block.block_name,
+          variant: block.block_variant,
+          qualityTier: tier,
+          qualityScore: block.quality_score || 0,
+          similarityScore: block.similarityScore,
+          siteId: block.site_id,
+          html: (block.cleaned_html || block.html)!,
+          js: block.js!,
+          css: block.css ?? null,
+        }));
+    },
+  };
+}
+
+/**
+ * Search text in the shape of the collector's own block descriptions
+ * ("A cards block containing images with 3 links ...")
+ */
+export function buildReferenceQuery(description: ComponentDescription): string {
+  const parts = [
+    `A ${description.componentType} block`,
+    description.structure.layout,
+    description.structure.gridInfo
+      ? `${description.structure.gridInfo.columns} columns of ${description.structure.gridInfo.itemStructure.join(', ')}`
+      : null,
+    description.contentElements.images.length > 0 ? 'containing images' : null,
+    description.contentElements.ctas.length > 0 ? `with ${description.contentElements.ctas.length} links` : null,
+    `content: ${description.structure.contentHierarchy.join(', ')}`,
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+function typeTokens(name: string): Set<string> {
+  return new Set(
+    name.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 2)
+      // cards/card, columns/column, slides/slide
+      .map(token => token.replace(/s$/, ''))
+  );
+}
+
+/**
+ * Whether a corpus block name is the same kind of block as the described component
+ * ("cards" for "card-grid", "hero" for "hero-with-overlay")
+ */
+export function isSameBlockType(blockName: string, componentType: string): boolean {
+  const componentTokens = typeTokens(componentType);
+  return [...typeTokens(blockName)].some(token => componentTokens.has(token));
+}
+
+/**
+ * Find the best gold/silver corpus blocks of the same type as the described component.
+ * Gold blocks come first; within a tier, the most similar first.
+ */
+export async function findReferenceBlocks(
+  source: ReferenceBlockSource,
+  description: ComponentDescription,
+  limit: number = 3
+): Promise<ReferenceBlock[]> {
+  const query = buildReferenceQuery(description);
+  const tiers = await Promise.all(
+    REFERENCE_TIERS.map(tier => source.search(query, { tier, limit: CANDIDATES_PER_TIER }))
+  );
+
+  const seen = new Set<string>();
+  const references: ReferenceBlock[] = [];
+  for (const candidates of tiers) {
+    const sameType = candidates
+      .filter(block => isSameBlockType(block.blockName, description.componentType))
+      .sort((a, b) => b.similarityScore - a.similarityScore);
+
+    for (const block of sameType) {
+      // The collector extracts a block from every page it appears on: keep one copy per site
+      const key = `${block.siteId}/${block.blockName}/${block.variant || ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      references.push(block);
+      if (references.length >= limit) return references;
+    }
+  }
+
+  return references;
+}
@@ -287,3 +287,63 @@ export async function capturePageWithElement(
     await page.close();
   }
 }
+
+/**
+ * Viewport used for responsive capture, rendering and refinement
+ */
+export interface ResponsiveViewport {
+  name: 'mobile' | 'tablet' | 'desktop';
+  width: number;
+  height: number;
+}
+
+/**
+ * Breakpoints blocks are generated and refined against.
+ * Mobile and tablet sit either side of the EDS 600px breakpoint, desktop above 900px.
+ */
+export const RESPONSIVE_VIEWPORTS: ResponsiveViewport[] = [
+  { name: 'mobile', width: 375, height: 812 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'desktop', width: 1440, height: 900 },
+];
+
+export interface ViewportScreenshot extends ResponsiveViewport {
+  screenshot: string; // base64 encoded
+  mediaType: 'image/png' | 'image/jpeg';
+}
+
+/**
+ * Screenshot the element at an XPath at several viewport widths, reusing an already loaded page.
+ * Viewports where the element is missing or hidden are skipped; the page viewport is
+ * restored to desktop size afterwards.
+ */
+export async function captureElementAtViewports(
+  page: Page,
+  xpath: string,
+  viewports: ResponsiveViewport[]
+): Promise<ViewportScreenshot[]> {
+  const screenshots: ViewportScreenshot[] = [];
+
+  try {
+    for (const viewport of viewports) {
+      await page.setViewport({ width: viewport.width, height: viewport.height });
+      // Let media queries and lazy layout settle
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      const element = await page.$(`::-p-xpath(${xpath})`);
+      const boundingBox = element ? await element.boundingBox() : null;
+      if (!element || !boundingBox || boundingBox.width === 0 || boundingBox.height === 0) {
+        console.warn(`  Element not visible at ${viewport.name} (${viewport.width}px), skipping`);
+        continue;
+      }
+
+      const screenshot = await element.screenshot({ type: 'png', encoding: 'base64' });
+      screenshots.push({ ...viewport, screenshot: screenshot as string, mediaType: 'image/png' });
+      console.log(`  Captured ${viewport.name} (${viewport.width}px): ${Math.round(boundingBox.width)}x${Math.round(boundingBox.height)}`);
+    }
+  } finally {
+    await page.setViewport({ width: 1440, height: 900 });
+  }
+
+  return screenshots;
+}
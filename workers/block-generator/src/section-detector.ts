@@ -0,0 +1,354 @@
+import { Browser } from '@cloudflare/puppeteer';
+import { AnthropicConfig, NamedBlock } from './design-analyzer';
+import { BoundingBox } from './types';
+import { detectBlocksAnnotated } from './annotated-detector';
+import { detectBlocks } from './bbox-detector';
+import { detectBlocksHybrid } from './hybrid-detector';
+import { detectBlocksSmart } from './smart-detector';
+import { detectBlocksVisually } from './visual-block-detector';
+import { analyzePageSections } from './visual-section-analyzer';
+import { analyzePage } from './page-analyzer';
+import { detectBlocksInBrowser } from './block-detector';
+
+/**
+ * Names of the available section detectors
+ */
+export type DetectorName =
+  | 'annotated'
+  | 'bbox'
+  | 'hybrid'
+  | 'smart'
+  | 'visual'
+  | 'visual-sections'
+  | 'page-analyzer'
+  | 'dom';
+
+export const DETECTOR_NAMES: DetectorName[] = [
+  'annotated',
+  'bbox',
+  'hybrid',
+  'smart',
+  'visual',
+  'visual-sections',
+  'page-analyzer',
+  'dom',
+];
+
+/**
+ * A section found by a detector, normalized to page coordinates
+ */
+export interface DetectedSection {
+  name: string;
+  description: string;
+  type: string;
+  priority: 'high' | 'medium' | 'low';
+  /** Bounding box in page coordinates (1440px wide viewport, scroll offset included) */
+  boundingBox: BoundingBox;
+  /** CSS selector of the matching element, when the detector works on the DOM */
+  selector?: string;
+  /** Detector confidence between 0 and 1 (1 when the detector does not report one) */
+  confidence: number;
+}
+
+/**
+ * Normalized result of running a detector against a page
+ */
+export interface SectionDetectionResult {
+  detector: DetectorName;
+  url: string;
+  title: string;
+  sections: DetectedSection[];
+  durationMs: number;
+}
+
+/**
+ * Common interface implemented by every section detector
+ */
+export interface SectionDetector {
+  name: DetectorName;
+  /** Whether the detector calls Claude (and therefore needs an Anthropic config) */
+  usesLLM: boolean;
+  detect(browser: Browser, url: string, config: AnthropicConfig): Promise<SectionDetectionResult>;
+}
+
+/**
+ * Intersection over union of two boxes
+ */
+export function computeIoU(a: BoundingBox, b: BoundingBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Resolve selectors of named blocks to page-coordinate bounding boxes.
+ * Blocks whose selector no longer matches a visible element are dropped.
+ */
+async function resolveNamedBlocks(
+  browser: Browser,
+  url: string,
+  blocks: NamedBlock[]
+): Promise<DetectedSection[]> {
+  if (blocks.length === 0) return [];
+
+  const page = await browser.newPage();
+  try {
+    await page.setViewport({ width: 1440, height: 900 });
+    await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
+
+    const boxes = await page.evaluate((selectors: string[]) => {
+      return selectors.map(selector => {
+        try {
+          const el = document.querySelector(selector);
+          if (!el) return null;
+          const rect = el.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) return null;
+          return {
+            x: Math.round(rect.left + window.scrollX),
+            y: Math.round(rect.top + window.scrollY),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          };
+        } catch {
+          return null;
+        }
+      });
+    }, blocks.map(b => b.selector));
+
+    const sections: DetectedSection[] = [];
+    blocks.forEach((block, i) => {
+      const box = boxes[i];
+      if (!box) {
+        console.log(`  Selector did not resolve to a visible element: ${block.selector}`);
+        return;
+      }
+      sections.push({
+        name: block.name,
+        description: block.description,
+        type: block.type,
+        priority: block.priority,
+        boundingBox: box,
+        selector: block.selector,
+        confidence: 1,
+      });
+    });
+    return sections;
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Run a detector that needs its own page, making sure the page is closed
+ */
+async function withPage<T>(browser: Browser, fn: (page: Awaited<ReturnType<Browser['newPage']>>) => Promise<T>): Promise<T> {
+  const page = await browser.newPage();
+  try {
+    return await fn(page);
+  } finally {
+    await page.close();
+  }
+}
+
+function normalizePriority(priority: string | undefined): DetectedSection['priority'] {
+  return priority === 'high' || priority === 'low' ? priority : 'medium';
+}
+
+const detectors: Record<DetectorName, Omit<SectionDetector, 'name'>> = {
+  annotated: {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await detectBlocksAnnotated(browser, url, config);
+      const sections = await resolveNamedBlocks(browser, url, result.blocks);
+      return { detector: 'annotated', url, title: result.title, sections, durationMs: Date.now() - start };
+    },
+  },
+
+  bbox: {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await withPage(browser, page => detectBlocks(page, url, config));
+      return {
+        detector: 'bbox',
+        url,
+        title: result.title,
+        sections: result.blocks.map(b => ({
+          name: b.name,
+          description: b.description,
+          type: b.type,
+          priority: normalizePriority(b.priority),
+          boundingBox: b.boundingBox,
+          confidence: 1,
+        })),
+        durationMs: Date.now() - start,
+      };
+    },
+  },
+
+  hybrid: {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await withPage(browser, page => detectBlocksHybrid(page, url, config));
+      return {
+        detector: 'hybrid',
+        url,
+        title: result.title,
+        sections: result.blocks.map(b => ({
+          name: b.name,
+          description: b.description,
+          type: b.type,
+          priority: normalizePriority(b.priority),
+          boundingBox: b.boundingBox,
+          confidence: 1,
+        })),
+        durationMs: Date.now() - start,
+      };
+    },
+  },
+
+  smart: {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await detectBlocksSmart(browser, url, config);
+      const sections = await resolveNamedBlocks(browser, url, result.blocks);
+      return { detector: 'smart', url, title: result.title, sections, durationMs: Date.now() - start };
+    },
+  },
+
+  visual: {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await detectBlocksVisually(browser, url, config);
+      const sections = await resolveNamedBlocks(browser, url, result.blocks);
+      return { detector: 'visual', url, title: result.title, sections, durationMs: Date.now() - start };
+    },
+  },
+
+  'visual-sections': {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await withPage(browser, page => analyzePageSections(page, url, config));
+      return {
+        detector: 'visual-sections',
+        url,
+        title: result.title,
+        sections: result.sections.map(s => ({
+          name: s.name,
+          description: s.description,
+          type: s.type,
+          priority: normalizePriority(s.priority),
+          boundingBox: s.boundingBox,
+          selector: s.selector,
+          confidence: 1,
+        })),
+        durationMs: Date.now() - start,
+      };
+    },
+  },
+
+  'page-analyzer': {
+    usesLLM: true,
+    async detect(browser, url, config) {
+      const start = Date.now();
+      const result = await withPage(browser, page => analyzePage(page, url, config));
+      // Sections are horizontal bands: they span the full page width
+      return {
+        detector: 'page-analyzer',
+        url,
+        title: result.title,
+        sections: result.sections.map(s => ({
+          name: s.name,
+          description: s.description,
+          type: s.type,
+          priority: normalizePriority(s.priority),
+          boundingBox: { x: 0, y: s.yStart, width: result.pageWidth, height: Math.max(0, s.yEnd - s.yStart) },
+          confidence: 1,
+        })),
+        durationMs: Date.now() - start,
+      };
+    },
+  },
+
+  dom: {
+    usesLLM: false,
+    async detect(browser, url) {
+      const start = Date.now();
+      const result = await detectBlocksInBrowser(browser, url);
+      return {
+        detector: 'dom',
+        url,
+        title: result.title,
+        sections: result.blocks
+          .filter(b => b.boundingBox && b.boundingBox.width > 0 && b.boundingBox.height > 0)
+          .map(b => ({
+            name: b.classes[0] || b.tagName,
+            description: b.textContent.substring(0, 100),
+            type: 'content',
+            priority: 'medium' as const,
+            boundingBox: b.boundingBox!,
+            selector: b.selector,
+            confidence: 1,
+          })),
+        durationMs: Date.now() - start,
+      };
+    },
+  },
+};
+
+/**
+ * Check whether a string is a known detector name
+ */
+export function isDetectorName(value: unknown): value is DetectorName {
+  return typeof value === 'string' && (DETECTOR_NAMES as string[]).includes(value);
+}
+
+/**
+ * Get a section detector by name
+ */
+export function getSectionDetector(name: DetectorName): SectionDetector {
+  return { name, ...detectors[name] };
+}
+
+/**
+ * Full-page screenshot and dimensions, for detectors that do not return their own
+ */
+export async function capturePageOverview(
+  browser: Browser,
+  url: string
+): Promise<{ title: string; screenshot: string; pageWidth: number; pageHeight: number }> {
+  return withPage(browser, async page => {
+    await page.setViewport({ width: 1440, height: 900 });
+    await page.goto(url, { waitUntil: 'networkidle0', timeout: 30000 });
+
+    const title = await page.title();
+    const dimensions = await page.evaluate(() => ({
+      width: document.documentElement.scrollWidth,
+      height: document.documentElement.scrollHeight,
+    }));
+
+    // Limit height for very long pages (same cap as page-analyzer)
+    const maxHeight = Math.min(dimensions.height, 8000);
+    const screenshotBuffer = await page.screenshot({
+      clip: { x: 0, y: 0, width: dimensions.width, height: maxHeight },
+      type: 'png',
+    }) as Buffer;
+
+    return {
+      title,
+      screenshot: screenshotBuffer.toString('base64'),
+      pageWidth: dimensions.width,
+      pageHeight: dimensions.height,
+    };
+  });
+}
@@ -0,0 +1,298 @@
+import { Page } from '@cloudflare/puppeteer';
+import { parseDeclarations, scanRules, splitSelectorList } from './css-linter';
+
+/**
+ * How a section looks on the source page
+ */
+export interface DetectedSectionStyle {
+  /** Painted background color behind the section (computed rgb/rgba), null when it is the page background */
+  backgroundColor: string | null;
+  /** Background image URL behind the section, if any */
+  backgroundImage: string | null;
+  /** Space between the section edges and its first/last content (px) */
+  paddingTop: number;
+  paddingBottom: number;
+  /** Page (body) background color, for telling section backgrounds apart from the page */
+  pageBackground: string;
+}
+
+/**
+ * A section style class defined in the site's styles.css (`main .section.dark { ... }`)
+ */
+export interface SectionStyleDefinition {
+  name: string;
+  backgroundColor?: Rgba;
+  backgroundImage: boolean;
+  paddingTop?: number;
+  paddingBottom?: number;
+}
+
+/**
+ * Section styles of a stylesheet, plus the padding every section gets
+ */
+export interface SectionStyleSheet {
+  base: { paddingTop?: number; paddingBottom?: number };
+  styles: SectionStyleDefinition[];
+}
+
+/**
+ * Section-metadata styles for a section, and what could not be expressed with the site's styles
+ */
+export interface SectionStyleMatch {
+  styles: string[];
+  unmatched: string[];
+}
+
+type Rgba = [number, number, number, number];
+
+/** RGB distance under which two colors count as the same background */
+const COLOR_MATCH_DISTANCE = 40;
+
+/** Differences under this are the same color (anti-aliasing, rounding) */
+const SAME_COLOR_DISTANCE = 10;
+
+const SECTION_SELECTOR = /^(?:main\s*>?\s*)?\.section(?:\.([\w-]+))?$/;
+
+const NAMED_COLORS: Record<string, Rgba> = {
+  white: [255, 255, 255, 1],
+  black: [0, 0, 0, 1],
+  transparent: [0, 0, 0, 0],
+};
+
+/**
+ * Parse a CSS color (hex, rgb()/rgba(), a few names), resolving var() against the :root variables
+ */
+function parseColor(value: string, variables: Record<string, string>, depth: number = 0): Rgba | null {
+  const trimmed = value.trim().toLowerCase();
+
+  const variable = trimmed.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+  if (variable) {
+    const resolved = variables[variable[1]] ?? variable[2];
+    return resolved && depth < 5 ? parseColor(resolved, variables, depth + 1) : null;
+  }
+
+  if (NAMED_COLORS[trimmed]) return NAMED_COLORS[trimmed];
+
+  const hex = trimmed.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(d => d + d).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null;
+    const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16);
+    return [channel(0), channel(2), channel(4), digits.length === 8 ? channel(6) / 255 : 1];
+  }
+
+  const rgb = trimmed.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return [parseFloat(rgb[1]), parseFloat(rgb[2]), parseFloat(rgb[3]), alpha];
+  }
+
+  return null;
+}
+
+function colorDistance(a: Rgba, b: Rgba): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+function toHex(color: Rgba): string {
+  return `#${color.slice(0, 3).map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * A length in px (rem/em count as 16px), or undefined for anything relative to the layout
+ */
+function parseLength(value: string): number | undefined {
+  const match = value.trim().match(/^(-?[\d.]+)(px|rem|em)?$/);
+  if (!match) return undefined;
+  const number = parseFloat(match[1]);
+  return match[2] === 'rem' || match[2] === 'em' ? number * 16 : match[2] === 'px' || number === 0 ? number : undefined;
+}
+
+/**
+ * Top and bottom values of a padding / padding-block shorthand
+ */
+function verticalPadding(property: string, value: string): { top?: number; bottom?: number } {
+  const parts = value.trim().split(/\s+/);
+  if (property === 'padding-top') return { top: parseLength(value) };
+  if (property === 'padding-bottom') return { bottom: parseLength(value) };
+  if (property === 'padding-block') return { top: parseLength(parts[0]), bottom: parseLength(parts[1] ?? parts[0]) };
+  return { top: parseLength(parts[0]), bottom: parseLength(parts[2] ?? parts[0]) };
+}
+
+/**
+ * Collect the section style classes (`main .section.{name}`) a site's styles.css defines.
+ * Later rules override earlier ones, so desktop media queries win as they do on a wide screenshot.
+ */
+export function parseSectionStyles(css: string): SectionStyleSheet {
+  const variables: Record<string, string> = {};
+  const rules = scanRules(css);
+
+  for (const rule of rules) {
+    if (!/(^|,)\s*:root\s*(,|$)/.test(rule.selectorText)) continue;
+    for (const decl of parseDeclarations(css, rule.bodyStart, rule.bodyEnd)) {
+      if (decl.property.startsWith('--')) variables[decl.property] = decl.value;
+    }
+  }
+
+  const sheet: SectionStyleSheet = { base: {}, styles: [] };
+  const byName = new Map<string, SectionStyleDefinition>();
+
+  for (const rule of rules) {
+    for (const { selector } of splitSelectorList(rule.selectorText)) {
+      const match = selector.match(SECTION_SELECTOR);
+      if (!match) continue;
+
+      const name = match[1];
+      let definition: SectionStyleDefinition | undefined;
+      if (name) {
+        definition = byName.get(name);
+        if (!definition) {
+          definition = { name, backgroundImage: false };
+          byName.set(name, definition);
+          sheet.styles.push(definition);
+        }
+      }
+
+      for (const decl of parseDeclarations(css, rule.bodyStart, rule.bodyEnd)) {
+        const value = decl.value.replace(/\s*!\s*important\s*$/i, '');
+        if (/^padding(-top|-bottom|-block)?$/.test(decl.property)) {
+          const { top, bottom } = verticalPadding(decl.property, value);
+          const target = definition || sheet.base;
+          if (top !== undefined) target.paddingTop = top;
+          if (bottom !== undefined) target.paddingBottom = bottom;
+        } else if (definition && (decl.property === 'background-color' || decl.property === 'background')) {
+          // The shorthand may hold an image and a color: take the first token that parses as a color
+          const color = value.match(/var\([^)]*\)|#[0-9a-f]+|rgba?\([^)]*\)|\b[a-z]+\b/gi)
+            ?.map(token => parseColor(token, variables))
+            .find((parsed): parsed is Rgba => parsed !== null);
+          if (color && color[3] > 0) definition.backgroundColor = color;
+          if (/url\(/.test(value)) definition.backgroundImage = true;
+        } else if (definition && decl.property === 'background-image' && /url\(/.test(value)) {
+          definition.backgroundImage = true;
+        }
+      }
+    }
+  }
+
+  return sheet;
+}
+
+/**
+ * Map a detected section look onto the site's section styles: background color and
+ * image first, then spacing when the section is noticeably tighter or looser than usual
+ */
+export function matchSectionStyles(detected: DetectedSectionStyle, sheet: SectionStyleSheet): SectionStyleMatch {
+  const styles: string[] = [];
+  const unmatched: string[] = [];
+
+  const pageBackground = parseColor(detected.pageBackground, {}) || NAMED_COLORS.white;
+  const background = detected.backgroundColor ? parseColor(detected.backgroundColor, {}) : null;
+
+  if (background && background[3] > 0 && colorDistance(background, pageBackground) > SAME_COLOR_DISTANCE) {
+    const closest = sheet.styles
+      .filter(style => style.backgroundColor)
+      .map(style => ({ style, distance: colorDistance(style.backgroundColor!, background) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (closest && closest.distance <= COLOR_MATCH_DISTANCE) {
+      styles.push(closest.style.name);
+    } else {
+      unmatched.push(`background-color ${toHex(background)}`);
+    }
+  }
+
+  if (detected.backgroundImage) {
+    const imageStyle = sheet.styles.find(style => style.backgroundImage && !styles.includes(style.name));
+    if (imageStyle) {
+      styles.push(imageStyle.name);
+    } else {
+      unmatched.push(`background-image ${detected.backgroundImage}`);
+    }
+  }
+
+  const measured = (detected.paddingTop + detected.paddingBottom) / 2;
+  const average = (top?: number, bottom?: number) => (top ?? bottom ?? 0) / 2 + (bottom ?? top ?? 0) / 2;
+  const tolerance = (value: number) => Math.max(8, value * 0.2);
+  const basePadding = sheet.base.paddingTop !== undefined || sheet.base.paddingBottom !== undefined
+    ? average(sheet.base.paddingTop, sheet.base.paddingBottom)
+    : undefined;
+
+  if (basePadding === undefined || Math.abs(measured - basePadding) > tolerance(basePadding)) {
+    const spacing = sheet.styles
+      .filter(style => !style.backgroundColor && !style.backgroundImage && (style.paddingTop !== undefined || style.paddingBottom !== undefined))
+      .map(style => ({ style, padding: average(style.paddingTop, style.paddingBottom) }))
+      .sort((a, b) => Math.abs(a.padding - measured) - Math.abs(b.padding - measured))[0];
+
+    if (spacing && Math.abs(spacing.padding - measured) <= tolerance(spacing.padding)) {
+      styles.push(spacing.style.name);
+    }
+  }
+
+  return { styles, unmatched };
+}
+
+/**
+ * Section-metadata block (div format) applying the given styles to its section
+ */
+export function buildSectionMetadataHtml(styles: string[]): string {
+  return `<div class="section-metadata">
+  <div>
+    <div>Style</div>
+    <div>${styles.join(', ')}</div>
+  </div>
+</div>`;
+}
+
+/**
+ * Measure what paints behind a section on the live page (the element stack near its
+ * left edge, as a screenshot would show it) and how much space surrounds its content
+ */
+export async function detectSectionStyle(page: Page, yStart: number, yEnd: number): Promise<DetectedSectionStyle> {
+  return page.evaluate((top: number, bottom: number) => {
+    const transparent = (color: string) => color === 'transparent' || /rgba\(\s*0,\s*0,\s*0,\s*0\s*\)/.test(color);
+    const middle = top + (bottom - top) / 2;
+    window.scrollTo(0, Math.max(0, middle - window.innerHeight / 2));
+    const viewportY = Math.min(window.innerHeight - 1, Math.max(0, middle - window.scrollY));
+
+    const bodyColor = window.getComputedStyle(document.body).backgroundColor;
+    const htmlColor = window.getComputedStyle(document.documentElement).backgroundColor;
+    const pageBackground = !transparent(bodyColor) ? bodyColor : !transparent(htmlColor) ? htmlColor : 'rgb(255, 255, 255)';
+
+    let backgroundColor: string | null = null;
+    let backgroundImage: string | null = null;
+    for (const el of document.elementsFromPoint(8, viewportY)) {
+      if (el === document.body || el === document.documentElement) break;
+      const style = window.getComputedStyle(el);
+      if (!backgroundImage && style.backgroundImage.includes('url(')) {
+        backgroundImage = (style.backgroundImage.match(/url\(["']?([^"')]+)/) || [])[1] || null;
+      }
+      if (!transparent(style.backgroundColor)) {
+        backgroundColor = style.backgroundColor;
+        break;
+      }
+    }
+
+    let contentTop = bottom;
+    let contentBottom = top;
+    document.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li, img, a, button').forEach((el) => {
+      const rect = el.getBoundingClientRect();
+      const elTop = rect.top + window.scrollY;
+      const elBottom = rect.bottom + window.scrollY;
+      if (rect.height > 0 && elTop >= top && elBottom <= bottom) {
+        contentTop = Math.min(contentTop, elTop);
+        contentBottom = Math.max(contentBottom, elBottom);
+      }
+    });
+
+    return {
+      backgroundColor,
+      backgroundImage,
+      paddingTop: contentTop < bottom ? Math.round(contentTop - top) : 0,
+      paddingBottom: contentBottom > top ? Math.round(bottom - contentBottom) : 0,
+      pageBackground,
+    };
+  }, yStart, yEnd);
+}
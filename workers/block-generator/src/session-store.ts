@@ -0,0 +1,461 @@
+import { Env } from './types';
+
+// ============================================
+// Session Store (D1 metadata + R2 screenshots)
+// ============================================
+
+export type SessionStatus = 'active' | 'finalized';
+
+/**
+ * How an iteration was produced
+ */
+export type IterationSource = 'generate' | 'refine' | 'rollback' | 'fork';
+
+/**
+ * Element the session was generated from
+ */
+export interface SessionSelection {
+  xpath?: string;
+  html?: string;
+}
+
+export interface GenerationSession {
+  id: string;
+  sourceUrl: string;
+  blockName: string | null;
+  selection: SessionSelection;
+  options: Record<string, unknown>;
+  screenshotKey: string | null;
+  status: SessionStatus;
+  winner: { option: number; iteration: number } | null;
+  forkedFrom: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A stored BlockVariant plus how it was produced
+ */
+export interface SessionIteration {
+  sessionId: string;
+  option: number;
+  iteration: number;
+  parentIteration: number | null;
+  blockName: string;
+  html: string;
+  css: string;
+  js: string;
+  refinePrompt: string | null;
+  source: IterationSource;
+  branch: string | null;
+  daPath: string | null;
+  previewUrl: string | null;
+  screenshotKey: string | null;
+  /** Visual similarity score (0-100) of the rendered iteration to the original */
+  similarityScore: number | null;
+  createdAt: string;
+}
+
+export interface NewSession {
+  id: string;
+  sourceUrl: string;
+  blockName?: string;
+  selection?: SessionSelection;
+  options?: Record<string, unknown>;
+  screenshotKey?: string;
+  forkedFrom?: string;
+}
+
+export type NewIteration = Pick<SessionIteration, 'sessionId' | 'option' | 'iteration' | 'blockName' | 'html' | 'css' | 'js' | 'source'>
+  & Partial<Pick<SessionIteration, 'parentIteration' | 'refinePrompt' | 'branch' | 'daPath' | 'previewUrl' | 'screenshotKey' | 'similarityScore'>>;
+
+interface SessionRow {
+  id: string;
+  source_url: string;
+  block_name: string | null;
+  selection: string | null;
+  options: string | null;
+  screenshot_key: string | null;
+  status: SessionStatus;
+  winner_option: number | null;
+  winner_iteration: number | null;
+  forked_from: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface IterationRow {
+  session_id: string;
+  option: number;
+  iteration: number;
+  parent_iteration: number | null;
+  block_name: string;
+  html: string;
+  css: string;
+  js: string;
+  refine_prompt: string | null;
+  source: IterationSource;
+  branch: string | null;
+  da_path: string | null;
+  preview_url: string | null;
+  screenshot_key: string | null;
+  similarity_score: number | null;
+  created_at: string;
+}
+
+/**
+ * D1 database and R2 bucket backing the session store
+ */
+export interface SessionStore {
+  db: D1Database;
+  bucket?: R2Bucket;
+}
+
+/**
+ * Get the session store bindings, or null when SESSIONS_DB is not configured
+ * (recording is then skipped and the /sessions endpoints are unavailable)
+ */
+export function getSessionStore(env: Env): SessionStore | null {
+  if (!env.SESSIONS_DB) return null;
+  return { db: env.SESSIONS_DB, bucket: env.SESSION_ASSETS };
+}
+
+function parseJSON<T>(json: string | null, fallback: T): T {
+  if (!json) return fallback;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function toSession(row: SessionRow): GenerationSession {
+  return {
+    id: row.id,
+    sourceUrl: row.source_url,
+    blockName: row.block_name,
+    selection: parseJSON<SessionSelection>(row.selection, {}),
+    options: parseJSON<Record<string, unknown>>(row.options, {}),
+    screenshotKey: row.screenshot_key,
+    status: row.status,
+    winner: row.winner_option !== null && row.winner_iteration !== null
+      ? { option: row.winner_option, iteration: row.winner_iteration }
+      : null,
+    forkedFrom: row.forked_from,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toIteration(row: IterationRow): SessionIteration {
+  return {
+    sessionId: row.session_id,
+    option: row.option,
+    iteration: row.iteration,
+    parentIteration: row.parent_iteration,
+    blockName: row.block_name,
+    html: row.html,
+    css: row.css,
+    js: row.js,
+    refinePrompt: row.refine_prompt,
+    source: row.source,
+    branch: row.branch,
+    daPath: row.da_path,
+    previewUrl: row.preview_url,
+    screenshotKey: row.screenshot_key,
+    similarityScore: row.similarity_score,
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// Session Operations
+// ============================================
+
+/**
+ * Create a session, or refresh its source/selection when the id already exists
+ * (clients reuse one sessionId across several /block-generate-full calls)
+ */
+export async function upsertSession(db: D1Database, session: NewSession): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO generation_sessions (id, source_url, block_name, selection, options, screenshot_key, forked_from)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         source_url = excluded.source_url,
+         block_name = COALESCE(excluded.block_name, block_name),
+         selection = COALESCE(excluded.selection, selection),
+         options = COALESCE(excluded.options, options),
+         screenshot_key = COALESCE(excluded.screenshot_key, screenshot_key),
+         updated_at = datetime('now')`
+    )
+    .bind(
+      session.id,
+      session.sourceUrl,
+      session.blockName ?? null,
+      session.selection ? JSON.stringify(session.selection) : null,
+      session.options ? JSON.stringify(session.options) : null,
+      session.screenshotKey ?? null,
+      session.forkedFrom ?? null
+    )
+    .run();
+}
+
+export async function getSession(db: D1Database, id: string): Promise<GenerationSession | null> {
+  const row = await db
+    .prepare('SELECT * FROM generation_sessions WHERE id = ?')
+    .bind(id)
+    .first<SessionRow>();
+  return row ? toSession(row) : null;
+}
+
+export async function listSessions(
+  db: D1Database,
+  options: { limit?: number; offset?: number; sourceUrl?: string } = {}
+): Promise<{ sessions: Array<GenerationSession & { iterationCount: number }>; total: number }> {
+  const limit = Math.min(options.limit || 20, 100);
+  const offset = options.offset || 0;
+  const where = options.sourceUrl ? 'WHERE s.source_url = ?' : '';
+  const params = options.sourceUrl ? [options.sourceUrl] : [];
+
+  const [rows, count] = await Promise.all([
+    db
+      .prepare(
+        `SELECT s.*, (SELECT COUNT(*) FROM session_iterations i WHERE i.session_id = s.id) AS iteration_count
+         FROM generation_sessions s ${where}
+         ORDER BY s.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...params, limit, offset)
+      .all<SessionRow & { iteration_count: number }>(),
+    db
+      .prepare(`SELECT COUNT(*) AS total FROM generation_sessions s ${where}`)
+      .bind(...params)
+      .first<{ total: number }>(),
+  ]);
+
+  return {
+    sessions: rows.results.map(row => ({ ...toSession(row), iterationCount: row.iteration_count })),
+    total: count?.total || 0,
+  };
+}
+
+/**
+ * Record the winning variant and mark the session finalized
+ */
+export async function setSessionWinner(
+  db: D1Database,
+  id: string,
+  winner: { option: number; iteration: number },
+  blockName: string
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE generation_sessions
+       SET status = 'finalized', winner_option = ?, winner_iteration = ?, block_name = ?, updated_at = datetime('now')
+       WHERE id = ?`
+    )
+    .bind(winner.option, winner.iteration, blockName, id)
+    .run();
+}
+
+// ============================================
+// Iteration Operations
+// ============================================
+
+/**
+ * Insert an iteration, or update the stored copy when the same option/iteration
+ * is recorded again (e.g. /block-variant-push after /block-generate-full).
+ * Optional fields already stored are kept when the new value is missing.
+ */
+export async function saveIteration(db: D1Database, iteration: NewIteration): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO session_iterations
+         (session_id, option, iteration, parent_iteration, block_name, html, css, js, refine_prompt, source, branch, da_path, preview_url, screenshot_key, similarity_score)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(session_id, option, iteration) DO UPDATE SET
+         block_name = excluded.block_name,
+         html = excluded.html,
+         css = excluded.css,
+         js = excluded.js,
+         parent_iteration = COALESCE(excluded.parent_iteration, parent_iteration),
+         refine_prompt = COALESCE(excluded.refine_prompt, refine_prompt),
+         branch = COALESCE(excluded.branch, branch),
+         da_path = COALESCE(excluded.da_path, da_path),
+         preview_url = COALESCE(excluded.preview_url, preview_url),
+         screenshot_key = COALESCE(excluded.screenshot_key, screenshot_key),
+         similarity_score = COALESCE(excluded.similarity_score, similarity_score)`
+    )
+    .bind(
+      iteration.sessionId,
+      iteration.option,
+      iteration.iteration,
+      iteration.parentIteration ?? null,
+      iteration.blockName,
+      iteration.html,
+      iteration.css,
+      iteration.js,
+      iteration.refinePrompt ?? null,
+      iteration.source,
+      iteration.branch ?? null,
+      iteration.daPath ?? null,
+      iteration.previewUrl ?? null,
+      iteration.screenshotKey ?? null,
+      iteration.similarityScore ?? null
+    )
+    .run();
+
+  await db
+    .prepare(`UPDATE generation_sessions SET updated_at = datetime('now') WHERE id = ?`)
+    .bind(iteration.sessionId)
+    .run();
+}
+
+export async function getIteration(
+  db: D1Database,
+  sessionId: string,
+  option: number,
+  iteration: number
+): Promise<SessionIteration | null> {
+  const row = await db
+    .prepare('SELECT * FROM session_iterations WHERE session_id = ? AND option = ? AND iteration = ?')
+    .bind(sessionId, option, iteration)
+    .first<IterationRow>();
+  return row ? toIteration(row) : null;
+}
+
+export async function getIterations(db: D1Database, sessionId: string): Promise<SessionIteration[]> {
+  const result = await db
+    .prepare('SELECT * FROM session_iterations WHERE session_id = ? ORDER BY option ASC, iteration ASC')
+    .bind(sessionId)
+    .all<IterationRow>();
+  return result.results.map(toIteration);
+}
+
+/**
+ * Next free iteration number for an option (iterations are numbered from 1)
+ */
+export async function getNextIterationNumber(db: D1Database, sessionId: string, option: number): Promise<number> {
+  const row = await db
+    .prepare('SELECT MAX(iteration) AS latest FROM session_iterations WHERE session_id = ? AND option = ?')
+    .bind(sessionId, option)
+    .first<{ latest: number | null }>();
+  return (row?.latest || 0) + 1;
+}
+
+/**
+ * Roll an option back to an earlier iteration.
+ * History is never rewritten: the earlier code is copied into a new iteration
+ * at the head of the option, so refinement continues from there.
+ */
+export async function rollbackToIteration(
+  db: D1Database,
+  sessionId: string,
+  option: number,
+  iteration: number
+): Promise<SessionIteration | null> {
+  const target = await getIteration(db, sessionId, option, iteration);
+  if (!target) return null;
+
+  const next = await getNextIterationNumber(db, sessionId, option);
+  await saveIteration(db, {
+    sessionId,
+    option,
+    iteration: next,
+    parentIteration: iteration,
+    blockName: target.blockName,
+    html: target.html,
+    css: target.css,
+    js: target.js,
+    source: 'rollback',
+    screenshotKey: target.screenshotKey ?? undefined,
+    similarityScore: target.similarityScore ?? undefined,
+  });
+
+  return getIteration(db, sessionId, option, next);
+}
+
+/**
+ * Start a new session from an earlier iteration of an existing one.
+ * The iteration becomes option 1, iteration 1 of the new session.
+ */
+export async function forkSession(
+  db: D1Database,
+  sessionId: string,
+  option: number,
+  iteration: number,
+  newSessionId: string
+): Promise<{ session: GenerationSession; iteration: SessionIteration } | null> {
+  const [source, target] = await Promise.all([
+    getSession(db, sessionId),
+    getIteration(db, sessionId, option, iteration),
+  ]);
+  if (!source || !target) return null;
+
+  await upsertSession(db, {
+    id: newSessionId,
+    sourceUrl: source.sourceUrl,
+    blockName: target.blockName,
+    selection: source.selection,
+    options: source.options,
+    screenshotKey: source.screenshotKey ?? undefined,
+    forkedFrom: `${sessionId}-${option}-${iteration}`,
+  });
+  await saveIteration(db, {
+    sessionId: newSessionId,
+    option: 1,
+    iteration: 1,
+    blockName: target.blockName,
+    html: target.html,
+    css: target.css,
+    js: target.js,
+    source: 'fork',
+    screenshotKey: target.screenshotKey ?? undefined,
+    similarityScore: target.similarityScore ?? undefined,
+  });
+
+  const [session, forked] = await Promise.all([
+    getSession(db, newSessionId),
+    getIteration(db, newSessionId, 1, 1),
+  ]);
+  return session && forked ? { session, iteration: forked } : null;
+}
+
+// ============================================
+// Screenshot Storage (R2)
+// ============================================
+
+export const paths = {
+  original: (sessionId: string) => `sessions/${sessionId}/original.png`,
+  iteration: (sessionId: string, option: number, iteration: number) =>
+    `sessions/${sessionId}/${option}-${iteration}.png`,
+};
+
+/**
+ * Upload a base64 PNG screenshot, returning its key
+ */
+export async function uploadScreenshot(bucket: R2Bucket, key: string, base64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  await bucket.put(key, bytes, {
+    httpMetadata: {
+      contentType: 'image/png',
+    },
+  });
+  return key;
+}
+
+/**
+ * Download a screenshot as base64, or null when it does not exist
+ */
+export async function downloadScreenshot(bucket: R2Bucket, key: string): Promise<string | null> {
+  const object = await bucket.get(key);
+  if (!object) return null;
+
+  const bytes = new Uint8Array(await object.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,398 @@
+import { Page } from '@cloudflare/puppeteer';
+
+/**
+ * A link in the source site's header or footer
+ */
+export interface ChromeLink {
+  text: string;
+  href: string;
+}
+
+/**
+ * A navigation entry: a link, or a dropdown label with its menu
+ */
+export interface NavItem {
+  text: string;
+  href?: string;
+  children: NavItem[];
+}
+
+/**
+ * Source header, in the three parts the boilerplate header block renders
+ * (brand, sections, tools)
+ */
+export interface NavTree {
+  brand: { text: string; href: string; logo?: { src: string; alt: string } };
+  sections: NavItem[];
+  tools: ChromeLink[];
+}
+
+/**
+ * Source footer: link columns, social links and the legal line
+ */
+export interface FooterContent {
+  columns: Array<{ heading?: string; links: ChromeLink[] }>;
+  social: ChromeLink[];
+  legalLinks: ChromeLink[];
+  legalText: string[];
+}
+
+/**
+ * Computed look of the source header and footer, for the CSS overrides
+ */
+export interface ChromeStyles {
+  header: {
+    backgroundColor?: string;
+    color?: string;
+    linkColor?: string;
+    fontSize?: string;
+    fontWeight?: string;
+    textTransform?: string;
+    logoHeight?: number;
+    dropdownBackgroundColor?: string;
+  };
+  footer: {
+    backgroundColor?: string;
+    color?: string;
+    linkColor?: string;
+    fontSize?: string;
+  };
+}
+
+/** Top-level menu items hovered to reveal dropdowns */
+const MAX_HOVERED_ITEMS = 12;
+
+/** How long a hover menu gets to open */
+const HOVER_SETTLE_MS = 350;
+
+/**
+ * Read the header navigation. Each top-level item is hovered first so menus that
+ * are only rendered (or only linked through aria-controls) on hover are captured.
+ */
+export async function extractNavigation(page: Page): Promise<NavTree> {
+  // Mark the primary menu's top-level items so they can be hovered one by one
+  const itemCount = await page.evaluate(() => {
+    const header = document.querySelector('header, [role="banner"]') || document.body;
+    const navs = Array.from(header.querySelectorAll('nav, [role="navigation"]'));
+    const nav = navs.sort((a, b) => b.querySelectorAll('a').length - a.querySelectorAll('a').length)[0] || header;
+
+    const lists = Array.from(nav.querySelectorAll('ul, ol')).filter(list => !list.parentElement?.closest('li'));
+    const primary = lists.sort((a, b) => b.querySelectorAll(':scope > li').length - a.querySelectorAll(':scope > li').length)[0];
+    if (!primary) return 0;
+
+    primary.setAttribute('data-eds-nav', 'primary');
+    const items = Array.from(primary.querySelectorAll(':scope > li'));
+    items.forEach((li, i) => li.setAttribute('data-eds-nav-item', String(i)));
+    return items.length;
+  });
+
+  for (let i = 0; i < Math.min(itemCount, MAX_HOVERED_ITEMS); i++) {
+    try {
+      await page.hover(`[data-eds-nav-item="${i}"]`);
+      await new Promise(resolve => setTimeout(resolve, HOVER_SETTLE_MS));
+
+      // Remember the links of a menu panel that lives outside the item (aria-controls)
+      await page.evaluate((index: number) => {
+        const li = document.querySelector(`[data-eds-nav-item="${index}"]`);
+        const control = li?.querySelector('[aria-expanded="true"][aria-controls], [aria-haspopup][aria-controls]');
+        const panel = control ? document.getElementById(control.getAttribute('aria-controls') || '') : null;
+        if (li && panel && !li.contains(panel)) {
+          const links = Array.from(panel.querySelectorAll('a[href]')).map(a => ({
+            text: (a.textContent || '').replace(/\s+/g, ' ').trim() || a.getAttribute('aria-label') || '',
+            href: (a as HTMLAnchorElement).href,
+          })).filter(link => link.text);
+          li.setAttribute('data-eds-nav-panel', JSON.stringify(links));
+        }
+      }, i);
+    } catch (hoverError) {
+      console.warn(`  Could not hover nav item ${i}:`, hoverError);
+    }
+  }
+
+  return page.evaluate(() => {
+    const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+    const linkText = (a: Element) => clean(a.textContent) || a.getAttribute('aria-label') || a.getAttribute('title') || '';
+    const header = document.querySelector('header, [role="banner"]') || document.body;
+
+    // Brand: the link holding the logo, or the link to the home page
+    const links = Array.from(header.querySelectorAll('a[href]')) as HTMLAnchorElement[];
+    const brandLink = links.find(a => a.querySelector('img, svg'))
+      || links.find(a => new URL(a.href).pathname.replace(/\/(index\.html)?$/, '') === '');
+    const logo = brandLink?.querySelector('img');
+    const brand = {
+      text: (brandLink && linkText(brandLink)) || logo?.getAttribute('alt') || document.title.split(/[|\-–]/).pop()!.trim(),
+      href: brandLink?.href || window.location.origin + '/',
+      ...(logo?.src && { logo: { src: logo.currentSrc || logo.src, alt: logo.getAttribute('alt') || '' } }),
+    };
+
+    type Item = { text: string; href?: string; children: Item[] };
+    const toItem = (li: Element, depth: number): Item | null => {
+      const label = li.querySelector(':scope > a, :scope > button, :scope > span, :scope > p, :scope > div > a, :scope > div > button');
+      const text = label ? linkText(label) : clean(li.firstChild?.textContent);
+      if (!text) return null;
+
+      const href = label?.tagName === 'A' ? (label as HTMLAnchorElement).href : undefined;
+      let children: Item[] = [];
+      const submenu = li.querySelector(':scope ul, :scope ol');
+      if (submenu && depth < 2) {
+        children = Array.from(submenu.querySelectorAll(':scope > li'))
+          .map(child => toItem(child, depth + 1))
+          .filter((child): child is Item => child !== null);
+      } else if (li.hasAttribute('data-eds-nav-panel')) {
+        children = (JSON.parse(li.getAttribute('data-eds-nav-panel')!) as Array<{ text: string; href: string }>)
+          .map(link => ({ ...link, children: [] }));
+      } else {
+        // Mega menus built from divs: every further link in the item
+        children = Array.from(li.querySelectorAll('a[href]'))
+          .filter(a => a !== label)
+          .map(a => ({ text: linkText(a), href: (a as HTMLAnchorElement).href, children: [] }))
+          .filter(child => child.text);
+      }
+
+      return { text, href, children };
+    };
+
+    const primary = document.querySelector('[data-eds-nav="primary"]');
+    const sections = primary
+      ? Array.from(primary.querySelectorAll(':scope > li')).map(li => toItem(li, 0)).filter((item): item is Item => item !== null)
+      : [];
+
+    // Tools: header links outside the brand and the primary menu (sign in, search, language)
+    const tools = links
+      .filter(a => a !== brandLink && !primary?.contains(a) && !a.closest('[aria-hidden="true"]'))
+      .map(a => ({ text: linkText(a), href: a.href }))
+      .filter(link => link.text)
+      .slice(0, 6);
+
+    return { brand, sections, tools };
+  });
+}
+
+/**
+ * Read the footer's link columns, social links and legal line
+ */
+export async function extractFooter(page: Page): Promise<FooterContent> {
+  return page.evaluate(() => {
+    const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+    const footers = Array.from(document.querySelectorAll('footer, [role="contentinfo"]'));
+    const footer = footers[footers.length - 1];
+    const empty = { columns: [], social: [], legalLinks: [], legalText: [] };
+    if (!footer) return empty;
+
+    const socialHost = /facebook|twitter|x\.com|instagram|linkedin|youtube|tiktok|pinterest|threads/i;
+    const toLink = (a: Element) => ({
+      text: clean(a.textContent) || a.getAttribute('aria-label') || a.getAttribute('title') || '',
+      href: (a as HTMLAnchorElement).href,
+    });
+
+    const columns: Array<{ heading?: string; links: Array<{ text: string; href: string }> }> = [];
+    const social: Array<{ text: string; href: string }> = [];
+    const used = new Set<Element>();
+
+    footer.querySelectorAll('ul, ol').forEach((list) => {
+      const anchors = Array.from(list.querySelectorAll('a[href]'));
+      if (anchors.length === 0 || list.parentElement?.closest('ul, ol')) return;
+      anchors.forEach(a => used.add(a));
+
+      if (anchors.every(a => socialHost.test((a as HTMLAnchorElement).href))) {
+        social.push(...anchors.map(toLink));
+        return;
+      }
+
+      // Column heading: the closest heading-like element before the list
+      let heading: string | undefined;
+      let sibling = list.previousElementSibling;
+      while (sibling && !heading) {
+        if (!sibling.querySelector('ul, ol')) heading = clean(sibling.textContent) || undefined;
+        sibling = sibling.previousElementSibling;
+      }
+      if (!heading) {
+        const titled = list.parentElement?.querySelector('h2, h3, h4, h5, h6, strong, [class*="title"], [class*="heading"]');
+        heading = titled && !titled.closest('ul, ol') ? clean(titled.textContent) || undefined : undefined;
+      }
+      columns.push({ heading, links: anchors.map(toLink).filter(link => link.text) });
+    });
+
+    const loose = Array.from(footer.querySelectorAll('a[href]')).filter(a => !used.has(a));
+    social.push(...loose.filter(a => socialHost.test((a as HTMLAnchorElement).href)).map(toLink));
+    const legalLinks = loose.filter(a => !socialHost.test((a as HTMLAnchorElement).href)).map(toLink).filter(link => link.text);
+
+    const legalText = Array.from(footer.querySelectorAll('p, small, span, div'))
+      .filter(el => !el.querySelector('p, div, ul') && /©|copyright|all rights reserved/i.test(el.textContent || ''))
+      .map(el => clean(el.textContent))
+      .filter((text, i, all) => text && all.indexOf(text) === i)
+      .slice(0, 3);
+
+    return { columns, social, legalLinks, legalText };
+  });
+}
+
+/**
+ * Read the computed colors and typography of the source header and footer
+ */
+export async function extractChromeStyles(page: Page): Promise<ChromeStyles> {
+  return page.evaluate(() => {
+    const transparent = (color: string) => color === 'transparent' || /rgba\(\s*0,\s*0,\s*0,\s*0\s*\)/.test(color);
+    const painted = (el: Element | null): string | undefined => {
+      for (let current = el; current && current !== document.body; current = current.parentElement) {
+        const color = window.getComputedStyle(current).backgroundColor;
+        if (!transparent(color)) return color;
+      }
+      return undefined;
+    };
+
+    const header = document.querySelector('header, [role="banner"]');
+    const navLink = document.querySelector('[data-eds-nav="primary"] > li a, [data-eds-nav="primary"] > li button');
+    const logo = header?.querySelector('a img');
+    const dropdown = document.querySelector('[data-eds-nav="primary"] > li ul');
+
+    const footers = Array.from(document.querySelectorAll('footer, [role="contentinfo"]'));
+    const footer = footers[footers.length - 1];
+    const footerLink = footer?.querySelector('a[href]');
+
+    const headerStyle = header ? window.getComputedStyle(header) : null;
+    const navLinkStyle = navLink ? window.getComputedStyle(navLink) : null;
+    const footerStyle = footer ? window.getComputedStyle(footer) : null;
+
+    return {
+      header: {
+        backgroundColor: painted(navLink || header),
+        color: headerStyle?.color,
+        linkColor: navLinkStyle?.color,
+        fontSize: navLinkStyle?.fontSize,
+        fontWeight: navLinkStyle?.fontWeight,
+        textTransform: navLinkStyle?.textTransform !== 'none' ? navLinkStyle?.textTransform : undefined,
+        logoHeight: logo ? Math.round(logo.getBoundingClientRect().height) || undefined : undefined,
+        dropdownBackgroundColor: dropdown ? painted(dropdown) : undefined,
+      },
+      footer: {
+        backgroundColor: painted(footerLink || footer),
+        color: footerStyle?.color,
+        linkColor: footerLink ? window.getComputedStyle(footerLink).color : undefined,
+        fontSize: footerStyle?.fontSize,
+      },
+    };
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function linkHtml(link: { text: string; href: string }): string {
+  return `<a href="${escapeHtml(link.href)}">${escapeHtml(link.text)}</a>`;
+}
+
+function navListHtml(items: NavItem[], indent: string): string {
+  const lines = [`${indent}<ul>`];
+  for (const item of items) {
+    const label = item.href ? linkHtml({ text: item.text, href: item.href }) : escapeHtml(item.text);
+    if (item.children.length > 0) {
+      // Dropdown label as a paragraph: the boilerplate header turns li > ul into a nav-drop
+      lines.push(`${indent}  <li>`, `${indent}    <p>${label}</p>`, navListHtml(item.children, `${indent}    `), `${indent}  </li>`);
+    } else {
+      lines.push(`${indent}  <li>${label}</li>`);
+    }
+  }
+  lines.push(`${indent}</ul>`);
+  return lines.join('\n');
+}
+
+function documentHtml(sections: string[]): string {
+  return `<body>
+  <header></header>
+  <main>
+${sections.map(section => `    <div>
+${section.split('\n').map(line => `      ${line}`).join('\n')}
+    </div>`).join('\n')}
+  </main>
+  <footer></footer>
+</body>`;
+}
+
+/**
+ * The /nav document: brand, sections and tools, one section each,
+ * as blocks/header in the boilerplate reads them
+ */
+export function buildNavDocument(nav: NavTree): string {
+  const brand = nav.brand.logo
+    ? `<p><a href="${escapeHtml(nav.brand.href)}"><picture><img src="${escapeHtml(nav.brand.logo.src)}" alt="${escapeHtml(nav.brand.logo.alt || nav.brand.text)}"></picture></a></p>`
+    : `<p>${linkHtml({ text: nav.brand.text, href: nav.brand.href })}</p>`;
+  const sections = nav.sections.length > 0 ? navListHtml(nav.sections, '') : '';
+  const tools = nav.tools.map(tool => `<p>${linkHtml(tool)}</p>`).join('\n');
+
+  return documentHtml([brand, sections, tools]);
+}
+
+/**
+ * The /footer document: link columns as a columns block, then social links and the legal line
+ */
+export function buildFooterDocument(footer: FooterContent): string {
+  const sections: string[] = [];
+
+  if (footer.columns.length > 0) {
+    const cells = footer.columns.map(column => [
+      '    <div>',
+      ...(column.heading ? [`      <p><strong>${escapeHtml(column.heading)}</strong></p>`] : []),
+      '      <ul>',
+      ...column.links.map(link => `        <li>${linkHtml(link)}</li>`),
+      '      </ul>',
+      '    </div>',
+    ].join('\n'));
+    sections.push(`<div class="columns">
+  <div>
+${cells.join('\n')}
+  </div>
+</div>`);
+  }
+
+  const bottom = [
+    ...(footer.social.length > 0 ? [`<p>${footer.social.map(linkHtml).join(' ')}</p>`] : []),
+    ...(footer.legalLinks.length > 0 ? [`<ul>\n${footer.legalLinks.map(link => `  <li>${linkHtml(link)}</li>`).join('\n')}\n</ul>`] : []),
+    ...footer.legalText.map(text => `<p>${escapeHtml(text)}</p>`),
+  ];
+  if (bottom.length > 0) sections.push(bottom.join('\n'));
+
+  return documentHtml(sections);
+}
+
+function cssRule(selector: string, declarations: Record<string, string | undefined>): string | null {
+  const lines = Object.entries(declarations)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([property, value]) => `  ${property}: ${value};`);
+  return lines.length > 0 ? `${selector} {\n${lines.join('\n')}\n}` : null;
+}
+
+/**
+ * Overrides appended to the boilerplate blocks/header/header.css
+ */
+export function buildHeaderCss(styles: ChromeStyles['header'], sourceUrl: string): string {
+  return [
+    `/* Header styles imported from ${sourceUrl} */`,
+    cssRule('header .nav-wrapper', { 'background-color': styles.backgroundColor }),
+    cssRule('header nav', { color: styles.color }),
+    cssRule('header nav .nav-sections a:any-link', { color: styles.linkColor }),
+    cssRule('header nav .nav-sections', {
+      'font-size': styles.fontSize,
+      'font-weight': styles.fontWeight,
+      'text-transform': styles.textTransform,
+    }),
+    cssRule('header nav .nav-brand img', { height: styles.logoHeight ? `${styles.logoHeight}px` : undefined, width: styles.logoHeight ? 'auto' : undefined }),
+    cssRule('header nav .nav-sections .nav-drop > ul', { 'background-color': styles.dropdownBackgroundColor }),
+  ].filter(Boolean).join('\n\n') + '\n';
+}
+
+/**
+ * Overrides appended to the boilerplate blocks/footer/footer.css
+ */
+export function buildFooterCss(styles: ChromeStyles['footer'], sourceUrl: string): string {
+  return [
+    `/* Footer styles imported from ${sourceUrl} */`,
+    cssRule('footer', {
+      'background-color': styles.backgroundColor,
+      color: styles.color,
+      'font-size': styles.fontSize,
+    }),
+    cssRule('footer a:any-link', { color: styles.linkColor }),
+  ].filter(Boolean).join('\n\n') + '\n';
+}
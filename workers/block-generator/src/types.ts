@@ -1,3 +1,5 @@
+import { ComponentDescription } from './enhanced-generator';
+
 // Bounding box for block region
 export interface BoundingBox {
   x: number;
@@ -33,6 +35,69 @@ export interface BlockResponse {
   js: string;
   css: string;
   metadata: BlockMetadata;
+  /** Findings of the block CSS linter (css is already auto-fixed) */
+  cssLint?: CssLintReport;
+  /** Runtime errors seen when rendering the block (js is already fixed when healed) */
+  runtime?: RuntimeReport;
+  /** Set when an existing repo block fits: html is authoring content, css/js are the repo's code */
+  reusedBlock?: ReusedBlockInfo;
+}
+
+/**
+ * Existing repository block chosen instead of generating a new one
+ */
+export interface ReusedBlockInfo {
+  blockName: string;
+  variant?: string;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Runtime problems seen while rendering a block
+ */
+export interface RenderDiagnostics {
+  /** Uncaught exceptions and unhandled rejections (e.g. thrown by decorate) */
+  pageErrors: string[];
+  /** console.error output */
+  consoleErrors: string[];
+  /** Resources (images, fonts, scripts) that failed to load */
+  failedRequests: Array<{ url: string; reason: string }>;
+}
+
+/**
+ * Runtime errors seen when rendering a block, and whether they were fixed automatically
+ */
+export interface RuntimeReport {
+  diagnostics: RenderDiagnostics;
+  initialDiagnostics?: RenderDiagnostics;
+  healed: boolean;
+  attempts: number;
+}
+
+// CSS linter types
+export type CssLintRule =
+  | 'unscoped-selector'
+  | 'global-element-selector'
+  | 'block-container-background'
+  | 'important'
+  | 'fixed-width';
+
+export interface CssLintFinding {
+  rule: CssLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+  selector: string;
+  line: number;
+  /** Whether the auto-fix pass rewrote the CSS for this finding */
+  fixed: boolean;
+}
+
+export interface CssLintReport {
+  findings: CssLintFinding[];
+  fixedCount: number;
+  /** Findings the auto-fix could not resolve */
+  remainingCount: number;
 }
 
 export interface ErrorResponse {
@@ -125,7 +190,19 @@ export type ErrorCode =
   | 'GITHUB_API_ERROR'
   | 'GITHUB_AUTH_FAILED'
   | 'DA_API_ERROR'
-  | 'DA_AUTH_FAILED';
+  | 'DA_AUTH_FAILED'
+  | 'NOT_FOUND'
+  | 'VALIDATION_FAILED'
+  | 'LLM_NOT_CONFIGURED'
+  | 'LLM_RATE_LIMITED'
+  | 'LLM_OVERLOADED'
+  | 'LLM_TIMEOUT'
+  | 'LLM_AUTH_FAILED'
+  | 'LLM_EMPTY_RESPONSE'
+  | 'LLM_ERROR';
+
+// Models selectable for vision calls (llm-service)
+export type LLMModel = 'claude-sonnet' | 'claude-opus' | 'gemini-flash' | 'cerebras-qwen';
 
 // Custom error class
 export class BlockGeneratorError extends Error {
@@ -149,6 +226,15 @@ export interface Env {
   ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK?: string;
   ANTHROPIC_AWS_REGION?: string;
   ANTHROPIC_MODEL?: string;
+  ANTHROPIC_MODEL_OPUS?: string;
+  ANTHROPIC_MODEL_SONNET?: string;
+  // Comma-separated models tried when the primary is rate limited, overloaded or unavailable:
+  // direct API model IDs, and Bedrock model IDs for Bedrock
+  ANTHROPIC_FALLBACK_MODELS?: string;
+  ANTHROPIC_BEDROCK_FALLBACK_MODELS?: string;
+  // Other vision providers (llm-service)
+  GOOGLE_API_KEY?: string;
+  CEREBRAS_API_KEY?: string;
   // Cloudflare Browser Rendering
   BROWSER?: Fetcher;
   // DA Service Account (Adobe IMS OAuth)
@@ -157,6 +243,14 @@ export interface Env {
   DA_SERVICE_TOKEN?: string;
   // GitHub Token for EDS preview flow
   GITHUB_TOKEN?: string;
+  // Durable Object namespace for asynchronous jobs
+  JOBS?: DurableObjectNamespace;
+  // Generation session store: D1 metadata and R2 screenshots
+  SESSIONS_DB?: D1Database;
+  SESSION_ASSETS?: R2Bucket;
+  // Block collector corpus for reference blocks: service binding, or its URL
+  BLOCK_COLLECTOR?: Fetcher;
+  BLOCK_COLLECTOR_URL?: string;
 }
 
 // GitHub Push Request/Response
@@ -181,6 +275,9 @@ export interface GitHubPushResponse {
   branch: string;
 }
 
+// Page output: DA-flavored HTML, EDS Markdown for document-based repos, or Word for SharePoint
+export type OutputFormat = 'html' | 'markdown' | 'docx';
+
 // DA Admin Create Page Request/Response
 export interface DACreatePageRequest {
   org: string;
@@ -188,6 +285,7 @@ export interface DACreatePageRequest {
   path: string;
   html: string;
   token?: string; // Optional - if not provided, uses service account from env
+  format?: OutputFormat; // 'markdown'/'docx' also return the page in that format
 }
 
 export interface DACreatePageResponse {
@@ -195,6 +293,8 @@ export interface DACreatePageResponse {
   pageUrl: string;
   previewUrl: string;
   path: string;
+  markdown?: string;
+  docx?: string; // base64
 }
 
 // =============================================================================
@@ -242,12 +342,29 @@ export interface BlockVariantPushRequest {
   js: string;
   github: GitHubConfig;
   da: DAConfig;
+  /**
+   * The block already exists in the repo: only the DA content is pushed, not the code.
+   * Honored only when main has the same JS and CSS; otherwise the code is validated and pushed.
+   */
+  reusedBlock?: boolean;
+}
+
+/** Static validation of block JS done before it is pushed */
+export interface BlockJsValidationSummary {
+  /** Whether the JS was repaired by the LLM before pushing */
+  repaired: boolean;
+  repairAttempts: number;
+  /** Violations found in the submitted JS (all fixed when pushed) */
+  violations: Array<{ rule: string; message: string; line?: number }>;
 }
 
 /** Response from pushing a block variant */
 export interface BlockVariantPushResponse {
   success: true;
   variant: BlockVariant;
+  validation: BlockJsValidationSummary;
+  /** CSS lint findings; the pushed CSS has the auto-fixes applied */
+  cssLint?: CssLintReport;
 }
 
 /** Request to finalize and merge winning variant */
@@ -260,10 +377,20 @@ export interface BlockFinalizeRequest {
   };
   github: GitHubConfig;
   da?: DAConfig;
-  /** Path to move winning DA page to (optional) */
+  /** Library path for the winning DA page (default /docs/library/blocks/{blockName}) */
   finalDaPath?: string;
   /** Whether to cleanup all temporary branches and pages */
   cleanup?: boolean;
+  /**
+   * The generator's component description (from /block-generate-full), used for the
+   * library sheet's authoring description. Falls back to the session store's copy.
+   */
+  description?: ComponentDescription;
+  /**
+   * Commit Universal Editor component definition/model/filter entries for the block.
+   * Defaults to on when the repo has a component-definition.json (xwalk project).
+   */
+  universalEditor?: boolean;
 }
 
 /** Response from finalizing a block */
@@ -279,6 +406,21 @@ export interface BlockFinalizeResponse {
     daPath: string;
     daUrl: string;
     previewUrl: string;
+    /** Entry in the DA blocks library sheet */
+    sheet?: {
+      path: string;
+      /** False when an existing entry for the block was updated */
+      added: boolean;
+      description: string;
+    };
+  };
+  universalEditor?: {
+    /** Component ids added or updated (the block, and its item for repeating blocks) */
+    components: string[];
+    files: string[];
+    /** Commit on the winner branch, merged into main with the block */
+    commitSha: string;
+    commitUrl: string;
   };
   cleanup?: {
     branchesDeleted: number;
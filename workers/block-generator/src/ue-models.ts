@@ -0,0 +1,234 @@
+import { parseHTML } from 'linkedom';
+import { blocksNamed, blockTitle, childElements, DomElement } from './authoring-dom';
+
+/**
+ * Field kinds inferred from an authoring table cell
+ */
+export type CellKind = 'image' | 'richtext' | 'link' | 'text';
+
+/**
+ * A Universal Editor model field (component-models.json)
+ */
+export interface UEField {
+  component: 'reference' | 'richtext' | 'aem-content' | 'text' | 'multiselect';
+  valueType: 'string';
+  name: string;
+  label: string;
+  multi?: boolean;
+  value?: string;
+  options?: Array<{ name: string; value: string }>;
+}
+
+export interface UEModel {
+  id: string;
+  fields: UEField[];
+}
+
+/**
+ * A component entry of component-definition.json. Blocks and block items render through
+ * the franklin block components; a container block names the filter of its items.
+ */
+export interface UEComponentDefinition {
+  title: string;
+  id: string;
+  plugins: {
+    xwalk: {
+      page: {
+        resourceType: string;
+        template: Record<string, string>;
+      };
+    };
+  };
+}
+
+export interface UEFilter {
+  id: string;
+  components: string[];
+}
+
+export interface UEComponentDefinitionFile {
+  groups: Array<{ title: string; id: string; components: UEComponentDefinition[] }>;
+}
+
+/**
+ * Definitions, models and filters for one block (and its item, for repeating blocks).
+ * This is also the shape of a block's `_{name}.json` in projects that build the
+ * component-*.json files from per-block fragments.
+ */
+export interface UEBlockModels {
+  definitions: UEComponentDefinition[];
+  models: UEModel[];
+  filters: UEFilter[];
+}
+
+const BLOCK_RESOURCE_TYPE = 'core/franklin/components/block/v1/block';
+const ITEM_RESOURCE_TYPE = 'core/franklin/components/block/v1/block/item';
+
+/** Label for the first field of each kind; later ones get a number ("Text 2") */
+const FIELD_LABELS: Record<CellKind, string> = {
+  image: 'Image',
+  richtext: 'Text',
+  link: 'Link',
+  text: 'Title',
+};
+
+/**
+ * What a cell holds: pictures become references, a lone link a link field, multi-paragraph
+ * or formatted content rich text, and a short line of plain text a text field
+ */
+export function inferCellKind(cell: DomElement): CellKind {
+  const text = (cell.textContent || '').replace(/\s+/g, ' ').trim();
+  if (cell.querySelector('picture, img') && !text) return 'image';
+
+  const links = cell.querySelectorAll('a');
+  if (links.length === 1 && text === (links[0].textContent || '').replace(/\s+/g, ' ').trim()) return 'link';
+
+  const structured = cell.querySelectorAll('p, h1, h2, h3, h4, h5, h6, ul, ol, strong, em, a, picture, img').length;
+  if (structured > 1 || cell.querySelector('h1, h2, h3, h4, h5, h6, ul, ol')) return 'richtext';
+  return text.length > 120 ? 'richtext' : 'text';
+}
+
+/**
+ * Model fields for a row of cell kinds, with names unique within the model.
+ * Image alt text and link text ride along as the `Alt`/`Text` suffixed fields
+ * the xwalk field collapsing folds into the same cell.
+ */
+function fieldsFor(kinds: CellKind[]): UEField[] {
+  const counts: Partial<Record<CellKind, number>> = {};
+  const fields: UEField[] = [];
+
+  for (const kind of kinds) {
+    const count = (counts[kind] || 0) + 1;
+    counts[kind] = count;
+    const base = kind === 'richtext' ? 'text' : kind === 'text' ? 'title' : kind;
+    const name = count === 1 ? base : `${base}${count}`;
+    const label = count === 1 ? FIELD_LABELS[kind] : `${FIELD_LABELS[kind]} ${count}`;
+
+    switch (kind) {
+      case 'image':
+        fields.push(
+          { component: 'reference', valueType: 'string', name, label, multi: false },
+          { component: 'text', valueType: 'string', name: `${name}Alt`, label: 'Alt Text', value: '' }
+        );
+        break;
+      case 'link':
+        fields.push(
+          { component: 'aem-content', valueType: 'string', name, label },
+          { component: 'text', valueType: 'string', name: `${name}Text`, label: 'Link Text', value: '' }
+        );
+        break;
+      case 'richtext':
+        fields.push({ component: 'richtext', valueType: 'string', name, label, value: '' });
+        break;
+      default:
+        fields.push({ component: 'text', valueType: 'string', name, label, value: '' });
+    }
+  }
+  return fields;
+}
+
+function definition(title: string, id: string, resourceType: string, template: Record<string, string>): UEComponentDefinition {
+  return { title, id, plugins: { xwalk: { page: { resourceType, template } } } };
+}
+
+/**
+ * Infer Universal Editor definitions, models and filters from a block's authoring HTML
+ * (`<div class="name variant">` of row divs). Blocks whose rows all share one shape
+ * (cards, accordion items...) become a container with an item model; other blocks get
+ * one model with a field per cell.
+ */
+export function inferBlockModels(blockName: string, html: string): UEBlockModels {
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  const block = blocksNamed(document, blockName)[0] || document.querySelector('body > div[class]') as DomElement | null;
+  if (!block) {
+    throw new Error(`No "${blockName}" block found in the authoring HTML`);
+  }
+
+  const [, ...variants]: string[] = (block.getAttribute('class') || '').trim().split(/\s+/);
+  const rows = childElements(block).map(row => childElements(row).map(inferCellKind));
+  const title = blockTitle(blockName);
+
+  const variantField = (): UEField[] => (variants.length > 0
+    ? [{
+      component: 'multiselect',
+      valueType: 'string',
+      name: 'classes',
+      label: 'Style',
+      options: variants.map(variant => ({ name: blockTitle(variant), value: variant })),
+    }]
+    : []);
+
+  const shapes = new Set(rows.map(kinds => kinds.join(',')));
+  const repeating = rows.length > 1 && shapes.size === 1;
+
+  if (repeating) {
+    const itemId = `${blockName}-item`;
+    return {
+      definitions: [
+        definition(title, blockName, BLOCK_RESOURCE_TYPE, {
+          name: title,
+          ...(variants.length > 0 ? { model: blockName } : {}),
+          filter: blockName,
+        }),
+        definition(`${title} Item`, itemId, ITEM_RESOURCE_TYPE, { name: `${title} Item`, model: itemId }),
+      ],
+      models: [
+        ...(variants.length > 0 ? [{ id: blockName, fields: variantField() }] : []),
+        { id: itemId, fields: fieldsFor(rows[0]) },
+      ],
+      filters: [{ id: blockName, components: [itemId] }],
+    };
+  }
+
+  return {
+    definitions: [definition(title, blockName, BLOCK_RESOURCE_TYPE, { name: title, model: blockName })],
+    models: [{ id: blockName, fields: [...variantField(), ...fieldsFor(rows.flat())] }],
+    filters: [],
+  };
+}
+
+function upsertById<T extends { id: string }>(entries: T[], added: T[]): T[] {
+  const ids = new Set(added.map(entry => entry.id));
+  return [...entries.filter(entry => !ids.has(entry.id)), ...added];
+}
+
+/**
+ * Add a block's definitions to component-definition.json, in the "blocks" group.
+ * Entries with the same id are replaced, so finalizing a block again updates it.
+ */
+export function mergeComponentDefinitions(
+  existing: UEComponentDefinitionFile | null,
+  definitions: UEComponentDefinition[]
+): UEComponentDefinitionFile {
+  const groups = existing?.groups ? [...existing.groups] : [];
+  const ids = new Set(definitions.map(entry => entry.id));
+  const cleaned = groups.map(group => ({ ...group, components: group.components.filter(entry => !ids.has(entry.id)) }));
+
+  const blocksGroup = cleaned.find(group => group.id === 'blocks');
+  if (blocksGroup) {
+    blocksGroup.components.push(...definitions);
+  } else {
+    cleaned.push({ title: 'Blocks', id: 'blocks', components: definitions });
+  }
+  return { groups: cleaned };
+}
+
+export function mergeComponentModels(existing: UEModel[] | null, models: UEModel[]): UEModel[] {
+  return upsertById(existing || [], models);
+}
+
+/**
+ * Add a block's own filters and allow the block in sections
+ */
+export function mergeComponentFilters(existing: UEFilter[] | null, filters: UEFilter[], blockName: string): UEFilter[] {
+  const merged = upsertById(existing || [], filters);
+  const section = merged.find(filter => filter.id === 'section');
+  if (section) {
+    if (!section.components.includes(blockName)) {
+      section.components = [...section.components, blockName];
+    }
+  } else {
+    merged.push({ id: 'section', components: ['text', 'image', 'button', 'title', blockName] });
+  }
+  return merged;
+}
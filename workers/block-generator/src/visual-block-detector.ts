@@ -1,5 +1,6 @@
 import { Browser, Page } from '@cloudflare/puppeteer';
 import { AnthropicConfig, NamedBlock } from './design-analyzer';
+import { callClaude, imageBlock, textBlock } from './llm-provider';
 
 /**
  * Bounding box coordinates returned by Claude Vision
@@ -189,101 +190,20 @@ async function detectBlocksWithVision(
     `${dimensions.width} x ${dimensions.height} pixels`
   );
 
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: promptWithDimensions,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: 'image/png',
-                  data: screenshotBase64,
-                },
-              },
-              {
-                type: 'text',
-                text: promptWithDimensions,
-              },
-            ],
-          },
-        ],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
+  const response = await callClaude(
+    config,
+    { content: [imageBlock(screenshotBase64), textBlock(promptWithDimensions)], maxTokens: 4096 },
+    { label: 'visual-block-detector' }
+  );
 
   try {
-    const jsonMatch = textContent.text.match(/\[[\s\S]*\]/);
+    const jsonMatch = response.match(/\[[\s\S]*\]/);
     if (!jsonMatch) {
       throw new Error('No JSON array found in response');
     }
     return JSON.parse(jsonMatch[0]) as VisualBoundingBox[];
   } catch (parseError) {
-    console.error('Failed to parse visual detection response:', textContent.text);
+    console.error('Failed to parse visual detection response:', response);
     throw new Error('Failed to parse Claude response');
   }
 }
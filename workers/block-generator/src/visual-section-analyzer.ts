@@ -1,5 +1,6 @@
 import { Page, ElementHandle } from '@cloudflare/puppeteer';
 import { AnthropicConfig } from './design-analyzer';
+import { callClaude, ClaudeContentBlock, imageBlock, textBlock } from './llm-provider';
 
 /**
  * Section candidate extracted from DOM
@@ -366,16 +367,13 @@ async function classifySections(
   if (candidates.length === 0) return [];
 
   // Build the prompt with all screenshots
-  const imageContents: Array<{ type: 'image'; source: { type: 'base64'; media_type: 'image/png'; data: string } }> = [];
+  const imageContents: ClaudeContentBlock[] = [];
   let textPrompt = `I'm showing you ${candidates.length} screenshots of webpage sections. For each section, classify it.
 
 `;
 
   for (let i = 0; i < candidates.length; i++) {
-    imageContents.push({
-      type: 'image',
-      source: { type: 'base64', media_type: 'image/png', data: candidates[i].screenshot },
-    });
+    imageContents.push(imageBlock(candidates[i].screenshot));
     textPrompt += `Image ${i + 1}: Section at y=${candidates[i].boundingBox.y}px\n`;
   }
 
@@ -397,7 +395,11 @@ Return JSON array with one object per image:
 Return ONLY the JSON array.`;
 
   // Call Claude with all images
-  const response = await callClaudeMultiImage(imageContents, textPrompt, config);
+  const response = await callClaude(
+    config,
+    { content: [...imageContents, textBlock(textPrompt)], maxTokens: 4096 },
+    { label: 'visual-section-analyzer' }
+  );
 
   try {
     const jsonMatch = response.match(/\[[\s\S]*\]/);
@@ -442,71 +444,3 @@ Return ONLY the JSON array.`;
     return [];
   }
 }
-
-/**
- * Call Claude API with multiple images
- */
-async function callClaudeMultiImage(
-  images: Array<{ type: 'image'; source: { type: 'base64'; media_type: 'image/png'; data: string } }>,
-  prompt: string,
-  config: AnthropicConfig,
-  maxTokens: number = 4096
-): Promise<string> {
-  const content: Array<{ type: 'image'; source: { type: 'base64'; media_type: 'image/png'; data: string } } | { type: 'text'; text: string }> = [
-    ...images,
-    { type: 'text', text: prompt },
-  ];
-
-  let response: Response;
-
-  if (config.useBedrock && config.bedrockToken) {
-    const region = config.bedrockRegion || 'us-east-1';
-    const model = config.bedrockModel || 'anthropic.claude-sonnet-4-20250514-v1:0';
-    const bedrockUrl = `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(model)}/invoke`;
-
-    response = await fetch(bedrockUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.bedrockToken}`,
-      },
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else if (config.apiKey) {
-    response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content }],
-      }),
-    });
-  } else {
-    throw new Error('No Anthropic API configuration provided');
-  }
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Claude API error: ${response.status} - ${error}`);
-  }
-
-  const result = await response.json() as {
-    content: Array<{ type: string; text?: string }>;
-  };
-
-  const textContent = result.content.find(c => c.type === 'text');
-  if (!textContent?.text) {
-    throw new Error('No text response from Claude');
-  }
-
-  return textContent.text;
-}
@@ -0,0 +1,265 @@
+import { Browser } from '@cloudflare/puppeteer';
+
+/**
+ * Deterministic visual similarity between the original block and a rendered variant
+ */
+export interface SimilarityScore {
+  /** Mean structural similarity (SSIM) of the luminance channel, 0-1 */
+  ssim: number;
+  /** Share of pixels whose color is perceptually close to the original, 0-1 */
+  pixelMatch: number;
+  /** Combined score 0-100 (70% SSIM, 30% pixel match) */
+  score: number;
+  /** Size of the grid both images were resized to before comparison */
+  comparedAt: { width: number; height: number };
+}
+
+export interface SimilarityOptions {
+  /** Width of the comparison grid (default 160) */
+  width?: number;
+  /** Maximum height of the comparison grid (default 480) */
+  maxHeight?: number;
+}
+
+interface DecodedPair {
+  width: number;
+  height: number;
+  original: number[];
+  rendered: number[];
+}
+
+// SSIM stabilizers for 8-bit luminance (k1 = 0.01, k2 = 0.03)
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+const WINDOW = 8;
+const STEP = 4;
+
+/** Max YIQ color distance (squared, 0-35215) still counted as a match, same default as pixelmatch */
+const PIXEL_THRESHOLD = 35215 * 0.1 * 0.1;
+
+/**
+ * Decode both screenshots in the browser, crop each to its content
+ * (trimming margins that match the corner background color) and resize
+ * both to the same grid using the original's aspect ratio.
+ */
+async function decodeAndAlign(
+  browser: Browser,
+  originalBase64: string,
+  renderedBase64: string,
+  width: number,
+  maxHeight: number
+): Promise<DecodedPair> {
+  const page = await browser.newPage();
+  try {
+    return await page.evaluate(async (originalData: string, renderedData: string, gridWidth: number, gridMaxHeight: number) => {
+      // Decoded image (typed loosely: the worker build has no DOM lib)
+      type LoadedImage = { width: number; height: number };
+
+      const load = (data: string) => new Promise<LoadedImage>((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image'));
+        img.src = 'data:image/png;base64,' + data;
+      });
+
+      // Bounding box of pixels that differ from the top-left background color
+      const contentBox = (img: LoadedImage) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = img.width;
+        canvas.height = img.height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(img, 0, 0);
+        const { data } = ctx.getImageData(0, 0, img.width, img.height);
+        const [br, bg, bb] = [data[0], data[1], data[2]];
+
+        let minX = img.width, minY = img.height, maxX = -1, maxY = -1;
+        for (let y = 0; y < img.height; y++) {
+          for (let x = 0; x < img.width; x++) {
+            const i = (y * img.width + x) * 4;
+            if (Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb) > 24) {
+              if (x < minX) minX = x;
+              if (x > maxX) maxX = x;
+              if (y < minY) minY = y;
+              if (y > maxY) maxY = y;
+            }
+          }
+        }
+
+        // Uniform image: compare it whole
+        if (maxX < 0) return { x: 0, y: 0, width: img.width, height: img.height };
+        return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+      };
+
+      const [original, rendered] = await Promise.all([load(originalData), load(renderedData)]);
+      const originalBox = contentBox(original);
+      const renderedBox = contentBox(rendered);
+
+      const height = Math.max(1, Math.min(gridMaxHeight, Math.round(gridWidth * originalBox.height / originalBox.width)));
+
+      const resample = (img: LoadedImage, box: { x: number; y: number; width: number; height: number }) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = gridWidth;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(img, box.x, box.y, box.width, box.height, 0, 0, gridWidth, height);
+        return Array.from(ctx.getImageData(0, 0, gridWidth, height).data) as number[];
+      };
+
+      return {
+        width: gridWidth,
+        height,
+        original: resample(original, originalBox),
+        rendered: resample(rendered, renderedBox),
+      };
+    }, originalBase64, renderedBase64, width, maxHeight);
+  } finally {
+    await page.close();
+  }
+}
+
+function toLuminance(rgba: number[]): Float64Array {
+  const lum = new Float64Array(rgba.length / 4);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return lum;
+}
+
+/**
+ * Mean SSIM over sliding 8x8 windows (step 4)
+ */
+export function computeSSIM(a: Float64Array, b: Float64Array, width: number, height: number): number {
+  const windowWidth = Math.min(WINDOW, width);
+  const windowHeight = Math.min(WINDOW, height);
+  const n = windowWidth * windowHeight;
+
+  let total = 0;
+  let windows = 0;
+  for (let y = 0; y + windowHeight <= height; y += STEP) {
+    for (let x = 0; x + windowWidth <= width; x += STEP) {
+      let sumA = 0, sumB = 0;
+      for (let wy = 0; wy < windowHeight; wy++) {
+        for (let wx = 0; wx < windowWidth; wx++) {
+          const i = (y + wy) * width + x + wx;
+          sumA += a[i];
+          sumB += b[i];
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+
+      let varA = 0, varB = 0, cov = 0;
+      for (let wy = 0; wy < windowHeight; wy++) {
+        for (let wx = 0; wx < windowWidth; wx++) {
+          const i = (y + wy) * width + x + wx;
+          const da = a[i] - meanA;
+          const db = b[i] - meanB;
+          varA += da * da;
+          varB += db * db;
+          cov += da * db;
+        }
+      }
+      varA /= n - 1 || 1;
+      varB /= n - 1 || 1;
+      cov /= n - 1 || 1;
+
+      total += ((2 * meanA * meanB + C1) * (2 * cov + C2))
+        / ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 0;
+}
+
+/**
+ * Share of pixels within the YIQ color-distance threshold
+ */
+export function computePixelMatch(a: number[], b: number[]): number {
+  const pixels = a.length / 4;
+  let matching = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const dr = a[i] - b[i];
+    const dg = a[i + 1] - b[i + 1];
+    const db = a[i + 2] - b[i + 2];
+    const y = dr * 0.29889531 + dg * 0.58662247 + db * 0.11448223;
+    const iq = dr * 0.59597799 - dg * 0.27417610 - db * 0.32180189;
+    const q = dr * 0.21147017 - dg * 0.52261711 + db * 0.31114694;
+    if (0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q <= PIXEL_THRESHOLD) {
+      matching++;
+    }
+  }
+  return pixels > 0 ? matching / pixels : 0;
+}
+
+/**
+ * Compare an original block screenshot with a rendered variant (both base64 PNG or JPEG).
+ * Both images are cropped to their content and resized to a common grid first,
+ * so differences in viewport size or surrounding whitespace do not affect the score.
+ */
+export async function computeVisualSimilarity(
+  browser: Browser,
+  originalBase64: string,
+  renderedBase64: string,
+  options: SimilarityOptions = {}
+): Promise<SimilarityScore> {
+  const pair = await decodeAndAlign(
+    browser,
+    originalBase64,
+    renderedBase64,
+    options.width || 160,
+    options.maxHeight || 480
+  );
+
+  const ssim = Math.max(0, computeSSIM(toLuminance(pair.original), toLuminance(pair.rendered), pair.width, pair.height));
+  const pixelMatch = computePixelMatch(pair.original, pair.rendered);
+
+  return {
+    ssim: Math.round(ssim * 1000) / 1000,
+    pixelMatch: Math.round(pixelMatch * 1000) / 1000,
+    score: Math.round((0.7 * ssim + 0.3 * pixelMatch) * 100),
+    comparedAt: { width: pair.width, height: pair.height },
+  };
+}
+
+/**
+ * Best-effort variant of computeVisualSimilarity: logs and returns undefined on failure,
+ * so scoring never breaks generation
+ */
+export async function tryComputeVisualSimilarity(
+  browser: Browser,
+  originalBase64: string,
+  renderedBase64: string | undefined,
+  options?: SimilarityOptions
+): Promise<SimilarityScore | undefined> {
+  if (!renderedBase64) return undefined;
+  try {
+    return await computeVisualSimilarity(browser, originalBase64, renderedBase64, options);
+  } catch (error) {
+    console.warn('Visual similarity scoring failed:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Pick the winner among options the LLM scored equally, by highest visual similarity.
+ * Returns the 0-based index into `candidates` of the chosen option.
+ */
+export function breakTieBySimilarity(
+  candidates: Array<{ llmScore: number; similarity?: SimilarityScore }>,
+  llmWinnerIndex: number
+): number {
+  const topScore = candidates[llmWinnerIndex]?.llmScore;
+  if (topScore === undefined) return llmWinnerIndex;
+
+  let best = llmWinnerIndex;
+  candidates.forEach((candidate, index) => {
+    if (candidate.llmScore !== topScore) return;
+    const bestSimilarity = candidates[best].similarity?.score ?? -1;
+    if ((candidate.similarity?.score ?? -1) > bestSimilarity) {
+      best = index;
+    }
+  });
+  return best;
+}
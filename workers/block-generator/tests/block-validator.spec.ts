@@ -0,0 +1,81 @@
+/**
+ * Input -> output tests for the generated block JS rules (src/block-validator.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { validateBlockJs, validateAndRepairBlockJs } from '../src/block-validator';
+
+function rulesOf(js: string) {
+  return validateBlockJs(js).violations.map(violation => [violation.rule, violation.line]);
+}
+
+test.describe('validateBlockJs', () => {
+  test('accepts a decorate block importing from aem.js', () => {
+    const js = "import { createOptimizedPicture } from '../../scripts/aem.js';\n\n"
+      + 'export default async function decorate(block) {\n  block.querySelectorAll(\'img\').forEach((img) => img.replaceWith(createOptimizedPicture(img.src)));\n}\n';
+
+    expect(validateBlockJs(js)).toEqual({ valid: true, violations: [] });
+  });
+
+  test('reports JS that does not parse', () => {
+    const { valid, violations } = validateBlockJs('export default function decorate(block) {\n  block.append(;\n}\n');
+
+    expect(valid).toBe(false);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ rule: 'syntax-error', line: 2 });
+  });
+
+  test('requires export default function decorate(block)', () => {
+    expect(rulesOf('function decorate(block) {}\n')).toEqual([['missing-decorate', undefined]]);
+    expect(rulesOf('export default (block) => {};\n')).toEqual([['missing-decorate', 1]]);
+    expect(rulesOf('export default function init(block) {}\n')).toEqual([['decorate-signature', 1]]);
+    expect(rulesOf('export default function decorate(block, options) {}\n')).toEqual([['decorate-signature', 1]]);
+    expect(rulesOf('export default function decorate({ children }) {}\n')).toEqual([['decorate-signature', 1]]);
+  });
+
+  test('forbids eval, Function and document.write', () => {
+    const js = 'export default function decorate(block) {\n'
+      + '  eval(block.dataset.code);\n'
+      + '  window.eval("1");\n'
+      + '  const f = new Function("return 1");\n'
+      + '  document.write(block.innerHTML);\n'
+      + '  document.writeln("");\n'
+      + '}\n';
+
+    expect(rulesOf(js)).toEqual([
+      ['forbidden-eval', 2],
+      ['forbidden-eval', 3],
+      ['forbidden-eval', 4],
+      ['forbidden-document-write', 5],
+      ['forbidden-document-write', 6],
+    ]);
+  });
+
+  test('allows imports only from ../../scripts/aem.js', () => {
+    const js = "import { loadCSS } from '../../scripts/aem.js';\n"
+      + "import { debounce } from '../../scripts/utils.js';\n"
+      + "export { helper } from './helper.js';\n"
+      + "export * from 'https://cdn.example.com/lib.js';\n"
+      + 'export default async function decorate(block) {\n'
+      + "  await import('./lazy.js');\n"
+      + '}\n';
+
+    expect(rulesOf(js)).toEqual([
+      ['forbidden-import', 2],
+      ['forbidden-import', 3],
+      ['forbidden-import', 4],
+      ['forbidden-import', 6],
+    ]);
+  });
+});
+
+test.describe('validateAndRepairBlockJs', () => {
+  test('returns the input untouched without an Anthropic config', async () => {
+    const js = 'export default function decorate(block) { eval(block.textContent); }\n';
+    const report = await validateAndRepairBlockJs(js, { blockName: 'cards' });
+
+    expect(report).toMatchObject({ js, valid: false, repaired: false, repairAttempts: 0 });
+    expect(report.initialViolations.map(violation => violation.rule)).toEqual(['forbidden-eval']);
+    expect(report.violations).toEqual(report.initialViolations);
+  });
+});
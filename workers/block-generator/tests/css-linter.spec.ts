@@ -0,0 +1,73 @@
+/**
+ * Input -> output tests for the generated block CSS linter (src/css-linter.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { lintBlockCss } from '../src/css-linter';
+
+test.describe('lintBlockCss', () => {
+  test('leaves block-scoped CSS alone', () => {
+    const css = '.cards-wrapper { padding: 0; }\n.cards > div { display: grid; }\n.cards .card-title { font-size: 1.5rem; }';
+    const { css: output, report } = lintBlockCss(css, 'cards');
+
+    expect(output).toBe(css);
+    expect(report.findings).toEqual([]);
+  });
+
+  test('prefixes element and class selectors with the block class', () => {
+    const { css, report } = lintBlockCss('h2 { color: red; }\n.cards li, .title { margin: 0; }', 'cards');
+
+    expect(css).toBe('.cards h2 { color: red; }\n.cards li, .cards .title { margin: 0; }');
+    expect(report.findings.map(finding => [finding.rule, finding.selector, finding.line])).toEqual([
+      ['global-element-selector', 'h2', 1],
+      ['unscoped-selector', '.title', 2],
+    ]);
+    expect(report.fixedCount).toBe(2);
+    expect(report.remainingCount).toBe(0);
+  });
+
+  test('scopes rules inside @media', () => {
+    const { css } = lintBlockCss('@media (width >= 900px) { .item { display: flex; } }', 'cards');
+
+    expect(css).toBe('@media (width >= 900px) { .cards .item { display: flex; } }');
+  });
+
+  test('reports page-wide selectors without rewriting them', () => {
+    const { css, report } = lintBlockCss('body { margin: 0; }', 'cards');
+
+    expect(css).toBe('body { margin: 0; }');
+    expect(report.findings[0].rule).toBe('global-element-selector');
+    expect(report.findings[0].fixed).toBe(false);
+    expect(report.remainingCount).toBe(1);
+  });
+
+  test('removes backgrounds from the block container only', () => {
+    const { css, report } = lintBlockCss('.cards { background: #fff; padding: 1rem; }\n.cards .card { background: #eee; }', 'cards');
+
+    expect(css).not.toContain('#fff');
+    expect(css).toContain('padding: 1rem;');
+    expect(css).toContain('.cards .card { background: #eee; }');
+    expect(report.findings.map(finding => finding.rule)).toEqual(['block-container-background']);
+  });
+
+  test('drops !important', () => {
+    const { css, report } = lintBlockCss('.cards .title { color: red !important; }', 'cards');
+
+    expect(css).toBe('.cards .title { color: red; }');
+    expect(report.findings[0]).toMatchObject({ rule: 'important', severity: 'warning', fixed: true });
+  });
+
+  test('turns wide fixed widths into max-width', () => {
+    const { css } = lintBlockCss('.cards .grid { width: 1200px; }\n.cards .icon { width: 48px; }', 'cards');
+
+    expect(css).toBe('.cards .grid { width: 100%; max-width: 1200px; }\n.cards .icon { width: 48px; }');
+  });
+
+  test('only reports with fix: false', () => {
+    const { css, report } = lintBlockCss('h2 { color: red !important; }', 'cards', { fix: false });
+
+    expect(css).toBe('h2 { color: red !important; }');
+    expect(report.findings.map(finding => finding.rule)).toEqual(['global-element-selector', 'important']);
+    expect(report.fixedCount).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Input -> output tests for the DA block library helpers (src/da-library.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { cleanLibraryExample, describeForAuthors, upsertLibraryBlock } from '../src/da-library';
+
+test.describe('cleanLibraryExample', () => {
+  test('keeps only the block, without source-site attributes', () => {
+    const html = '<body><main><div><h1>Page</h1>'
+      + '<div class="cards dark block" id="x" data-block-status="loaded"><div><div><p style="color:red">A</p></div></div></div>'
+      + '</div></main></body>';
+
+    const example = cleanLibraryExample(html, 'cards');
+
+    expect(example).toContain('<div class="cards dark"><div><div><p>A</p></div></div></div>');
+    expect(example).not.toContain('<h1>');
+  });
+
+  test('finds blocks whose name is not a valid CSS identifier', () => {
+    const example = cleanLibraryExample('<main><div><div class="2-up"><div><div>A</div></div></div></div></main>', '2-up');
+
+    expect(example).toContain('<div class="2-up"><div><div>A</div></div></div>');
+  });
+
+  test('throws when the page has no such block', () => {
+    expect(() => cleanLibraryExample('<main><div><p>Text</p></div></main>', 'cards')).toThrow('No "cards" block');
+  });
+});
+
+test.describe('describeForAuthors', () => {
+  test('falls back to the block title without a description', () => {
+    expect(describeForAuthors('feature-grid')).toBe('Feature Grid block.');
+  });
+});
+
+test.describe('upsertLibraryBlock', () => {
+  test('replaces an existing row in place', () => {
+    const rows = [
+      { name: 'Hero', path: '/hero', description: 'old' },
+      { name: 'Cards', path: '/cards', description: 'cards' },
+    ];
+
+    expect(upsertLibraryBlock(rows, { name: 'hero', path: '/hero-2', description: 'new' })).toEqual([
+      { name: 'hero', path: '/hero-2', description: 'new' },
+      { name: 'Cards', path: '/cards', description: 'cards' },
+    ]);
+    expect(upsertLibraryBlock(rows, { name: 'Tabs', path: '/tabs', description: 'tabs' })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Input -> output tests for turning plain sections into EDS default content (src/default-content.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { toDefaultContent } from '../src/default-content';
+
+const STACKED = { stacked: true, hasBackgroundImage: false };
+
+test.describe('toDefaultContent', () => {
+  test('keeps headings, paragraphs, lists and emphasis and drops wrappers', () => {
+    const html = '<div class="container"><div class="inner">'
+      + '<h2 class="title">About <span>us</span></h2>'
+      + '<p>We <b>build</b> <i>sites</i>.<script>track()</script></p>'
+      + '<ul><li><a href="/one">One</a></li><li>Two</li></ul>'
+      + '<div class="text">Loose text</div>'
+      + '</div></div>';
+
+    expect(toDefaultContent(html, STACKED)).toBe([
+      '<h2>About us</h2>',
+      '<p>We <strong>build</strong> <em>sites</em>.</p>',
+      '<ul><li><a href="/one">One</a></li><li>Two</li></ul>',
+      '<p>Loose text</p>',
+    ].join('\n'));
+  });
+
+  test('writes lone links as buttons, strong for primary and em for secondary', () => {
+    const html = '<h1>Hello</h1>'
+      + '<p><a href="/docs">Read the docs</a></p>'
+      + '<a class="btn btn-primary" href="/start">Start</a>'
+      + '<div><a class="btn-outline" href="/more"><span>Learn more</span></a></div>';
+
+    expect(toDefaultContent(html, STACKED)).toBe([
+      '<h1>Hello</h1>',
+      '<p><a href="/docs">Read the docs</a></p>',
+      '<p><strong><a href="/start">Start</a></strong></p>',
+      '<p><em><a href="/more">Learn more</a></em></p>',
+    ].join('\n'));
+  });
+
+  test('keeps one image as a picture paragraph', () => {
+    const html = '<h2>Team</h2><figure><picture><source srcset="/a.webp"><img src="/a.jpg" alt="The &quot;team&quot;"></picture></figure>';
+
+    expect(toDefaultContent(html, STACKED)).toBe(
+      '<h2>Team</h2>\n<p><picture><img src="/a.jpg" alt="The &quot;team&quot;"></picture></p>'
+    );
+  });
+
+  test('leaves sections that need a block', () => {
+    const text = '<h2>Title</h2><p>Text</p>';
+
+    expect(toDefaultContent(text, { stacked: false, hasBackgroundImage: false })).toBeNull();
+    expect(toDefaultContent(text, { stacked: true, hasBackgroundImage: true })).toBeNull();
+    expect(toDefaultContent(`${text}<form><input name="q"></form>`, STACKED)).toBeNull();
+    expect(toDefaultContent(`${text}<iframe src="https://video.example.com"></iframe>`, STACKED)).toBeNull();
+    expect(toDefaultContent(`${text}<img src="/a.jpg"><img src="/b.jpg">`, STACKED)).toBeNull();
+  });
+
+  test('leaves image-only sections', () => {
+    expect(toDefaultContent('<img src="/hero.jpg" alt="">', STACKED)).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Input -> output tests for overlap voting across section detectors (src/detector-ensemble.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { mergeDetections } from '../src/detector-ensemble';
+import { DetectedSection, DetectorName, SectionDetectionResult } from '../src/section-detector';
+
+function section(name: string, y: number, confidence: number): DetectedSection {
+  return {
+    name,
+    description: `${name} section`,
+    type: 'content',
+    priority: 'medium',
+    boundingBox: { x: 0, y, width: 1440, height: 400 },
+    confidence,
+  };
+}
+
+function result(detector: DetectorName, sections: DetectedSection[]): SectionDetectionResult {
+  return { detector, url: 'https://example.com/', title: 'Example', sections, durationMs: 0 };
+}
+
+test.describe('mergeDetections', () => {
+  test('keeps only sections two detectors agree on by default', () => {
+    const merged = mergeDetections([
+      result('hybrid', [section('Hero', 0, 0.9), section('Cards', 500, 0.8)]),
+      result('visual', [section('Banner', 10, 0.7), section('Footer', 2000, 0.9)]),
+    ]);
+
+    expect(merged.map(entry => [entry.name, entry.detectors, entry.votes])).toEqual([
+      ['Hero', ['hybrid', 'visual'], 2],
+    ]);
+    // Confidence-weighted: (0 * 0.9 + 10 * 0.7) / 1.6
+    expect(merged[0].boundingBox.y).toBe(4);
+  });
+
+  test('scales the members\' mean confidence by the share of detectors that voted', () => {
+    const merged = mergeDetections([
+      result('hybrid', [section('Hero', 0, 0.8)]),
+      result('visual', [section('Hero', 0, 0.6)]),
+      result('smart', [section('Hero', 0, 1), section('Cards', 500, 1)]),
+      result('bbox', [section('Cards', 500, 0.8)]),
+    ]);
+
+    expect(merged.map(entry => [entry.name, entry.votes, Number(entry.confidence.toFixed(3))])).toEqual([
+      ['Hero', 3, 0.6],
+      ['Cards', 2, 0.45],
+    ]);
+  });
+
+  test('keeps every section of a single detector and honors an explicit minVotes', () => {
+    expect(mergeDetections([result('hybrid', [section('Hero', 0, 0.9)])])).toHaveLength(1);
+    expect(mergeDetections([
+      result('hybrid', [section('Hero', 0, 0.9)]),
+      result('visual', []),
+    ], { minVotes: 1 }).map(entry => [entry.name, entry.confidence])).toEqual([['Hero', 0.45]]);
+  });
+});
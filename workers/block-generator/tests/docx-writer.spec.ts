@@ -0,0 +1,112 @@
+/**
+ * Input -> output tests for the Word document writer (src/docx-writer.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { inflateRawSync } from 'zlib';
+import { writeDocx } from '../src/docx-writer';
+
+/**
+ * Files of the ZIP archive by name, read from the local file headers
+ */
+function unzip(archive: ArrayBuffer): Map<string, string> {
+  const bytes = Buffer.from(archive);
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (bytes.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = bytes.readUInt32LE(offset + 18);
+    const nameLength = bytes.readUInt16LE(offset + 26);
+    const name = bytes.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(bytes.subarray(start, start + compressedSize)).toString('utf8'));
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+/**
+ * Paragraph and table-cell texts of document.xml, tables marked with [ ]
+ */
+function outline(documentXml: string): string[] {
+  const body = documentXml.replace(/^[\s\S]*<w:body>|<w:sectPr>[\s\S]*$/g, '');
+  const out: string[] = [];
+  for (const match of body.matchAll(/<w:tbl>([\s\S]*?)<\/w:tbl>|<w:p>([\s\S]*?)<\/w:p>/g)) {
+    if (match[1] !== undefined) {
+      const rows = Array.from(match[1].matchAll(/<w:tr>([\s\S]*?)<\/w:tr>/g)).map(row => Array.from(row[1].matchAll(/<w:tc>([\s\S]*?)<\/w:tc>/g))
+        .map(cell => Array.from(cell[1].matchAll(/<w:t[^>]*>([^<]*)<\/w:t>/g)).map(text => text[1]).join('').trim()).join(' | '));
+      out.push(...rows.map(row => `[${row}]`));
+    } else {
+      out.push(Array.from(match[2].matchAll(/<w:t[^>]*>([^<]*)<\/w:t>/g)).map(text => text[1]).join(''));
+    }
+  }
+  return out;
+}
+
+test.describe('writeDocx', () => {
+  test('writes the package parts', async () => {
+    const files = unzip(await writeDocx('<body><main><div><p>Hello</p></div></main></body>'));
+
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/document.xml',
+      'word/styles.xml',
+      'word/numbering.xml',
+      'word/_rels/document.xml.rels',
+    ]);
+  });
+
+  test('separates sections with --- paragraphs and styles headings', async () => {
+    const html = '<body><header></header><main>'
+      + '<div><h1>Welcome</h1><p>Intro <strong>bold</strong> and <em>italic</em></p></div>'
+      + '<div></div>'
+      + '<div><h2>Second</h2></div>'
+      + '</main></body>';
+    const documentXml = unzip(await writeDocx(html)).get('word/document.xml')!;
+
+    expect(outline(documentXml)).toEqual(['Welcome', 'Intro bold and italic', '---', 'Second']);
+    expect(documentXml).toContain('<w:pPr><w:pStyle w:val="Heading1"/></w:pPr>');
+    expect(documentXml).toContain('<w:rPr><w:b/></w:rPr><w:t xml:space="preserve">bold</w:t>');
+    expect(documentXml).toContain('<w:rPr><w:i/></w:rPr><w:t xml:space="preserve">italic</w:t>');
+  });
+
+  test('writes blocks as tables under a block name header row', async () => {
+    const html = '<main><div>'
+      + '<div class="columns dark"><div><div><p>Left</p></div><div><p>Right</p></div></div><div><div>Wide</div></div></div>'
+      + '</div></main>';
+    const documentXml = unzip(await writeDocx(html)).get('word/document.xml')!;
+
+    expect(outline(documentXml)).toEqual(['[Columns (dark)]', '[Left | Right]', '[Wide]', '']);
+    expect(documentXml).toContain('<w:gridCol w:w="4680"/><w:gridCol w:w="4680"/>');
+    // The single-cell row spans both columns
+    expect(documentXml).toContain('<w:tcW w:w="9360" w:type="dxa"/><w:gridSpan w:val="2"/></w:tcPr><w:p><w:r><w:t xml:space="preserve">Wide</w:t>');
+  });
+
+  test('writes metadata as a block table with links as hyperlinks', async () => {
+    const html = '<main><div><p>Text</p>'
+      + '<div class="metadata"><div><div>Title</div><div>My page</div></div><div><div>Canonical</div><div><a href="https://example.com/page">https://example.com/page</a></div></div></div>'
+      + '</div></main>';
+    const files = unzip(await writeDocx(html));
+
+    expect(outline(files.get('word/document.xml')!)).toEqual([
+      'Text',
+      '[Metadata]',
+      '[Title | My page]',
+      '[Canonical | https://example.com/page]',
+      '',
+    ]);
+    expect(files.get('word/document.xml')).toContain('<w:hyperlink r:id="rId3">');
+    expect(files.get('word/_rels/document.xml.rels')).toContain(
+      '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com/page" TargetMode="External"/>'
+    );
+  });
+
+  test('numbers each list separately', async () => {
+    const html = '<main><div><ul><li>One<ul><li>Nested</li></ul></li></ul><ol><li>First</li></ol></div></main>';
+    const files = unzip(await writeDocx(html));
+
+    expect(outline(files.get('word/document.xml')!)).toEqual(['One', 'Nested', 'First']);
+    expect(files.get('word/document.xml')).toContain('<w:ilvl w:val="1"/><w:numId w:val="1"/>');
+    expect(files.get('word/numbering.xml')).toContain('<w:num w:numId="2"><w:abstractNumId w:val="1"/>');
+  });
+});
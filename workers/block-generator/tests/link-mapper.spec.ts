@@ -0,0 +1,132 @@
+/**
+ * Input -> output tests for source-site link mapping and redirects (src/link-mapper.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  buildRedirects,
+  documentPathFor,
+  mergeRedirects,
+  publicPathFor,
+  readSheetRows,
+  rewriteInternalLinks,
+  toRedirectsCsv,
+  withSheetRows,
+} from '../src/link-mapper';
+
+test.describe('documentPathFor / publicPathFor', () => {
+  test('derives EDS paths like the importer', () => {
+    expect(documentPathFor('https://example.com/How-To-Join.html')).toBe('/how-to-join');
+    expect(documentPathFor('https://example.com/about/')).toBe('/about/index');
+    expect(documentPathFor('https://example.com/News%20&%20Events/2024_recap.htm')).toBe('/news-events/2024-recap');
+    expect(publicPathFor('/about/index')).toBe('/about/');
+    expect(publicPathFor('/how-to-join')).toBe('/how-to-join');
+  });
+});
+
+test.describe('rewriteInternalLinks', () => {
+  const pageUrl = 'https://www.example.com/products/';
+
+  test('points internal links at their EDS paths', () => {
+    const { html, mappings } = rewriteInternalLinks(
+      '<a href="/How-To-Join.html">Join</a> <a class="cta" href=\'https://example.com/About/\'>About</a>',
+      { pageUrl }
+    );
+
+    expect(html).toBe('<a href="/how-to-join">Join</a> <a class="cta" href=\'/about/\'>About</a>');
+    expect(mappings).toEqual([
+      { source: 'https://www.example.com/How-To-Join.html', target: '/how-to-join' },
+      { source: 'https://example.com/About/', target: '/about/' },
+    ]);
+  });
+
+  test('keeps query strings and fragments', () => {
+    const { html, mappings } = rewriteInternalLinks('<a href="/Shop.html?cat=2&amp;page=3#top">Shop</a>', { pageUrl });
+
+    expect(html).toBe('<a href="/shop?cat=2&page=3#top">Shop</a>');
+    expect(mappings).toEqual([{ source: 'https://www.example.com/Shop.html?cat=2&page=3', target: '/shop' }]);
+  });
+
+  test('leaves external, anchor, mailto and file links alone', () => {
+    const input = [
+      '<a href="https://other.com/page">x</a>',
+      '<a href="#section">x</a>',
+      '<a href="mailto:hi@example.com">x</a>',
+      '<a href="/files/Brochure.pdf">x</a>',
+    ].join('');
+    const { html, mappings } = rewriteInternalLinks(input, { pageUrl });
+
+    expect(html).toBe(input);
+    expect(mappings).toEqual([]);
+  });
+
+  test('treats extra hosts as internal', () => {
+    const { html } = rewriteInternalLinks('<a href="https://shop.example.com/Cart.html">Cart</a>', { pageUrl, hosts: ['shop.example.com'] });
+
+    expect(html).toBe('<a href="/cart">Cart</a>');
+  });
+
+  test('puts paths under the base path of a site in a sub-folder', () => {
+    const { html, mappings } = rewriteInternalLinks('<a href="/About/">About</a>', { pageUrl, basePath: '/en/' });
+
+    expect(html).toBe('<a href="/en/about/">About</a>');
+    expect(mappings).toEqual([{ source: 'https://www.example.com/About/', target: '/en/about/' }]);
+    expect(buildRedirects(mappings)).toEqual([{ Source: '/About/', Destination: '/en/about/' }]);
+  });
+});
+
+test.describe('redirects', () => {
+  test('only paths that change become redirects, once each', () => {
+    const rows = buildRedirects([
+      { source: 'https://example.com/How-To-Join.html', target: '/how-to-join' },
+      { source: 'https://example.com/How-To-Join.html?ref=nav', target: '/how-to-join' },
+      { source: 'https://example.com/contact', target: '/contact' },
+    ]);
+
+    expect(rows).toEqual([{ Source: '/How-To-Join.html', Destination: '/how-to-join' }]);
+  });
+
+  test('existing rows win when merging', () => {
+    const existing = [{ Source: '/old', Destination: '/hand-made' }];
+    const merged = mergeRedirects(existing, [
+      { Source: '/old', Destination: '/generated' },
+      { Source: '/other', Destination: '/new' },
+    ]);
+
+    expect(merged).toEqual([
+      { Source: '/old', Destination: '/hand-made' },
+      { Source: '/other', Destination: '/new' },
+    ]);
+  });
+
+  test('writes CSV with quoted cells where needed', () => {
+    expect(toRedirectsCsv([{ Source: '/a,b', Destination: '/c' }])).toBe('Source,Destination\n"/a,b",/c\n');
+  });
+});
+
+test.describe('DA sheet JSON', () => {
+  test('reads single sheets and the first sheet of a multi-sheet', () => {
+    expect(readSheetRows({ ':type': 'sheet', data: [{ a: 1 }] })).toEqual([{ a: 1 }]);
+    expect(readSheetRows({ ':type': 'multi-sheet', ':names': ['first', 'second'], first: { data: [{ a: 1 }] }, second: { data: [{ b: 2 }] } })).toEqual([{ a: 1 }]);
+    expect(readSheetRows({})).toEqual([]);
+  });
+
+  test('replaces the rows and keeps the other sheets of a multi-sheet', () => {
+    const sheet = {
+      ':type': 'multi-sheet',
+      ':names': ['data', 'notes'],
+      ':version': 3,
+      data: { total: 1, limit: 1, offset: 0, data: [{ a: 1 }], ':colWidths': [100] },
+      notes: { total: 1, limit: 1, offset: 0, data: [{ note: 'keep' }] },
+    };
+
+    expect(withSheetRows(sheet, [{ a: 1 }, { a: 2 }])).toEqual({
+      ...sheet,
+      data: { total: 2, limit: 2, offset: 0, data: [{ a: 1 }, { a: 2 }], ':colWidths': [100] },
+    });
+  });
+
+  test('writes a single sheet otherwise', () => {
+    expect(withSheetRows({}, [{ a: 1 }])).toEqual({ ':type': 'sheet', total: 1, limit: 1, offset: 0, data: [{ a: 1 }] });
+  });
+});
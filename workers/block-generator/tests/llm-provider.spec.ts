@@ -0,0 +1,168 @@
+/**
+ * Tests for the shared LLM call layer (src/llm-provider.ts, src/llm-service.ts):
+ * retries, timeouts and the model fallback chain, against a stubbed fetch
+ */
+
+import { test, expect } from '@playwright/test';
+import { callClaude, LLMError, postLLM, timeoutForTokens } from '../src/llm-provider';
+import { callLLMWithVision } from '../src/llm-service';
+import type { Env } from '../src/types';
+
+interface StubCall {
+  url: string;
+  body: { model?: string; max_tokens?: number };
+}
+
+const realFetch = globalThis.fetch;
+let calls: StubCall[] = [];
+
+/**
+ * Replace fetch with one answering each call from `respond`; retry-after 0 keeps
+ * the backoff out of the tests
+ */
+function stubFetch(respond: (call: StubCall, signal?: AbortSignal | null) => Response | Promise<Response>) {
+  calls = [];
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    const call = { url: String(url), body: JSON.parse(String(init?.body || '{}')) };
+    calls.push(call);
+    return respond(call, init?.signal);
+  }) as typeof fetch;
+}
+
+function status(code: number): Response {
+  return new Response('error', { status: code, headers: { 'retry-after': '0' } });
+}
+
+function claudeReply(text: string): Response {
+  return Response.json({ content: [{ type: 'text', text }], usage: { input_tokens: 10, output_tokens: 5 } });
+}
+
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+test.describe('postLLM', () => {
+  test('retries 429 and 529 until the call succeeds', async () => {
+    const responses = [status(429), status(529)];
+    stubFetch(() => responses.shift() || Response.json({ ok: true }));
+
+    const result = await postLLM('anthropic', 'm', 'https://llm.test', {}, {}, { maxRetries: 2 });
+
+    expect(result).toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+  });
+
+  test('gives up after maxRetries with a rate-limit error', async () => {
+    stubFetch(() => status(429));
+
+    const error = await postLLM('anthropic', 'm', 'https://llm.test', {}, {}, { maxRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ code: 'LLM_RATE_LIMITED', statusCode: 429, retryable: true });
+    expect(calls).toHaveLength(2);
+  });
+
+  test('does not retry auth failures', async () => {
+    stubFetch(() => status(401));
+
+    const error = await postLLM('anthropic', 'm', 'https://llm.test', {}, {}, { maxRetries: 2 }).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'LLM_AUTH_FAILED', retryable: false });
+    expect(calls).toHaveLength(1);
+  });
+
+  test('aborts an attempt after timeoutMs without retrying it', async () => {
+    stubFetch((_call, signal) => new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const error = await postLLM('anthropic', 'm', 'https://llm.test', {}, {}, { timeoutMs: 20, maxRetries: 2 }).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'LLM_TIMEOUT', statusCode: 504, retryable: true });
+    expect(calls).toHaveLength(1);
+  });
+});
+
+test.describe('timeoutForTokens', () => {
+  test('keeps the default for short responses and scales for long ones', () => {
+    expect(timeoutForTokens(1024)).toBe(120_000);
+    expect(timeoutForTokens(8192)).toBeGreaterThan(120_000);
+    expect(timeoutForTokens(12000)).toBeGreaterThan(timeoutForTokens(8192));
+  });
+});
+
+test.describe('callClaude', () => {
+  test('falls back to the next model when one stays overloaded', async () => {
+    stubFetch(call => (call.body.model === 'primary' ? status(529) : claudeReply('from fallback')));
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    const text = await callClaude(
+      { apiKey: 'key', model: 'primary', fallbackModels: ['secondary'] },
+      { content: 'hi' },
+      { maxRetries: 1, usage }
+    );
+
+    expect(text).toBe('from fallback');
+    expect(calls.map(call => call.body.model)).toEqual(['primary', 'primary', 'secondary']);
+    expect(usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+  });
+
+  test('does not fall back on errors the next model would hit too', async () => {
+    stubFetch(() => status(401));
+
+    const error = await callClaude(
+      { apiKey: 'bad', model: 'primary', fallbackModels: ['secondary'] },
+      { content: 'hi' }
+    ).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'LLM_AUTH_FAILED' });
+    expect(calls.map(call => call.body.model)).toEqual(['primary']);
+  });
+
+  test('sends Bedrock calls to the configured Bedrock model', async () => {
+    stubFetch(() => claudeReply('ok'));
+
+    await callClaude(
+      { useBedrock: true, bedrockToken: 't', bedrockRegion: 'us-west-2', bedrockModel: 'anthropic.claude-x' },
+      { content: 'hi', maxTokens: 100 }
+    );
+
+    expect(calls[0].url).toBe('https://bedrock-runtime.us-west-2.amazonaws.com/model/anthropic.claude-x/invoke');
+    expect(calls[0].body.max_tokens).toBe(100);
+  });
+});
+
+test.describe('callLLMWithVision', () => {
+  test('uses direct API model names without Bedrock, whatever the Bedrock model variables say', async () => {
+    stubFetch(() => claudeReply('ok'));
+    const env = {
+      ANTHROPIC_API_KEY: 'key',
+      ANTHROPIC_MODEL_OPUS: 'anthropic.claude-opus-custom-v1:0',
+      ANTHROPIC_FALLBACK_MODELS: 'claude-fallback',
+      ANTHROPIC_BEDROCK_FALLBACK_MODELS: 'anthropic.claude-fallback-v1:0',
+    } as Env;
+
+    await callLLMWithVision([], 'prompt', { model: 'claude-opus', env });
+
+    expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(calls[0].body.model).toBe('claude-opus-4-20250514');
+  });
+
+  test('uses the Bedrock model variables and Bedrock fallbacks with Bedrock', async () => {
+    stubFetch(call => (call.url.includes('custom') ? status(404) : claudeReply('ok')));
+    const env = {
+      ANTHROPIC_USE_BEDROCK: '1',
+      ANTHROPIC_AWS_BEARER_TOKEN_BEDROCK: 't',
+      ANTHROPIC_MODEL_SONNET: 'anthropic.claude-sonnet-custom-v1:0',
+      ANTHROPIC_FALLBACK_MODELS: 'claude-fallback',
+      ANTHROPIC_BEDROCK_FALLBACK_MODELS: 'anthropic.claude-fallback-v1:0',
+    } as Env;
+
+    await callLLMWithVision([], 'prompt', { model: 'claude-sonnet', env });
+
+    expect(calls.map(call => decodeURIComponent(call.url.split('/model/')[1]))).toEqual([
+      'anthropic.claude-sonnet-custom-v1:0/invoke',
+      'anthropic.claude-fallback-v1:0/invoke',
+    ]);
+  });
+});
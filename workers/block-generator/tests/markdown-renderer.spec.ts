@@ -0,0 +1,47 @@
+/**
+ * Input -> output tests for the EDS Markdown renderer (src/markdown-renderer.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { renderMarkdown } from '../src/markdown-renderer';
+
+test.describe('renderMarkdown', () => {
+  test('renders default content as Markdown', () => {
+    const html = '<p>Some <strong>bold</strong> and <a href="/x">link</a>.</p><ul><li>one</li><li>two</li></ul>';
+
+    expect(renderMarkdown(html)).toBe('Some **bold** and [link](/x).\n\n- one\n- two\n');
+  });
+
+  test('separates sections with --- and renders blocks as grid tables', () => {
+    const html = '<main>'
+      + '<div><h1>Title</h1></div>'
+      + '<div><div class="cards"><div><div><p>A</p></div><div><p>B</p></div></div></div></div>'
+      + '</main>';
+
+    expect(renderMarkdown(html)).toBe([
+      '# Title',
+      '',
+      '---',
+      '',
+      '+-----------+',
+      '| Cards     |',
+      '+=====+=====+',
+      '| A   | B   |',
+      '+-----+-----+',
+      '',
+    ].join('\n'));
+  });
+
+  test('renders the metadata block of a full page', () => {
+    const html = '<html><body><main><div><div class="metadata"><div><div>Title</div><div>Hello</div></div></div></div></main></body></html>';
+
+    expect(renderMarkdown(html)).toBe([
+      '+---------------+',
+      '| Metadata      |',
+      '+=======+=======+',
+      '| Title | Hello |',
+      '+-------+-------+',
+      '',
+    ].join('\n'));
+  });
+});
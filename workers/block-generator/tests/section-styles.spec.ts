@@ -0,0 +1,117 @@
+/**
+ * Input -> output tests for section style classes and section-metadata matching (src/section-styles.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import { buildSectionMetadataHtml, matchSectionStyles, parseSectionStyles } from '../src/section-styles';
+
+const STYLES_CSS = `:root {
+  --light-color: #f4f4f4;
+  --dark-color: #222;
+}
+
+main .section {
+  padding: 64px 16px;
+}
+
+main .section.light,
+main .section.highlight {
+  background-color: var(--light-color);
+}
+
+main .section.dark {
+  background: var(--dark-color) url('/bg.png') no-repeat;
+  color: white;
+}
+
+main .section.hero-image {
+  background-image: url('/hero.jpg');
+}
+
+main .section.compact {
+  padding-block: 1rem;
+}
+
+@media (width >= 900px) {
+  main .section {
+    padding: 80px 32px;
+  }
+}
+
+.cards .section.ignored {
+  background-color: red;
+}`;
+
+function detected(overrides: Partial<Parameters<typeof matchSectionStyles>[0]>) {
+  return {
+    backgroundColor: null,
+    backgroundImage: null,
+    paddingTop: 80,
+    paddingBottom: 80,
+    pageBackground: 'rgb(255, 255, 255)',
+    ...overrides,
+  };
+}
+
+test.describe('parseSectionStyles', () => {
+  test('collects section classes, resolving variables and shorthands', () => {
+    expect(parseSectionStyles(STYLES_CSS)).toEqual({
+      base: { paddingTop: 80, paddingBottom: 80 },
+      styles: [
+        { name: 'light', backgroundImage: false, backgroundColor: [244, 244, 244, 1] },
+        { name: 'highlight', backgroundImage: false, backgroundColor: [244, 244, 244, 1] },
+        { name: 'dark', backgroundImage: true, backgroundColor: [34, 34, 34, 1] },
+        { name: 'hero-image', backgroundImage: true },
+        { name: 'compact', backgroundImage: false, paddingTop: 16, paddingBottom: 16 },
+      ],
+    });
+  });
+
+  test('returns no styles for a stylesheet without sections', () => {
+    expect(parseSectionStyles('body { margin: 0; }')).toEqual({ base: {}, styles: [] });
+  });
+});
+
+test.describe('matchSectionStyles', () => {
+  const sheet = parseSectionStyles(STYLES_CSS);
+
+  test('matches a background color to the closest style', () => {
+    expect(matchSectionStyles(detected({ backgroundColor: 'rgb(240, 240, 240)' }), sheet)).toEqual({ styles: ['light'], unmatched: [] });
+    expect(matchSectionStyles(detected({ backgroundColor: 'rgb(20, 20, 30)' }), sheet)).toEqual({ styles: ['dark'], unmatched: [] });
+  });
+
+  test('ignores a background that is the page background', () => {
+    expect(matchSectionStyles(detected({ backgroundColor: 'rgb(252, 252, 252)' }), sheet)).toEqual({ styles: [], unmatched: [] });
+  });
+
+  test('reports colors and images the site has no style for', () => {
+    expect(matchSectionStyles(detected({ backgroundColor: 'rgb(200, 0, 0)' }), parseSectionStyles('main .section.light { background: #fff; }'))).toEqual({
+      styles: [],
+      unmatched: ['background-color #c80000'],
+    });
+    expect(matchSectionStyles(detected({ backgroundImage: 'https://example.com/bg.jpg' }), { base: {}, styles: [] })).toEqual({
+      styles: [],
+      unmatched: ['background-image https://example.com/bg.jpg'],
+    });
+  });
+
+  test('adds a background image style not already chosen for the color', () => {
+    expect(matchSectionStyles(detected({ backgroundColor: 'rgb(34, 34, 34)', backgroundImage: '/photo.jpg' }), sheet)).toEqual({
+      styles: ['dark', 'hero-image'],
+      unmatched: [],
+    });
+  });
+
+  test('adds a spacing style only when padding differs from the default', () => {
+    expect(matchSectionStyles(detected({ paddingTop: 18, paddingBottom: 14 }), sheet).styles).toEqual(['compact']);
+    expect(matchSectionStyles(detected({ paddingTop: 76, paddingBottom: 84 }), sheet).styles).toEqual([]);
+  });
+});
+
+test.describe('buildSectionMetadataHtml', () => {
+  test('writes a section-metadata block with the styles', () => {
+    expect(buildSectionMetadataHtml(['dark', 'compact'])).toBe(
+      '<div class="section-metadata">\n  <div>\n    <div>Style</div>\n    <div>dark, compact</div>\n  </div>\n</div>'
+    );
+  });
+});
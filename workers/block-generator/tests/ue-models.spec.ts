@@ -0,0 +1,140 @@
+/**
+ * Input -> output tests for Universal Editor model inference and the
+ * component-*.json merges (src/ue-models.ts)
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  inferBlockModels,
+  inferCellKind,
+  mergeComponentDefinitions,
+  mergeComponentFilters,
+  mergeComponentModels,
+} from '../src/ue-models';
+import { parsePage } from '../src/authoring-dom';
+
+function cell(html: string) {
+  return parsePage(`<div>${html}</div>`).body.firstElementChild!;
+}
+
+test.describe('inferCellKind', () => {
+  test('reads pictures, lone links, formatted and plain text', () => {
+    expect(inferCellKind(cell('<picture><img src="/a.png" alt=""></picture>'))).toBe('image');
+    expect(inferCellKind(cell('<a href="/x">Read more</a>'))).toBe('link');
+    expect(inferCellKind(cell('<h3>Title</h3><p>Body</p>'))).toBe('richtext');
+    expect(inferCellKind(cell('Short title'))).toBe('text');
+    expect(inferCellKind(cell('x'.repeat(121)))).toBe('richtext');
+  });
+});
+
+test.describe('inferBlockModels', () => {
+  test('a block whose rows share one shape becomes a container with an item model', () => {
+    const html = '<div class="cards dark">'
+      + '<div><div><picture><img src="/a.png" alt=""></picture></div><div><h3>A</h3><p>Text</p></div></div>'
+      + '<div><div><picture><img src="/b.png" alt=""></picture></div><div><h3>B</h3><p>Text</p></div></div>'
+      + '</div>';
+
+    const models = inferBlockModels('cards', html);
+
+    expect(models.definitions.map(entry => [entry.id, entry.plugins.xwalk.page.template])).toEqual([
+      ['cards', { name: 'Cards', model: 'cards', filter: 'cards' }],
+      ['cards-item', { name: 'Cards Item', model: 'cards-item' }],
+    ]);
+    expect(models.models).toEqual([
+      {
+        id: 'cards',
+        fields: [{
+          component: 'multiselect', valueType: 'string', name: 'classes', label: 'Style', options: [{ name: 'Dark', value: 'dark' }],
+        }],
+      },
+      {
+        id: 'cards-item',
+        fields: [
+          { component: 'reference', valueType: 'string', name: 'image', label: 'Image', multi: false },
+          { component: 'text', valueType: 'string', name: 'imageAlt', label: 'Alt Text', value: '' },
+          { component: 'richtext', valueType: 'string', name: 'text', label: 'Text', value: '' },
+        ],
+      },
+    ]);
+    expect(models.filters).toEqual([{ id: 'cards', components: ['cards-item'] }]);
+  });
+
+  test('other blocks get one model with a field per cell', () => {
+    const html = '<div class="hero"><div><div><h1>Title</h1><p>Intro</p></div></div><div><div><a href="/go">Go</a></div><div>Note</div></div></div>';
+
+    const models = inferBlockModels('hero', html);
+
+    expect(models.definitions).toHaveLength(1);
+    expect(models.models[0].fields.map(field => field.name)).toEqual(['text', 'link', 'linkText', 'title']);
+    expect(models.filters).toEqual([]);
+  });
+
+  test('finds blocks whose name is not a valid CSS identifier', () => {
+    const html = '<p>Intro</p><div class="2-up"><div><div>Left</div><div>Right</div></div></div>';
+
+    const models = inferBlockModels('2-up', html);
+
+    expect(models.definitions[0]).toMatchObject({ id: '2-up', title: '2 Up' });
+  });
+
+  test('throws without a block', () => {
+    expect(() => inferBlockModels('cards', '<p>No block</p>')).toThrow('No "cards" block');
+  });
+});
+
+test.describe('component-*.json merges', () => {
+  const models = inferBlockModels('cards', '<div class="cards"><div><div>A</div></div><div><div>B</div></div></div>');
+
+  test('adds definitions to the blocks group, replacing entries with the same id', () => {
+    const existing = {
+      groups: [
+        { title: 'Default Content', id: 'default', components: [] },
+        { title: 'Blocks', id: 'blocks', components: [{ ...models.definitions[0], title: 'Old Cards' }] },
+      ],
+    };
+
+    const merged = mergeComponentDefinitions(existing, models.definitions);
+
+    expect(merged.groups[0]).toEqual(existing.groups[0]);
+    expect(merged.groups[1].components.map(entry => entry.title)).toEqual(['Cards', 'Cards Item']);
+  });
+
+  test('creates the blocks group in a new file', () => {
+    expect(mergeComponentDefinitions(null, models.definitions).groups.map(group => group.id)).toEqual(['blocks']);
+  });
+
+  test('replaces models with the same id', () => {
+    const merged = mergeComponentModels([{ id: 'page-metadata', fields: [] }, { id: 'cards-item', fields: [] }], models.models);
+
+    expect(merged.map(model => model.id)).toEqual(['page-metadata', 'cards-item']);
+    expect(merged[1].fields.length).toBeGreaterThan(0);
+  });
+
+  test('adds the block filter and allows the block in sections once', () => {
+    const existing = [
+      { id: 'main', components: ['section'] },
+      { id: 'section', components: ['text', 'cards'] },
+    ];
+
+    expect(mergeComponentFilters(existing, models.filters, 'cards')).toEqual([
+      { id: 'main', components: ['section'] },
+      { id: 'section', components: ['text', 'cards'] },
+      { id: 'cards', components: ['cards-item'] },
+    ]);
+    expect(mergeComponentFilters(null, [], 'hero')).toEqual([
+      { id: 'section', components: ['text', 'image', 'button', 'title', 'hero'] },
+    ]);
+  });
+
+  test('keeps the build:json spread entries of models/_component-filters.json', () => {
+    const fragments = [
+      { id: 'section', components: ['text'] },
+      { '...': '../blocks/*/_*.json#/filters' },
+    ] as unknown as Parameters<typeof mergeComponentFilters>[0];
+
+    expect(mergeComponentFilters(fragments, [], 'cards')).toEqual([
+      { id: 'section', components: ['text', 'cards'] },
+      { '...': '../blocks/*/_*.json#/filters' },
+    ]);
+  });
+});